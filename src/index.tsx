@@ -1,7 +1,18 @@
 import { StrictMode } from "react";
 import { createRoot } from "react-dom/client";
+import { campaignStore } from "./lib/campaignStore";
+import { dncStore } from "./lib/dncStore";
+import { createIndexedDbDncRepository } from "./lib/persistence/dncRepository";
+import { createIndexedDbRepository } from "./lib/persistence/indexedDbRepository";
+import { createIndexedDbSegmentRepository } from "./lib/persistence/segmentRepository";
+import { createCampaignSyncChannel, createDncSyncChannel } from "./lib/persistence/syncChannel";
+import { segmentStore } from "./lib/segmentStore";
 import { ContainerScreen } from "./screens/ContainerScreen/ContainerScreen";
 
+void campaignStore.connect(createIndexedDbRepository(), createCampaignSyncChannel());
+void segmentStore.connect(createIndexedDbSegmentRepository());
+void dncStore.connect(createIndexedDbDncRepository(), createDncSyncChannel());
+
 createRoot(document.getElementById("app") as HTMLElement).render(
   <StrictMode>
     <ContainerScreen />
@@ -0,0 +1,32 @@
+import { ApiTransport, RequestOptions } from "./transport";
+import { ContactIdsRequest, ContactResultsResponse, MoveContactsRequest } from "./types";
+
+export interface AudienceApi {
+  stopContacts: (request: ContactIdsRequest, options?: RequestOptions) => Promise<ContactResultsResponse>;
+  resumeContacts: (request: ContactIdsRequest, options?: RequestOptions) => Promise<ContactResultsResponse>;
+  // Back to Pending with 0 tries, for a recall wave
+  resetContacts: (request: ContactIdsRequest, options?: RequestOptions) => Promise<ContactResultsResponse>;
+  deleteContacts: (request: ContactIdsRequest, options?: RequestOptions) => Promise<ContactResultsResponse>;
+  moveContacts: (request: MoveContactsRequest, options?: RequestOptions) => Promise<ContactResultsResponse>;
+}
+
+export function createAudienceApi(transport: ApiTransport): AudienceApi {
+  const updateContacts = (action: 'stop' | 'resume' | 'reset' | 'delete') =>
+    ({ campaignId, contactIds }: ContactIdsRequest, options?: RequestOptions) => transport({
+      method: 'POST',
+      path: `/campaigns/${encodeURIComponent(campaignId)}/contacts/${action}`,
+      body: { contactIds },
+    }, options) as Promise<ContactResultsResponse>;
+
+  return {
+    stopContacts: updateContacts('stop'),
+    resumeContacts: updateContacts('resume'),
+    resetContacts: updateContacts('reset'),
+    deleteContacts: updateContacts('delete'),
+    moveContacts: ({ campaignId, contactIds, listId }, options) => transport({
+      method: 'POST',
+      path: `/campaigns/${encodeURIComponent(campaignId)}/contacts/move`,
+      body: { contactIds, listId },
+    }, options) as Promise<ContactResultsResponse>,
+  };
+}
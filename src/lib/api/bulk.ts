@@ -0,0 +1,68 @@
+import { getApiErrorDetail, isAbortError } from "./errors";
+import { RequestOptions } from "./transport";
+import { ContactResult, ContactResultsResponse } from "./types";
+
+// Contacts sent per request; keeps each request well under the server's body limit
+export const BULK_BATCH_SIZE = 50;
+
+export interface BulkFailure {
+  contactId: string;
+  error: string;
+}
+
+export interface BulkOutcome {
+  succeeded: ContactResult[];
+  failed: BulkFailure[];
+}
+
+export interface BulkProgress {
+  processed: number;
+  total: number;
+}
+
+interface RunInBatchesOptions {
+  batchSize?: number;
+  signal?: AbortSignal;
+  // Called after each batch with that batch's outcome, so confirmed contacts can be applied
+  // even if a later batch is cancelled
+  onBatch?: (outcome: BulkOutcome, progress: BulkProgress) => void;
+}
+
+/**
+ * Send `contactIds` to a bulk endpoint one batch at a time and collect every contact's outcome.
+ * A batch that fails as a whole marks its contacts failed and the run carries on; only
+ * cancelling through `signal` stops it, by rejecting with the abort error.
+ */
+export async function runInBatches(
+  contactIds: string[],
+  sendBatch: (contactIds: string[], options: RequestOptions) => Promise<ContactResultsResponse>,
+  { batchSize = BULK_BATCH_SIZE, signal, onBatch }: RunInBatchesOptions = {},
+): Promise<BulkOutcome> {
+  const outcome: BulkOutcome = { succeeded: [], failed: [] };
+
+  for (let start = 0; start < contactIds.length; start += batchSize) {
+    const batchIds = contactIds.slice(start, start + batchSize);
+    const batch: BulkOutcome = { succeeded: [], failed: [] };
+
+    try {
+      const { results } = await sendBatch(batchIds, { signal });
+      const resultsById = new Map(results.map(result => [result.contactId, result]));
+      batchIds.forEach(contactId => {
+        const result = resultsById.get(contactId);
+        if (result?.ok) batch.succeeded.push(result);
+        else batch.failed.push({ contactId, error: result?.error ?? 'The server did not report this contact' });
+      });
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      console.error('Error in bulk request:', error);
+      const message = getApiErrorDetail(error);
+      batchIds.forEach(contactId => batch.failed.push({ contactId, error: message }));
+    }
+
+    outcome.succeeded.push(...batch.succeeded);
+    outcome.failed.push(...batch.failed);
+    onBatch?.(batch, { processed: start + batchIds.length, total: contactIds.length });
+  }
+
+  return outcome;
+}
@@ -0,0 +1,17 @@
+import { ApiTransport, RequestOptions } from "./transport";
+import { CallContactRequest, CallContactResponse } from "./types";
+
+export interface CampaignApi {
+  // Place a call to one contact now, outside the dialer queue
+  callContact: (request: CallContactRequest, options?: RequestOptions) => Promise<CallContactResponse>;
+}
+
+export function createCampaignApi(transport: ApiTransport): CampaignApi {
+  return {
+    callContact: ({ campaignId, ...body }, options) => transport({
+      method: 'POST',
+      path: `/campaigns/${encodeURIComponent(campaignId)}/calls`,
+      body,
+    }, options) as Promise<CallContactResponse>,
+  };
+}
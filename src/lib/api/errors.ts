@@ -0,0 +1,68 @@
+// Error codes the backend returns in `{ error: { code, message } }` bodies, plus the ones the
+// client raises itself
+export type ApiErrorCode =
+  | 'network'
+  | 'timeout'
+  | 'unauthorized'
+  | 'forbidden'
+  | 'not-found'
+  | 'conflict'
+  | 'validation'
+  | 'rate-limited'
+  | 'server'
+  | 'unknown';
+
+export class ApiError extends Error {
+  constructor(
+    public readonly code: ApiErrorCode,
+    message: string,
+    // HTTP status; 0 when the request never got a response
+    public readonly status = 0,
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+export const codeFromStatus = (status: number): ApiErrorCode => {
+  if (status === 401) return 'unauthorized';
+  if (status === 403) return 'forbidden';
+  if (status === 404) return 'not-found';
+  if (status === 408) return 'timeout';
+  if (status === 409) return 'conflict';
+  if (status === 400 || status === 422) return 'validation';
+  if (status === 429) return 'rate-limited';
+  if (status >= 500) return 'server';
+  return 'unknown';
+};
+
+// True when the caller cancelled the request; these should not be reported to the user
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+const ERROR_MESSAGES: Record<ApiErrorCode, string> = {
+  'network': "Can't reach the server. Check your connection and try again.",
+  'timeout': 'The server took too long to respond. Please try again.',
+  'unauthorized': 'Your session has expired. Please sign in again.',
+  'forbidden': "You don't have permission to do that.",
+  'not-found': 'It looks like this was deleted. Refresh and try again.',
+  'conflict': 'Someone else changed this at the same time. Refresh and try again.',
+  'validation': 'The server rejected the request.',
+  'rate-limited': 'Too many requests. Please wait a moment and try again.',
+  'server': 'Something went wrong on our side. Please try again.',
+  'unknown': 'Something went wrong. Please try again.',
+};
+
+// Validation errors use the server's own message since it names the offending field
+export function getApiErrorDetail(error: unknown): string {
+  if (!(error instanceof ApiError)) return ERROR_MESSAGES.unknown;
+  return error.code === 'validation' && error.message ? error.message : ERROR_MESSAGES[error.code];
+}
+
+/**
+ * User-facing text for a failed request, prefixed with what was being attempted:
+ * getApiErrorMessage(error, 'Failed to stop Noor') -> "Failed to stop Noor. Too many requests. ..."
+ */
+export function getApiErrorMessage(error: unknown, action: string): string {
+  return `${action}. ${getApiErrorDetail(error)}`;
+}
@@ -0,0 +1,57 @@
+import { createAudienceApi } from "./audienceApi";
+import { createCampaignApi } from "./campaignApi";
+import { createMockServer } from "./mockServer";
+import { createPhonebookApi } from "./phonebookApi";
+import { createFetchTransport } from "./transport";
+
+export { BULK_BATCH_SIZE, runInBatches } from "./bulk";
+export { PHONEBOOK_NAME_MAX_LENGTH } from "./phonebookApi";
+export type { PhonebookApi } from "./phonebookApi";
+export type { RequestOptions } from "./transport";
+export type { BulkFailure, BulkOutcome, BulkProgress } from "./bulk";
+export { ApiError, getApiErrorDetail, getApiErrorMessage, isAbortError } from "./errors";
+export type {
+  AddPhonebookContactsRequest,
+  AddPhonebookContactsResponse,
+  CallContactRequest,
+  CallContactResponse,
+  ContactIdsRequest,
+  ContactResult,
+  ContactResultsResponse,
+  CreatePhonebookRequest,
+  GetPhonebookContactsRequest,
+  GetPhonebookContactsResponse,
+  ListPhonebooksRequest,
+  ListPhonebooksResponse,
+  MoveContactsRequest,
+  PhonebookContact,
+  PhonebookContactInput,
+  PhonebookContactRequest,
+  PhonebookSummary,
+  RenamePhonebookRequest,
+  UpdatePhonebookContactRequest,
+} from "./types";
+
+const baseUrl = import.meta.env.VITE_API_BASE_URL;
+const mockLatencyMs = Number(import.meta.env.VITE_MOCK_LATENCY_MS ?? 500);
+
+// Used until a backend URL is configured
+export const mockServer = baseUrl ? null : createMockServer({
+  minLatencyMs: mockLatencyMs / 2,
+  maxLatencyMs: mockLatencyMs * 1.5,
+  // Off unless asked for, e.g. VITE_MOCK_ERROR_RATE=0.05 to exercise the error handling
+  errorRate: Number(import.meta.env.VITE_MOCK_ERROR_RATE ?? 0),
+});
+
+const transport = mockServer ? mockServer.transport : createFetchTransport(baseUrl ?? '');
+
+export const api = {
+  campaigns: createCampaignApi(transport),
+  audience: createAudienceApi(transport),
+  phonebooks: createPhonebookApi(transport),
+};
+
+// Lets developers inject failures from the console, e.g. mockServer.failNext({ status: 429 })
+if (import.meta.env.DEV && mockServer) {
+  Object.assign(window, { mockServer });
+}
@@ -0,0 +1,152 @@
+import { ApiError } from "./errors";
+import { PHONEBOOK_NAME_MAX_LENGTH } from "./phonebookApi";
+import { PhonebookContact, PhonebookContactInput, PhonebookSummary } from "./types";
+
+const PHONEBOOK_TEAMS = ['Sales', 'Support', 'Marketing', 'Billing', 'Partners', 'Events', 'Retail', 'Field'];
+const PHONEBOOK_CITIES = ['Amman', 'Irbid', 'Zarqa', 'Aqaba', 'Riyadh', 'Jeddah', 'Dubai', 'Cairo', 'Beirut', 'Doha'];
+const PHONEBOOK_QUARTERS = ['Q1', 'Q2', 'Q3'];
+
+// A few hand-named phonebooks followed by a few hundred generated ones
+const SEED_PHONEBOOKS: PhonebookSummary[] = [
+  { id: '1', name: 'Customer Database', contactCount: 1250 },
+  { id: '2', name: 'Sales Prospects', contactCount: 890 },
+  { id: '3', name: 'Support Contacts', contactCount: 456 },
+  { id: '4', name: 'VIP Clients', contactCount: 78 },
+  { id: '5', name: 'Marketing List', contactCount: 2340 },
+  ...PHONEBOOK_TEAMS.flatMap(team => PHONEBOOK_CITIES.flatMap(city => PHONEBOOK_QUARTERS.map(quarter => `${team} ${city} ${quarter}`)))
+    .map((name, index): PhonebookSummary => ({
+      id: String(index + 6),
+      name,
+      contactCount: 20 + ((index * 7919) % 1500),
+    })),
+];
+
+// Deterministic so the same phonebook always starts with the same contacts. Every 10th contact
+// comes from a pool shared by all phonebooks (in national format) and every 25th has a broken
+// number, like real phonebooks.
+const getSeedContact = (phonebook: PhonebookSummary, index: number): PhonebookContact => {
+  let phone = `+96277${String(Number(phonebook.id) * 10000 + index).padStart(7, '0')}`;
+  if (index % 25 === 24) phone = `077${index}`;
+  else if (index % 10 === 0) phone = `0791${String(index % 2000).padStart(6, '0')}`;
+  return {
+    id: `${phonebook.id}-${index + 1}`,
+    phonebookId: phonebook.id,
+    name: `${phonebook.name} Contact ${index + 1}`,
+    phone,
+  };
+};
+
+export interface MockPhonebookStore {
+  list: (search: string) => PhonebookSummary[];
+  create: (name: string) => PhonebookSummary;
+  rename: (phonebookId: string, name: string) => PhonebookSummary;
+  remove: (phonebookId: string) => void;
+  // Oldest first
+  getContacts: (phonebookId: string) => PhonebookContact[];
+  addContacts: (phonebookId: string, contacts: PhonebookContactInput[]) => PhonebookContact[];
+  updateContact: (phonebookId: string, contactId: string, changes: PhonebookContactInput) => PhonebookContact;
+  deleteContact: (phonebookId: string, contactId: string) => void;
+}
+
+/**
+ * The phonebook service's data for the mock server. Seed contacts are only generated when a
+ * phonebook is first read, so the few hundred seed phonebooks cost nothing until opened.
+ */
+export function createMockPhonebookStore(): MockPhonebookStore {
+  let phonebooks = SEED_PHONEBOOKS.map(phonebook => ({ ...phonebook }));
+  const contactsById = new Map<string, PhonebookContact[]>();
+  let nextPhonebookId = phonebooks.length + 1;
+  let nextContactId = 1;
+
+  const find = (phonebookId: string): PhonebookSummary => {
+    const phonebook = phonebooks.find(item => item.id === phonebookId);
+    if (!phonebook) throw new ApiError('not-found', `Phonebook ${phonebookId} does not exist`, 404);
+    return phonebook;
+  };
+
+  const contactsOf = (phonebook: PhonebookSummary): PhonebookContact[] => {
+    let contacts = contactsById.get(phonebook.id);
+    if (!contacts) {
+      contacts = Array.from({ length: phonebook.contactCount }, (_, index) => getSeedContact(phonebook, index));
+      contactsById.set(phonebook.id, contacts);
+    }
+    return contacts;
+  };
+
+  const setContacts = (phonebook: PhonebookSummary, contacts: PhonebookContact[]) => {
+    contactsById.set(phonebook.id, contacts);
+    phonebook.contactCount = contacts.length;
+  };
+
+  const checkName = (name: string, exceptId?: string): string => {
+    const trimmed = name.trim();
+    if (!trimmed) throw new ApiError('validation', 'Phonebook name is required', 422);
+    if (trimmed.length > PHONEBOOK_NAME_MAX_LENGTH) {
+      throw new ApiError('validation', `Phonebook name must be ${PHONEBOOK_NAME_MAX_LENGTH} characters or less`, 422);
+    }
+    const normalized = trimmed.toLowerCase();
+    if (phonebooks.some(phonebook => phonebook.id !== exceptId && phonebook.name.toLowerCase() === normalized)) {
+      throw new ApiError('validation', `A phonebook named "${trimmed}" already exists`, 422);
+    }
+    return trimmed;
+  };
+
+  const checkContact = ({ name, phone }: PhonebookContactInput): PhonebookContactInput => {
+    if (!name.trim()) throw new ApiError('validation', 'Contact name is required', 422);
+    if (!phone.trim()) throw new ApiError('validation', 'Contact phone is required', 422);
+    return { name: name.trim(), phone: phone.trim() };
+  };
+
+  return {
+    list: (search) => {
+      const normalized = search.trim().toLowerCase();
+      return normalized
+        ? phonebooks.filter(phonebook => phonebook.name.toLowerCase().includes(normalized))
+        : phonebooks;
+    },
+    create: (name) => {
+      const phonebook: PhonebookSummary = { id: String(nextPhonebookId++), name: checkName(name), contactCount: 0 };
+      phonebooks = [phonebook, ...phonebooks];
+      contactsById.set(phonebook.id, []);
+      return phonebook;
+    },
+    rename: (phonebookId, name) => {
+      const phonebook = find(phonebookId);
+      phonebook.name = checkName(name, phonebookId);
+      return phonebook;
+    },
+    remove: (phonebookId) => {
+      find(phonebookId);
+      phonebooks = phonebooks.filter(phonebook => phonebook.id !== phonebookId);
+      contactsById.delete(phonebookId);
+    },
+    getContacts: (phonebookId) => contactsOf(find(phonebookId)),
+    addContacts: (phonebookId, inputs) => {
+      const phonebook = find(phonebookId);
+      const added = inputs.map(input => ({
+        ...checkContact(input),
+        id: `new-${nextContactId++}`,
+        phonebookId,
+      }));
+      setContacts(phonebook, [...contactsOf(phonebook), ...added]);
+      return added;
+    },
+    updateContact: (phonebookId, contactId, changes) => {
+      const phonebook = find(phonebookId);
+      const contacts = contactsOf(phonebook);
+      const existing = contacts.find(contact => contact.id === contactId);
+      if (!existing) throw new ApiError('not-found', `Contact ${contactId} does not exist`, 404);
+      const updated = { ...existing, ...checkContact(changes) };
+      setContacts(phonebook, contacts.map(contact => (contact.id === contactId ? updated : contact)));
+      return updated;
+    },
+    deleteContact: (phonebookId, contactId) => {
+      const phonebook = find(phonebookId);
+      const contacts = contactsOf(phonebook);
+      if (!contacts.some(contact => contact.id === contactId)) {
+        throw new ApiError('not-found', `Contact ${contactId} does not exist`, 404);
+      }
+      setContacts(phonebook, contacts.filter(contact => contact.id !== contactId));
+    },
+  };
+}
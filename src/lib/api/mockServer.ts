@@ -0,0 +1,210 @@
+import { AudienceStatus } from "../audience";
+import { matchPath } from "../router";
+import { ApiError, codeFromStatus } from "./errors";
+import { ApiRequest, ApiTransport } from "./transport";
+import { MockPhonebookStore, createMockPhonebookStore } from "./mockPhonebooks";
+import {
+  AddPhonebookContactsResponse,
+  CallContactResponse,
+  ContactResult,
+  ContactResultsResponse,
+  CreatePhonebookRequest,
+  GetPhonebookContactsResponse,
+  ListPhonebooksResponse,
+  PhonebookContact,
+  PhonebookContactInput,
+  PhonebookSummary,
+} from "./types";
+
+export interface MockServerOptions {
+  // Each response is delayed by a random time in this range
+  minLatencyMs?: number;
+  maxLatencyMs?: number;
+  // Share of requests that fail with a 500, 0-1
+  errorRate?: number;
+  // Share of contacts a bulk endpoint reports as failed, 0-1
+  itemErrorRate?: number;
+}
+
+export interface InjectedError {
+  status: number;
+  message?: string;
+  // Only requests whose "METHOD /path" contains this text; any request when unset
+  match?: string;
+}
+
+export interface MockServer {
+  transport: ApiTransport;
+  setOptions: (options: MockServerOptions) => void;
+  // Fail the next matching request with this error
+  failNext: (error: InjectedError) => void;
+}
+
+const DEFAULT_PHONEBOOK_PAGE_SIZE = 50;
+const DEFAULT_CONTACT_PAGE_SIZE = 200;
+const MAX_CONTACT_PAGE_SIZE = 500;
+
+type RouteHandler = (params: Record<string, string>, request: ApiRequest, options: Required<MockServerOptions>) => unknown;
+
+// `status` is what the contacts end up as; unset for changes that don't touch it
+const contactResults = (status?: AudienceStatus) => (
+  _params: Record<string, string>,
+  request: ApiRequest,
+  options: Required<MockServerOptions>,
+): ContactResultsResponse => {
+  const { contactIds } = request.body as { contactIds: string[] };
+  return {
+    results: contactIds.map((contactId): ContactResult => (Math.random() < options.itemErrorRate
+      ? { contactId, ok: false, error: 'Contact is locked by an active call' }
+      : { contactId, ok: true, ...(status && { status }) })),
+  };
+};
+
+interface Route {
+  method: ApiRequest['method'];
+  pattern: string;
+  handler: RouteHandler;
+}
+
+const CAMPAIGN_ROUTES: Route[] = [
+  {
+    method: 'POST',
+    pattern: '/campaigns/:campaignId/calls',
+    handler: (): CallContactResponse => ({ callId: Math.random().toString(36).slice(2, 10) }),
+  },
+  { method: 'POST', pattern: '/campaigns/:campaignId/contacts/stop', handler: contactResults('Stopped') },
+  { method: 'POST', pattern: '/campaigns/:campaignId/contacts/resume', handler: contactResults('Pending') },
+  { method: 'POST', pattern: '/campaigns/:campaignId/contacts/reset', handler: contactResults('Pending') },
+  { method: 'POST', pattern: '/campaigns/:campaignId/contacts/delete', handler: contactResults() },
+  { method: 'POST', pattern: '/campaigns/:campaignId/contacts/move', handler: contactResults() },
+];
+
+const createPhonebookRoutes = (phonebooks: MockPhonebookStore): Route[] => [
+  {
+    method: 'GET',
+    pattern: '/phonebooks',
+    handler: (_params, { query }): ListPhonebooksResponse => {
+      const offset = Number(query?.offset ?? 0);
+      const limit = Number(query?.limit ?? DEFAULT_PHONEBOOK_PAGE_SIZE);
+      const matches = phonebooks.list(String(query?.search ?? ''));
+      return { phonebooks: matches.slice(offset, offset + limit), total: matches.length };
+    },
+  },
+  {
+    method: 'POST',
+    pattern: '/phonebooks',
+    handler: (_params, { body }): PhonebookSummary => phonebooks.create((body as CreatePhonebookRequest).name),
+  },
+  {
+    method: 'PATCH',
+    pattern: '/phonebooks/:phonebookId',
+    handler: ({ phonebookId }, { body }): PhonebookSummary =>
+      phonebooks.rename(phonebookId, (body as { name: string }).name),
+  },
+  {
+    method: 'DELETE',
+    pattern: '/phonebooks/:phonebookId',
+    handler: ({ phonebookId }) => phonebooks.remove(phonebookId),
+  },
+  {
+    method: 'GET',
+    pattern: '/phonebooks/:phonebookId/contacts',
+    handler: ({ phonebookId }, { query }): GetPhonebookContactsResponse => {
+      const search = String(query?.search ?? '').trim().toLowerCase();
+      const all = phonebooks.getContacts(phonebookId);
+      const matches = search
+        ? all.filter(contact => contact.name.toLowerCase().includes(search) || contact.phone.includes(search))
+        : all;
+      const start = Number(query?.cursor ?? 0);
+      const pageSize = Math.min(Number(query?.pageSize ?? DEFAULT_CONTACT_PAGE_SIZE), MAX_CONTACT_PAGE_SIZE);
+      const end = Math.min(start + pageSize, matches.length);
+      return {
+        contacts: matches.slice(start, end),
+        ...(end < matches.length && { nextCursor: String(end) }),
+      };
+    },
+  },
+  {
+    method: 'POST',
+    pattern: '/phonebooks/:phonebookId/contacts',
+    handler: ({ phonebookId }, { body }): AddPhonebookContactsResponse => ({
+      contacts: phonebooks.addContacts(phonebookId, (body as { contacts: PhonebookContactInput[] }).contacts),
+    }),
+  },
+  {
+    method: 'PATCH',
+    pattern: '/phonebooks/:phonebookId/contacts/:contactId',
+    handler: ({ phonebookId, contactId }, { body }): PhonebookContact =>
+      phonebooks.updateContact(phonebookId, contactId, body as PhonebookContactInput),
+  },
+  {
+    method: 'DELETE',
+    pattern: '/phonebooks/:phonebookId/contacts/:contactId',
+    handler: ({ phonebookId, contactId }) => phonebooks.deleteContact(phonebookId, contactId),
+  },
+];
+
+const abortError = () => new DOMException('The request was cancelled', 'AbortError');
+
+const delay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(abortError());
+    return;
+  }
+  const handleAbort = () => {
+    clearTimeout(timer);
+    reject(abortError());
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', handleAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', handleAbort, { once: true });
+});
+
+/**
+ * In-browser stand-in for the campaign backend. Serves the same routes and error bodies as the
+ * real API, with configurable latency, random failures and one-off injected errors.
+ */
+export function createMockServer(initialOptions: MockServerOptions = {}): MockServer {
+  let options: Required<MockServerOptions> = {
+    minLatencyMs: 200,
+    maxLatencyMs: 800,
+    errorRate: 0,
+    itemErrorRate: 0,
+    ...initialOptions,
+  };
+  const injectedErrors: InjectedError[] = [];
+  const routes = [...CAMPAIGN_ROUTES, ...createPhonebookRoutes(createMockPhonebookStore())];
+
+  const transport: ApiTransport = async (request, { signal } = {}) => {
+    await delay(options.minLatencyMs + Math.random() * (options.maxLatencyMs - options.minLatencyMs), signal);
+
+    const description = `${request.method} ${request.path}`;
+    const injectedIndex = injectedErrors.findIndex(error => !error.match || description.includes(error.match));
+    if (injectedIndex !== -1) {
+      const [{ status, message }] = injectedErrors.splice(injectedIndex, 1);
+      throw new ApiError(codeFromStatus(status), message ?? `Injected ${status} error`, status);
+    }
+    if (Math.random() < options.errorRate) {
+      throw new ApiError('server', 'Internal server error', 500);
+    }
+
+    for (const route of routes) {
+      const params = route.method === request.method ? matchPath(route.pattern, request.path) : null;
+      // Copied like a response off the wire, so callers never share the server's objects
+      if (params) return structuredClone(route.handler(params, request, options));
+    }
+    throw new ApiError('not-found', `No route for ${description}`, 404);
+  };
+
+  return {
+    transport,
+    setOptions: (next) => {
+      options = { ...options, ...next };
+    },
+    failNext: (error) => {
+      injectedErrors.push(error);
+    },
+  };
+}
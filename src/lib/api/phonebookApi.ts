@@ -0,0 +1,77 @@
+import { ApiTransport, RequestOptions } from "./transport";
+import {
+  AddPhonebookContactsRequest,
+  AddPhonebookContactsResponse,
+  CreatePhonebookRequest,
+  GetPhonebookContactsRequest,
+  GetPhonebookContactsResponse,
+  ListPhonebooksRequest,
+  ListPhonebooksResponse,
+  PhonebookContact,
+  PhonebookContactRequest,
+  PhonebookSummary,
+  RenamePhonebookRequest,
+  UpdatePhonebookContactRequest,
+} from "./types";
+
+// Longest phonebook name the service accepts
+export const PHONEBOOK_NAME_MAX_LENGTH = 80;
+
+// The phonebook service: the organisation's saved contact lists, outside any campaign
+export interface PhonebookApi {
+  listPhonebooks: (request?: ListPhonebooksRequest, options?: RequestOptions) => Promise<ListPhonebooksResponse>;
+  createPhonebook: (request: CreatePhonebookRequest, options?: RequestOptions) => Promise<PhonebookSummary>;
+  renamePhonebook: (request: RenamePhonebookRequest, options?: RequestOptions) => Promise<PhonebookSummary>;
+  deletePhonebook: (phonebookId: string, options?: RequestOptions) => Promise<void>;
+  // One page of a phonebook's contacts; follow `nextCursor` for the rest
+  getContacts: (request: GetPhonebookContactsRequest, options?: RequestOptions) => Promise<GetPhonebookContactsResponse>;
+  addContacts: (request: AddPhonebookContactsRequest, options?: RequestOptions) => Promise<AddPhonebookContactsResponse>;
+  updateContact: (request: UpdatePhonebookContactRequest, options?: RequestOptions) => Promise<PhonebookContact>;
+  deleteContact: (request: PhonebookContactRequest, options?: RequestOptions) => Promise<void>;
+}
+
+const phonebookPath = (phonebookId: string) => `/phonebooks/${encodeURIComponent(phonebookId)}`;
+
+const contactPath = ({ phonebookId, contactId }: PhonebookContactRequest) =>
+  `${phonebookPath(phonebookId)}/contacts/${encodeURIComponent(contactId)}`;
+
+export function createPhonebookApi(transport: ApiTransport): PhonebookApi {
+  return {
+    listPhonebooks: ({ search, offset, limit } = {}, options) => transport({
+      method: 'GET',
+      path: '/phonebooks',
+      query: { search: search || undefined, offset, limit },
+    }, options) as Promise<ListPhonebooksResponse>,
+    createPhonebook: ({ name }, options) => transport({
+      method: 'POST',
+      path: '/phonebooks',
+      body: { name },
+    }, options) as Promise<PhonebookSummary>,
+    renamePhonebook: ({ phonebookId, name }, options) => transport({
+      method: 'PATCH',
+      path: phonebookPath(phonebookId),
+      body: { name },
+    }, options) as Promise<PhonebookSummary>,
+    deletePhonebook: async (phonebookId, options) => {
+      await transport({ method: 'DELETE', path: phonebookPath(phonebookId) }, options);
+    },
+    getContacts: ({ phonebookId, search, cursor, pageSize }, options) => transport({
+      method: 'GET',
+      path: `${phonebookPath(phonebookId)}/contacts`,
+      query: { search: search || undefined, cursor, pageSize },
+    }, options) as Promise<GetPhonebookContactsResponse>,
+    addContacts: ({ phonebookId, contacts }, options) => transport({
+      method: 'POST',
+      path: `${phonebookPath(phonebookId)}/contacts`,
+      body: { contacts },
+    }, options) as Promise<AddPhonebookContactsResponse>,
+    updateContact: ({ name, phone, ...target }, options) => transport({
+      method: 'PATCH',
+      path: contactPath(target),
+      body: { name, phone },
+    }, options) as Promise<PhonebookContact>,
+    deleteContact: async (target, options) => {
+      await transport({ method: 'DELETE', path: contactPath(target) }, options);
+    },
+  };
+}
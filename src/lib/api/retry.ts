@@ -0,0 +1,48 @@
+import { ApiError, ApiErrorCode } from "./errors";
+import { RequestOptions } from "./transport";
+
+// Failures that may go away on their own; the rest need the request or the data to change first
+const TRANSIENT_CODES: ApiErrorCode[] = ['network', 'timeout', 'rate-limited', 'server'];
+
+export const isTransientError = (error: unknown): boolean =>
+  error instanceof ApiError && TRANSIENT_CODES.includes(error.code);
+
+interface RetryOptions extends RequestOptions {
+  attempts?: number;
+  // Waited before the first retry, doubling for each one after
+  baseDelayMs?: number;
+}
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(signal.reason);
+    return;
+  }
+  const handleAbort = () => {
+    clearTimeout(timer);
+    reject(signal?.reason);
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', handleAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', handleAbort, { once: true });
+});
+
+/**
+ * Send a request, retrying transient failures with a growing delay. Meant for paged runs, where
+ * one failed page would otherwise throw away the pages before it.
+ */
+export async function withRetry<T>(
+  send: () => Promise<T>,
+  { signal, attempts = 3, baseDelayMs = 1000 }: RetryOptions = {},
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await send();
+    } catch (error) {
+      if (attempt >= attempts || !isTransientError(error) || signal?.aborted) throw error;
+      await wait(baseDelayMs * 2 ** (attempt - 1), signal);
+    }
+  }
+}
@@ -0,0 +1,53 @@
+import { ApiError, codeFromStatus } from "./errors";
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export interface ApiRequest {
+  method: HttpMethod;
+  // Path below the API root, e.g. /campaigns/abc/contacts/stop
+  path: string;
+  query?: Record<string, string | number | undefined>;
+  body?: unknown;
+}
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+}
+
+// Sends a request and resolves with the parsed response body, or rejects with an ApiError
+// (or an AbortError when `signal` fires)
+export type ApiTransport = (request: ApiRequest, options?: RequestOptions) => Promise<unknown>;
+
+export const buildQueryString = (query: ApiRequest['query']): string => {
+  const params = new URLSearchParams();
+  Object.entries(query ?? {}).forEach(([key, value]) => {
+    if (value !== undefined) params.set(key, String(value));
+  });
+  const search = params.toString();
+  return search ? `?${search}` : '';
+};
+
+export function createFetchTransport(baseUrl: string): ApiTransport {
+  return async ({ method, path, query, body }, { signal } = {}) => {
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl.replace(/\/$/, '')}${path}${buildQueryString(query)}`, {
+        method,
+        signal,
+        headers: body === undefined ? undefined : { 'Content-Type': 'application/json' },
+        body: body === undefined ? undefined : JSON.stringify(body),
+        credentials: 'include',
+      });
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      throw new ApiError('network', error instanceof Error ? error.message : 'Network request failed');
+    }
+
+    const payload = response.status === 204 ? undefined : await response.json().catch(() => undefined);
+    if (!response.ok) {
+      const serverError = (payload as { error?: { code?: string; message?: string } } | undefined)?.error;
+      throw new ApiError(codeFromStatus(response.status), serverError?.message ?? response.statusText, response.status);
+    }
+    return payload;
+  };
+}
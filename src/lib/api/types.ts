@@ -0,0 +1,113 @@
+import { AudienceStatus } from "../audience";
+
+// Request and response bodies of the campaign backend
+
+export interface ContactIdsRequest {
+  campaignId: string;
+  contactIds: string[];
+}
+
+// Bulk endpoints report each contact separately; one failure doesn't fail the request
+export interface ContactResult {
+  contactId: string;
+  ok: boolean;
+  // Status the server recorded, when ok
+  status?: AudienceStatus;
+  // Why this contact could not be updated, when not ok
+  error?: string;
+}
+
+export interface MoveContactsRequest extends ContactIdsRequest {
+  listId: string;
+}
+
+export interface ContactResultsResponse {
+  results: ContactResult[];
+}
+
+export interface CallContactRequest {
+  campaignId: string;
+  contactId: string;
+  // E.164
+  phone: string;
+}
+
+export interface CallContactResponse {
+  callId: string;
+}
+
+export interface PhonebookSummary {
+  id: string;
+  name: string;
+  contactCount: number;
+}
+
+export interface ListPhonebooksRequest {
+  // Case-insensitive match on the phonebook name
+  search?: string;
+  offset?: number;
+  limit?: number;
+}
+
+export interface ListPhonebooksResponse {
+  phonebooks: PhonebookSummary[];
+  // Phonebooks matching the search, across all pages
+  total: number;
+}
+
+export interface PhonebookContact {
+  id: string;
+  phonebookId: string;
+  name: string;
+  // As saved in the phonebook; not necessarily E.164
+  phone: string;
+}
+
+export interface CreatePhonebookRequest {
+  name: string;
+}
+
+export interface RenamePhonebookRequest {
+  phonebookId: string;
+  name: string;
+}
+
+// A contact as entered by the user; phone in E.164
+export interface PhonebookContactInput {
+  name: string;
+  phone: string;
+}
+
+export interface AddPhonebookContactsRequest {
+  phonebookId: string;
+  contacts: PhonebookContactInput[];
+}
+
+export interface AddPhonebookContactsResponse {
+  contacts: PhonebookContact[];
+}
+
+export interface UpdatePhonebookContactRequest extends PhonebookContactInput {
+  phonebookId: string;
+  contactId: string;
+}
+
+export interface PhonebookContactRequest {
+  phonebookId: string;
+  contactId: string;
+}
+
+export interface GetPhonebookContactsRequest {
+  phonebookId: string;
+  // Case-insensitive match on name or phone
+  search?: string;
+  // From the previous page; first page when unset
+  cursor?: string;
+  pageSize?: number;
+}
+
+export interface GetPhonebookContactsResponse {
+  contacts: PhonebookContact[];
+  // Unset on the last page
+  nextCursor?: string;
+}
@@ -0,0 +1,79 @@
+import { PhoneNumberType } from "./phone/normalizePhone";
+
+// Lifecycle order; allowed moves between them are defined in contactStatus.ts
+export const AUDIENCE_STATUSES = [
+  'Pending',
+  'Scheduled',
+  'Dialing',
+  'In Call',
+  'Serviced',
+  'Failed',
+  'Stopped',
+  'Suppressed',
+  'Invalid',
+] as const;
+
+export type AudienceStatus = typeof AUDIENCE_STATUSES[number];
+
+export interface AudienceData {
+  identifier: string;
+  name: string;
+  // E.164, e.g. +962791234567
+  phone: string;
+  // ISO country and line type detected from the phone number
+  country?: string;
+  phoneType?: PhoneNumberType;
+  createdAt: string;
+  status: AudienceStatus;
+  tries: string;
+  result: string;
+  // Extra columns kept from file imports, keyed by the source column header
+  attributes?: Record<string, string>;
+  // Named import list the contact came from
+  listId?: string;
+  // Phonebook the contact was imported from
+  phonebookId?: string;
+  // ISO time before which the dialer must not retry a Scheduled contact
+  nextAttemptAt?: string;
+}
+
+// A named batch of contacts imported into a campaign
+export interface AudienceList {
+  id: string;
+  name: string;
+  sourceFileName?: string;
+  // Phonebook the list imports from; importing that phonebook again adds to this list
+  phonebookId?: string;
+  // ISO timestamp of the latest import into this list
+  importedAt: string;
+}
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// Display format used across the audience table, e.g. "May 27, 2025 . 04:38 PM"
+export function formatCreatedAt(date: Date): string {
+  const month = MONTHS[date.getMonth()];
+  const day = date.getDate();
+  const year = date.getFullYear();
+  const hours = date.getHours();
+  const minutes = date.getMinutes().toString().padStart(2, '0');
+  const period = hours >= 12 ? 'PM' : 'AM';
+  const formattedHours = (hours % 12 || 12).toString().padStart(2, '0');
+
+  return `${month} ${day}, ${year} . ${formattedHours}:${minutes} ${period}`;
+}
+
+const CREATED_AT_PATTERN = /^([A-Za-z]{3}) (\d{1,2}), (\d{4}) \. (\d{1,2}):(\d{2}) (AM|PM)$/;
+
+// Inverse of formatCreatedAt. Returns a timestamp in ms, or NaN when the value is not in display format.
+export function parseCreatedAt(value: string): number {
+  const match = CREATED_AT_PATTERN.exec(value.trim());
+  if (!match) return NaN;
+
+  const [, monthName, day, year, hours, minutes, period] = match;
+  const month = MONTHS.indexOf(monthName);
+  if (month === -1) return NaN;
+
+  const hours24 = (Number(hours) % 12) + (period === 'PM' ? 12 : 0);
+  return new Date(Number(year), month, Number(day), hours24, Number(minutes)).getTime();
+}
@@ -0,0 +1,100 @@
+import { CampaignSchedule, DEFAULT_CAMPAIGN_SCHEDULE, validateSchedule } from "./dialer/callingSchedule";
+import { DEFAULT_RETRY_POLICY, RetryPolicy, validateRetryPolicy } from "./dialer/retryPolicy";
+import { DEFAULT_COUNTRY } from "./phone/countries";
+import { normalizePhoneNumber } from "./phone/normalizePhone";
+
+// IVR flow a connected call is handed to
+export interface IvrFlow {
+  id: string;
+  name: string;
+}
+
+// Flows published on the PBX; fetched from the telephony provider once it is configured
+export const IVR_FLOWS: IvrFlow[] = [
+  { id: 'survey-basic', name: 'Basic Survey' },
+  { id: 'reminder', name: 'Appointment Reminder' },
+  { id: 'transfer-to-agent', name: 'Transfer to Agent' },
+  { id: 'announcement', name: 'Announcement Only' },
+];
+
+export const CONCURRENCY_OPTIONS = [1, 2, 3, 5, 10];
+
+export interface Campaign {
+  id: string;
+  name: string;
+  description: string;
+  // E.164 number presented to the people being called
+  callerId: string;
+  ivrFlowId: string;
+  // Concurrent calls the dialer may place
+  maxConcurrency: number;
+  retryPolicy: RetryPolicy;
+  schedule: CampaignSchedule;
+}
+
+export const CAMPAIGN_NAME_MAX_LENGTH = 80;
+export const CAMPAIGN_DESCRIPTION_MAX_LENGTH = 500;
+
+export const DEFAULT_CAMPAIGN: Campaign = {
+  id: 'direct-to-noor',
+  name: 'DirectToNoor',
+  description: '',
+  callerId: '',
+  ivrFlowId: IVR_FLOWS[0].id,
+  maxConcurrency: 2,
+  retryPolicy: DEFAULT_RETRY_POLICY,
+  schedule: DEFAULT_CAMPAIGN_SCHEDULE,
+};
+
+export type CampaignField = 'name' | 'description' | 'callerId' | 'ivrFlowId' | 'maxConcurrency' | 'retryPolicy' | 'schedule';
+
+export type CampaignErrors = Partial<Record<CampaignField, string>>;
+
+// Field-level errors for the campaign settings form; empty when the campaign can be saved
+export function validateCampaign(campaign: Campaign): CampaignErrors {
+  const errors: CampaignErrors = {};
+
+  const name = campaign.name.trim();
+  if (!name) {
+    errors.name = 'Campaign name is required';
+  } else if (name.length > CAMPAIGN_NAME_MAX_LENGTH) {
+    errors.name = `Campaign name must be ${CAMPAIGN_NAME_MAX_LENGTH} characters or fewer`;
+  }
+
+  if (campaign.description.length > CAMPAIGN_DESCRIPTION_MAX_LENGTH) {
+    errors.description = `Description must be ${CAMPAIGN_DESCRIPTION_MAX_LENGTH} characters or fewer`;
+  }
+
+  // Caller ID is optional; the provider's default number is used when it is empty
+  if (campaign.callerId.trim()) {
+    const parsed = normalizePhoneNumber(campaign.callerId, DEFAULT_COUNTRY);
+    if (!parsed.isValid) errors.callerId = parsed.error ?? 'Invalid caller ID';
+  }
+
+  if (!IVR_FLOWS.some(flow => flow.id === campaign.ivrFlowId)) {
+    errors.ivrFlowId = 'Select an IVR flow';
+  }
+
+  if (!CONCURRENCY_OPTIONS.includes(campaign.maxConcurrency)) {
+    errors.maxConcurrency = 'Select the number of lines';
+  }
+
+  const retryPolicyError = validateRetryPolicy(campaign.retryPolicy);
+  if (retryPolicyError) errors.retryPolicy = retryPolicyError;
+
+  const scheduleError = validateSchedule(campaign.schedule);
+  if (scheduleError) errors.schedule = scheduleError;
+
+  return errors;
+}
+
+// Trim text fields and store the caller ID in E.164 before saving
+export function normalizeCampaign(campaign: Campaign): Campaign {
+  const callerId = campaign.callerId.trim();
+  return {
+    ...campaign,
+    name: campaign.name.trim(),
+    description: campaign.description.trim(),
+    callerId: callerId ? normalizePhoneNumber(callerId, DEFAULT_COUNTRY).e164 || callerId : '',
+  };
+}
@@ -0,0 +1,83 @@
+import { Campaign } from "./campaign";
+import { campaignStore } from "./campaignStore";
+import { DialerEngine } from "./dialer/dialerEngine";
+import { createSimulatedAdapter } from "./dialer/simulatedAdapter";
+import { dncStore } from "./dncStore";
+
+interface CampaignDialerEntry {
+  engine: DialerEngine;
+  // Settings last passed to the engine
+  campaign: Campaign;
+}
+
+/**
+ * One DialerEngine per campaign, kept outside the React tree so a running campaign keeps dialing
+ * while the user is on another page. Engines read and write the campaign store directly and pick
+ * up edits to the campaign's settings; one is disposed once its campaign is archived or removed.
+ */
+class CampaignDialers {
+  private entries = new Map<string, CampaignDialerEntry>();
+  private unsubscribe: (() => void) | null = null;
+
+  get(campaign: Campaign): DialerEngine {
+    const existing = this.entries.get(campaign.id);
+    if (existing) return existing.engine;
+
+    const campaignId = campaign.id;
+    const engine = new DialerEngine({
+      // Until a PBX integration is configured
+      adapter: createSimulatedAdapter(),
+      maxConcurrency: campaign.maxConcurrency,
+      retryPolicy: campaign.retryPolicy,
+      schedule: campaign.schedule,
+      callerId: campaign.callerId || undefined,
+      ivrFlowId: campaign.ivrFlowId,
+      getContacts: () => campaignStore.get(campaignId)?.audience ?? [],
+      updateContacts: (contactIds, update) => {
+        const ids = new Set(contactIds);
+        campaignStore.update(campaignId, record => ({
+          ...record,
+          audience: record.audience.map(contact => (ids.has(contact.identifier) ? update(contact) : contact)),
+        }));
+      },
+      onAttemptRecorded: attempt => campaignStore.update(campaignId, record => ({
+        ...record,
+        callAttempts: [...record.callAttempts, attempt],
+      })),
+      isSuppressed: dncStore.isSuppressed,
+    });
+    this.entries.set(campaignId, { engine, campaign });
+    this.unsubscribe ??= campaignStore.subscribe(this.sync);
+    return engine;
+  }
+
+  private sync = () => {
+    this.entries.forEach((entry, campaignId) => {
+      const record = campaignStore.get(campaignId);
+      if (!record || record.archivedAt) {
+        // Removed first: disposing writes the interrupted calls back, which lands here again
+        this.entries.delete(campaignId);
+        entry.engine.dispose();
+        return;
+      }
+
+      const previous = entry.campaign;
+      const { campaign } = record;
+      if (campaign === previous) return;
+      entry.campaign = campaign;
+      const { engine } = entry;
+      if (campaign.maxConcurrency !== previous.maxConcurrency) engine.setMaxConcurrency(campaign.maxConcurrency);
+      if (campaign.retryPolicy !== previous.retryPolicy) engine.setRetryPolicy(campaign.retryPolicy);
+      if (campaign.schedule !== previous.schedule) engine.setSchedule(campaign.schedule);
+      if (campaign.callerId !== previous.callerId || campaign.ivrFlowId !== previous.ivrFlowId) {
+        engine.setCallRouting(campaign.callerId || undefined, campaign.ivrFlowId);
+      }
+    });
+    if (this.entries.size === 0) {
+      this.unsubscribe?.();
+      this.unsubscribe = null;
+    }
+  };
+}
+
+export const campaignDialers = new CampaignDialers();
@@ -0,0 +1,311 @@
+import React, { useCallback, useSyncExternalStore } from "react";
+import { AudienceData, AudienceList } from "./audience";
+import { Campaign, DEFAULT_CAMPAIGN } from "./campaign";
+import { isOpenStatus } from "./contactStatus";
+import { CallAttempt } from "./dialer/callAttempt";
+import { generateId } from "./ids";
+import { CampaignRepository, diffCampaignRecord, hasChanges } from "./persistence/campaignRepository";
+import { CampaignSyncChannel } from "./persistence/syncChannel";
+
+// Everything the campaign pages keep for one campaign
+export interface CampaignRecord {
+  campaign: Campaign;
+  audience: AudienceData[];
+  // Named lists imported into the campaign; contacts reference them by listId
+  lists: AudienceList[];
+  // Every dial attempt, oldest first; linked to contacts by identifier
+  callAttempts: CallAttempt[];
+  // ISO timestamps
+  createdAt: string;
+  archivedAt?: string;
+}
+
+export type CampaignStatus = 'draft' | 'in-progress' | 'completed' | 'archived';
+
+export const CAMPAIGN_STATUS_LABELS: Record<CampaignStatus, string> = {
+  'draft': 'Draft',
+  'in-progress': 'In Progress',
+  'completed': 'Completed',
+  'archived': 'Archived',
+};
+
+export interface CampaignSummary {
+  status: CampaignStatus;
+  audienceSize: number;
+  // Contacts the dialer is done with, 0-100
+  progress: number;
+  // Serviced contacts out of those called at least once, 0-100; null before the first call
+  responseRate: number | null;
+}
+
+export function getCampaignSummary(record: CampaignRecord): CampaignSummary {
+  const { audience } = record;
+  const pending = audience.filter(contact => isOpenStatus(contact.status)).length;
+  const called = audience.filter(contact => (parseInt(contact.tries, 10) || 0) > 0);
+  const serviced = called.filter(contact => contact.status === 'Serviced').length;
+
+  let status: CampaignStatus;
+  if (record.archivedAt) status = 'archived';
+  else if (audience.length === 0) status = 'draft';
+  else status = pending > 0 ? 'in-progress' : 'completed';
+
+  return {
+    status,
+    audienceSize: audience.length,
+    progress: audience.length === 0 ? 0 : Math.round(((audience.length - pending) / audience.length) * 100),
+    responseRate: called.length === 0 ? null : Math.round((serviced / called.length) * 100),
+  };
+}
+
+// Written to a fresh database so the first run has something to show
+const SEED_CAMPAIGNS: CampaignRecord[] = [
+  {
+    campaign: DEFAULT_CAMPAIGN,
+    audience: [
+      {
+        identifier: "2e6f1",
+        name: "tahani",
+        phone: "+962770535853",
+        country: "JO",
+        phoneType: "mobile",
+        createdAt: "May 27, 2025 . 04:38 PM",
+        status: "Serviced",
+        tries: "1",
+        result: "",
+      },
+      {
+        identifier: "2e6f2",
+        name: "Noor",
+        phone: "+962799235768",
+        country: "JO",
+        phoneType: "mobile",
+        createdAt: "May 27, 2025 . 02:29 PM",
+        status: "Serviced",
+        tries: "1",
+        result: "",
+      },
+    ],
+    lists: [],
+    callAttempts: [],
+    createdAt: '2025-05-27T11:29:00.000Z',
+  },
+];
+
+// Batch rapid updates (e.g. dialer results) into one write
+const PERSIST_DELAY_MS = 300;
+
+/**
+ * Campaign data shared by the campaigns index and each campaign's audience page.
+ * Records are replaced, never mutated, so snapshots can be compared by reference and
+ * persistence only writes the rows whose reference changed.
+ *
+ * Until `connect` has loaded the saved campaigns the store is empty and `isReady` is false.
+ */
+class CampaignStore {
+  private records: CampaignRecord[] = [];
+  private ready = false;
+  private listeners = new Set<() => void>();
+  private repository: CampaignRepository | null = null;
+  private syncChannel: CampaignSyncChannel | null = null;
+  // Last version of each record known to be in the repository
+  private persisted = new Map<string, CampaignRecord>();
+  private dirtyIds = new Set<string>();
+  private persistTimer: ReturnType<typeof setTimeout> | null = null;
+  private isPersisting = false;
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  };
+
+  getSnapshot = (): CampaignRecord[] => this.records;
+
+  isReady = (): boolean => this.ready;
+
+  // Load saved campaigns, then keep the repository and other tabs up to date. Without a
+  // repository (or when it fails to open) the store runs in memory from the seed data.
+  async connect(repository: CampaignRepository | null, syncChannel: CampaignSyncChannel | null) {
+    let records = SEED_CAMPAIGNS;
+    if (repository) {
+      try {
+        const saved = await repository.loadAll();
+        if (saved.length > 0) {
+          records = saved;
+          saved.forEach(record => this.persisted.set(record.campaign.id, record));
+        }
+        this.repository = repository;
+      } catch (error) {
+        console.error('Error loading saved campaigns:', error);
+      }
+    }
+
+    this.syncChannel = syncChannel;
+    syncChannel?.subscribe(campaignIds => this.reloadFromRepository(campaignIds));
+
+    this.ready = true;
+    this.setRecords(records);
+  }
+
+  get(id: string): CampaignRecord | undefined {
+    return this.records.find(record => record.campaign.id === id);
+  }
+
+  create(campaign: Campaign): CampaignRecord {
+    const record: CampaignRecord = {
+      campaign,
+      audience: [],
+      lists: [],
+      callAttempts: [],
+      createdAt: new Date().toISOString(),
+    };
+    this.setRecords([...this.records, record]);
+    return record;
+  }
+
+  // Copy the settings and audience into a new campaign, with every contact back to Pending
+  duplicate(id: string): CampaignRecord | undefined {
+    const source = this.get(id);
+    if (!source) return undefined;
+
+    const listIds = new Map(source.lists.map(list => [list.id, generateId()]));
+    const record: CampaignRecord = {
+      campaign: { ...source.campaign, id: generateId(), name: `${source.campaign.name} (copy)` },
+      audience: source.audience.map(({ nextAttemptAt: _nextAttemptAt, ...contact }) => ({
+        ...contact,
+        identifier: generateId(),
+        listId: contact.listId && listIds.get(contact.listId),
+        status: 'Pending',
+        tries: '0',
+        result: '',
+      })),
+      lists: source.lists.map(list => ({ ...list, id: listIds.get(list.id) ?? list.id })),
+      callAttempts: [],
+      createdAt: new Date().toISOString(),
+    };
+    this.setRecords([...this.records, record]);
+    return record;
+  }
+
+  archive(id: string) {
+    this.update(id, record => ({ ...record, archivedAt: new Date().toISOString() }));
+  }
+
+  restore(id: string) {
+    this.update(id, ({ archivedAt: _archivedAt, ...record }) => record);
+  }
+
+  update(id: string, updater: (record: CampaignRecord) => CampaignRecord) {
+    this.setRecords(this.records.map(record => (record.campaign.id === id ? updater(record) : record)));
+  }
+
+  private setRecords(records: CampaignRecord[], { persist = true } = {}) {
+    if (persist) {
+      const previous = new Map(this.records.map(record => [record.campaign.id, record]));
+      records.forEach(record => {
+        if (previous.get(record.campaign.id) !== record) this.dirtyIds.add(record.campaign.id);
+      });
+      this.schedulePersist();
+    }
+    this.records = records;
+    this.listeners.forEach(listener => listener());
+  }
+
+  private schedulePersist() {
+    if (!this.repository || this.dirtyIds.size === 0 || this.persistTimer !== null || this.isPersisting) return;
+    this.persistTimer = setTimeout(() => {
+      this.persistTimer = null;
+      void this.persist();
+    }, PERSIST_DELAY_MS);
+  }
+
+  private async persist() {
+    const repository = this.repository;
+    if (!repository) return;
+
+    // Records stay dirty until their write has committed, so a reload from another tab landing
+    // meanwhile can't replace them with the older stored version
+    const snapshot = this.records.filter(record => this.dirtyIds.has(record.campaign.id));
+    const markClean = () => snapshot.forEach(record => {
+      // Edited again while saving: still dirty, written by the next persist
+      if (this.get(record.campaign.id) === record) this.dirtyIds.delete(record.campaign.id);
+    });
+    const changes = snapshot
+      .map(record => diffCampaignRecord(this.persisted.get(record.campaign.id), record))
+      .filter(hasChanges);
+    if (changes.length === 0) {
+      markClean();
+      return;
+    }
+
+    this.isPersisting = true;
+    try {
+      await repository.commit(changes);
+      snapshot.forEach(record => this.persisted.set(record.campaign.id, record));
+      markClean();
+      this.syncChannel?.publish(changes.map(change => change.campaignId));
+    } catch (error) {
+      // The records are still dirty; try again with the next change
+      console.error('Error saving campaigns:', error);
+      return;
+    } finally {
+      this.isPersisting = false;
+    }
+    this.schedulePersist();
+  }
+
+  // Another tab saved these campaigns; take its version unless we have unsaved edits of our own
+  private async reloadFromRepository(campaignIds: string[]) {
+    const repository = this.repository;
+    if (!repository) return;
+
+    try {
+      const loaded = await Promise.all(campaignIds.map(id => repository.load(id)));
+      let records = this.records;
+      loaded.forEach(record => {
+        if (!record || this.dirtyIds.has(record.campaign.id)) return;
+        this.persisted.set(record.campaign.id, record);
+        records = records.some(item => item.campaign.id === record.campaign.id)
+          ? records.map(item => (item.campaign.id === record.campaign.id ? record : item))
+          : [...records, record];
+      });
+      if (records !== this.records) this.setRecords(records, { persist: false });
+    } catch (error) {
+      console.error('Error syncing campaigns from another tab:', error);
+    }
+  }
+}
+
+export const campaignStore = new CampaignStore();
+
+export function useCampaignStoreReady(): boolean {
+  return useSyncExternalStore(campaignStore.subscribe, campaignStore.isReady);
+}
+
+export function useCampaigns(): CampaignRecord[] {
+  return useSyncExternalStore(campaignStore.subscribe, campaignStore.getSnapshot);
+}
+
+export function useCampaignRecord(id: string): CampaignRecord | undefined {
+  return useSyncExternalStore(campaignStore.subscribe, () => campaignStore.get(id));
+}
+
+type CampaignRecordField = 'campaign' | 'audience' | 'lists' | 'callAttempts';
+
+// useState-style access to one field of a stored campaign; the record must exist
+export function useCampaignField<K extends CampaignRecordField>(
+  id: string,
+  field: K,
+): [CampaignRecord[K], React.Dispatch<React.SetStateAction<CampaignRecord[K]>>] {
+  const value = useSyncExternalStore(campaignStore.subscribe, () => campaignStore.get(id)?.[field]);
+
+  const setValue = useCallback((action: React.SetStateAction<CampaignRecord[K]>) => {
+    campaignStore.update(id, record => ({
+      ...record,
+      [field]: typeof action === 'function'
+        ? (action as (prev: CampaignRecord[K]) => CampaignRecord[K])(record[field])
+        : action,
+    }));
+  }, [id, field]);
+
+  return [value as CampaignRecord[K], setValue];
+}
@@ -0,0 +1,108 @@
+import { AudienceData, AudienceStatus } from "./audience";
+
+// Everything that moves a contact from one status to another
+export type ContactEvent =
+  | 'dial'
+  | 'connect'
+  | 'complete'
+  | 'retry'
+  | 'fail'
+  | 'interrupt'
+  | 'invalidate'
+  | 'suppress'
+  | 'stop'
+  | 'resume'
+  | 'reset';
+
+interface ContactTransition {
+  from: readonly AudienceStatus[];
+  to: AudienceStatus;
+}
+
+/**
+ * The contact state machine. A contact can only take an event from one of the listed statuses;
+ * the dialer, the row menu and the bulk actions all check here before changing a status.
+ */
+export const CONTACT_TRANSITIONS: Record<ContactEvent, ContactTransition> = {
+  // The dialer places a call; Scheduled contacts once their retry time has come
+  'dial': { from: ['Pending', 'Scheduled'], to: 'Dialing' },
+  // The callee picked up
+  'connect': { from: ['Dialing'], to: 'In Call' },
+  // Answered; providers that don't report the pickup go straight from Dialing
+  'complete': { from: ['Dialing', 'In Call'], to: 'Serviced' },
+  // Not answered with attempts left; nextAttemptAt says when
+  'retry': { from: ['Dialing', 'In Call'], to: 'Scheduled' },
+  // Not answered and out of attempts
+  'fail': { from: ['Dialing', 'In Call'], to: 'Failed' },
+  // The call ended without a result, e.g. the campaign screen closed mid-call
+  'interrupt': { from: ['Dialing', 'In Call'], to: 'Pending' },
+  // The number can't be dialed at all
+  'invalidate': { from: ['Pending', 'Scheduled'], to: 'Invalid' },
+  // The number is on the do-not-call list
+  'suppress': { from: ['Pending', 'Scheduled'], to: 'Suppressed' },
+  'stop': { from: ['Pending', 'Scheduled', 'Dialing', 'In Call', 'Failed'], to: 'Stopped' },
+  'resume': { from: ['Stopped', 'Suppressed'], to: 'Pending' },
+  // Also clears tries and the last result
+  'reset': { from: ['Pending', 'Scheduled', 'Serviced', 'Failed', 'Stopped'], to: 'Pending' },
+};
+
+// Completes "A Serviced contact can't be ..."
+const EVENT_DESCRIPTIONS: Record<ContactEvent, string> = {
+  'dial': 'called',
+  'connect': 'connected',
+  'complete': 'marked Serviced',
+  'retry': 'scheduled for a retry',
+  'fail': 'marked Failed',
+  'interrupt': 'interrupted',
+  'invalidate': 'marked Invalid',
+  'suppress': 'suppressed',
+  'stop': 'stopped',
+  'resume': 'resumed',
+  'reset': 'reset',
+};
+
+export class InvalidTransitionError extends Error {
+  constructor(
+    public readonly status: AudienceStatus,
+    public readonly event: ContactEvent,
+  ) {
+    super(getTransitionError(status, event));
+    this.name = 'InvalidTransitionError';
+  }
+}
+
+export const canTransition = (status: AudienceStatus, event: ContactEvent): boolean =>
+  CONTACT_TRANSITIONS[event].from.includes(status);
+
+// '' when the event is allowed, otherwise a message for the user
+export function getTransitionError(status: AudienceStatus, event: ContactEvent): string {
+  if (canTransition(status, event)) return '';
+  const article = /^[AEIOU]/.test(status) ? 'An' : 'A';
+  return `${article} ${status} contact can't be ${EVENT_DESCRIPTIONS[event]}`;
+}
+
+// Apply an event, together with any other field changes it brings; throws for a move the machine doesn't allow
+export function transitionContact(
+  contact: AudienceData,
+  event: ContactEvent,
+  changes: Partial<Omit<AudienceData, 'status'>> = {},
+): AudienceData {
+  if (!canTransition(contact.status, event)) {
+    throw new InvalidTransitionError(contact.status, event);
+  }
+  return { ...contact, ...changes, status: CONTACT_TRANSITIONS[event].to };
+}
+
+export const getAvailableEvents = (status: AudienceStatus): ContactEvent[] =>
+  (Object.keys(CONTACT_TRANSITIONS) as ContactEvent[]).filter(event => canTransition(status, event));
+
+// Waiting for the dialer, now or at its retry time
+export const isAwaitingCall = (status: AudienceStatus): boolean =>
+  status === 'Pending' || status === 'Scheduled';
+
+export const isOnCall = (status: AudienceStatus): boolean =>
+  status === 'Dialing' || status === 'In Call';
+
+// Not finished yet: the campaign still has work to do for this contact
+export const isOpenStatus = (status: AudienceStatus): boolean =>
+  isAwaitingCall(status) || isOnCall(status);
@@ -0,0 +1,34 @@
+import { CallOutcome } from "./telephony";
+
+// One dial attempt for a contact, as shown in its call log
+export interface CallAttempt {
+  id: string;
+  // AudienceData.identifier
+  contactId: string;
+  // 1 for the first call to the contact
+  attemptNumber: number;
+  // E.164 number dialed
+  phone: string;
+  // ISO timestamps
+  startedAt: string;
+  endedAt: string;
+  // Talk time; 0 for calls that were not answered
+  durationSeconds: number;
+  disposition: CallOutcome;
+  // Agent who took the call, when it was bridged to one
+  agent?: string;
+  // IVR nodes visited, in order
+  ivrPath?: string[];
+  // Q.850 cause reported by the carrier, e.g. USER_BUSY
+  hangupCause?: string;
+  // Provider reference to the call recording
+  recordingRef?: string;
+  // When a retry was scheduled after this attempt
+  nextAttemptAt?: string;
+}
+
+export const formatCallDuration = (seconds: number): string => {
+  const minutes = Math.floor(seconds / 60);
+  const rest = seconds % 60;
+  return `${minutes}:${String(rest).padStart(2, '0')}`;
+};
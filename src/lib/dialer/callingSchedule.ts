@@ -0,0 +1,214 @@
+import { AudienceData } from "../audience";
+import { isAwaitingCall } from "../contactStatus";
+import { getCountryPlan } from "../phone/countries";
+
+// 0 = Sunday, matching Date.getDay()
+export type Weekday = 0 | 1 | 2 | 3 | 4 | 5 | 6;
+
+export const WEEKDAY_LABELS: Record<Weekday, string> = {
+  0: 'Sunday',
+  1: 'Monday',
+  2: 'Tuesday',
+  3: 'Wednesday',
+  4: 'Thursday',
+  5: 'Friday',
+  6: 'Saturday',
+};
+
+// Permitted calling hours on one weekday, in the recipient's local time. `end` is exclusive.
+export interface CallingWindow {
+  day: Weekday;
+  // HH:MM, 24-hour
+  start: string;
+  end: string;
+}
+
+export interface CampaignSchedule {
+  // Inclusive YYYY-MM-DD bounds in the recipient's local date; open-ended when unset
+  startDate?: string;
+  endDate?: string;
+  windows: CallingWindow[];
+  // YYYY-MM-DD dates on which nobody is called
+  holidays: string[];
+  // Used for contacts whose country is unknown
+  timeZone: string;
+}
+
+const BROWSER_TIME_ZONE = Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+const ALL_WEEKDAYS: Weekday[] = [0, 1, 2, 3, 4, 5, 6];
+
+// Every day around the clock; `end` is exclusive, so 24:00 takes in the last minute
+export const ANY_TIME_WINDOWS: CallingWindow[] = ALL_WEEKDAYS.map(day => ({ day, start: '00:00', end: '24:00' }));
+
+// Sunday to Thursday business hours
+export const BUSINESS_HOURS_WINDOWS: CallingWindow[] = ([0, 1, 2, 3, 4] as Weekday[])
+  .map(day => ({ day, start: '09:00', end: '20:00' }));
+
+// New campaigns only call during business hours until the campaign editor says otherwise
+export const DEFAULT_CAMPAIGN_SCHEDULE: CampaignSchedule = {
+  windows: BUSINESS_HOURS_WINDOWS,
+  holidays: [],
+  timeZone: BROWSER_TIME_ZONE,
+};
+
+// True when the weekly windows don't limit calling; dates and holidays may still do
+export const hasUnrestrictedHours = (schedule: CampaignSchedule): boolean =>
+  ALL_WEEKDAYS.every(day => schedule.windows.some(window =>
+    window.day === day && window.start === '00:00' && window.end === '24:00'));
+
+export const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+export function getContactTimeZone(contact: Pick<AudienceData, 'country'>, fallback: string): string {
+  return (contact.country && getCountryPlan(contact.country)?.timeZone) || fallback;
+}
+
+interface LocalTime {
+  // YYYY-MM-DD
+  dateKey: string;
+  weekday: Weekday;
+  // Minutes since local midnight
+  minutes: number;
+}
+
+const WEEKDAY_INDEX: Record<string, Weekday> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
+
+// Creating formatters is slow and the dialer checks every pending contact, so cache per zone
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      weekday: 'short',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+export function getLocalTime(timeZone: string, at: number): LocalTime {
+  const parts: Record<string, string> = {};
+  getFormatter(timeZone).formatToParts(at).forEach(({ type, value }) => {
+    parts[type] = value;
+  });
+  return {
+    dateKey: `${parts.year}-${parts.month}-${parts.day}`,
+    weekday: WEEKDAY_INDEX[parts.weekday],
+    minutes: Number(parts.hour) * 60 + Number(parts.minute),
+  };
+}
+
+const dateKeyToUtc = (dateKey: string, minutes = 0): number => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return Date.UTC(year, month - 1, day, 0, minutes);
+};
+
+const addDays = (dateKey: string, days: number): string =>
+  new Date(dateKeyToUtc(dateKey) + days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+const getOffsetMs = (timeZone: string, at: number): number => {
+  const local = getLocalTime(timeZone, at);
+  return dateKeyToUtc(local.dateKey, local.minutes) - Math.floor(at / 60000) * 60000;
+};
+
+// Convert a local wall-clock time to a timestamp, re-checking the offset across DST changes
+const zonedTimeToUtc = (dateKey: string, minutes: number, timeZone: string): number => {
+  const wallClock = dateKeyToUtc(dateKey, minutes);
+  const firstGuess = wallClock - getOffsetMs(timeZone, wallClock);
+  return wallClock - getOffsetMs(timeZone, firstGuess);
+};
+
+const isCallingDate = (schedule: CampaignSchedule, dateKey: string): boolean =>
+  (!schedule.startDate || dateKey >= schedule.startDate)
+  && (!schedule.endDate || dateKey <= schedule.endDate)
+  && !schedule.holidays.includes(dateKey);
+
+export function isWithinCallingWindow(schedule: CampaignSchedule, timeZone: string, now: number): boolean {
+  const local = getLocalTime(timeZone, now);
+  if (!isCallingDate(schedule, local.dateKey)) return false;
+  return schedule.windows.some(window => window.day === local.weekday
+    && local.minutes >= toMinutes(window.start)
+    && local.minutes < toMinutes(window.end));
+}
+
+// Earliest time at or after `now` inside a calling window, or null when the schedule has ended
+// or has no windows. Searches a year ahead.
+export function getNextWindowStart(schedule: CampaignSchedule, timeZone: string, now: number): number | null {
+  if (schedule.windows.length === 0) return null;
+  const local = getLocalTime(timeZone, now);
+
+  for (let dayOffset = 0; dayOffset <= 366; dayOffset++) {
+    const dateKey = addDays(local.dateKey, dayOffset);
+    if (schedule.endDate && dateKey > schedule.endDate) return null;
+    if (!isCallingDate(schedule, dateKey)) continue;
+
+    const weekday = ((local.weekday + dayOffset) % 7) as Weekday;
+    const windows = schedule.windows
+      .filter(window => window.day === weekday)
+      .sort((a, b) => toMinutes(a.start) - toMinutes(b.start));
+
+    for (const window of windows) {
+      const start = toMinutes(window.start);
+      if (dayOffset === 0) {
+        if (local.minutes >= toMinutes(window.end)) continue;
+        if (local.minutes >= start) return now;
+      }
+      return zonedTimeToUtc(dateKey, start, timeZone);
+    }
+  }
+  return null;
+}
+
+export function validateSchedule(schedule: CampaignSchedule): string {
+  if (schedule.windows.length === 0) {
+    return 'Add at least one calling window';
+  }
+  const invalidWindow = schedule.windows.find(window => toMinutes(window.start) >= toMinutes(window.end));
+  if (invalidWindow) {
+    return `${WEEKDAY_LABELS[invalidWindow.day]}: the window must end after it starts`;
+  }
+  if (schedule.startDate && schedule.endDate && schedule.startDate > schedule.endDate) {
+    return 'End date must be on or after the start date';
+  }
+  return '';
+}
+
+export interface NextCallable {
+  at: number;
+  // Held back only by a retry wait; the contact's calling window is open by then
+  isRetry: boolean;
+}
+
+// When the next Pending or Scheduled contact may be called, taking retry waits into account;
+// null when none of them has a calling window left
+export function getNextCallable(schedule: CampaignSchedule, contacts: AudienceData[], now: number): NextCallable | null {
+  const cache = new Map<string, number | null>();
+  let next: NextCallable | null = null;
+
+  contacts.forEach(contact => {
+    if (!isAwaitingCall(contact.status)) return;
+    const retryAt = contact.nextAttemptAt ? Date.parse(contact.nextAttemptAt) : now;
+    const from = Math.max(now, Math.ceil(retryAt / 60000) * 60000);
+    const timeZone = getContactTimeZone(contact, schedule.timeZone);
+
+    const key = `${timeZone}|${from}`;
+    if (!cache.has(key)) cache.set(key, getNextWindowStart(schedule, timeZone, from));
+    const start = cache.get(key) ?? null;
+    if (start !== null && (next === null || start < next.at)) {
+      next = { at: start, isRetry: start === from && from > now };
+    }
+  });
+
+  return next;
+}
@@ -0,0 +1,310 @@
+import { AudienceData } from "../audience";
+import { ContactEvent, canTransition, isAwaitingCall, isOnCall, transitionContact } from "../contactStatus";
+import { normalizePhoneNumber } from "../phone/normalizePhone";
+import { CallAttempt } from "./callAttempt";
+import { CampaignSchedule, getContactTimeZone, isWithinCallingWindow } from "./callingSchedule";
+import { RetryPolicy, getRetryDelayMs, isRetryable } from "./retryPolicy";
+import { CALL_OUTCOME_LABELS, CallResult, TelephonyAdapter } from "./telephony";
+
+export type DialerState = 'idle' | 'running' | 'pausing' | 'paused';
+
+export interface DialerSnapshot {
+  state: DialerState;
+  // Contacts with a call in flight, in the order they were dialed
+  activeCallIds: string[];
+}
+
+export interface DialerEngineOptions {
+  adapter: TelephonyAdapter;
+  maxConcurrency: number;
+  retryPolicy: RetryPolicy;
+  // Contacts are only dialed inside the calling windows, in their own time zone
+  schedule: CampaignSchedule;
+  // Passed through to the adapter with every call
+  callerId?: string;
+  ivrFlowId?: string;
+  // Latest audience, read whenever a line frees up
+  getContacts: () => AudienceData[];
+  // Apply an update to the current version of each of these contacts
+  updateContacts: (contactIds: string[], update: (contact: AudienceData) => AudienceData) => void;
+  // Contacts whose number is on the do-not-call list are moved to Suppressed instead of dialed,
+  // even when marked "call now"
+  isSuppressed?: (phone: string) => boolean;
+  // Called once per finished call with the record for the contact's call log
+  onAttemptRecorded?: (attempt: CallAttempt) => void;
+  // How often to look for newly dialable contacts while running
+  pollIntervalMs?: number;
+}
+
+// Record a finished attempt on the contact. Retryable outcomes make the contact Scheduled until
+// the next attempt time; otherwise it ends Serviced or Failed with the last result. A contact
+// stopped while its call was in flight keeps its status; only the attempt is recorded.
+export function applyCallResult(contact: AudienceData, result: CallResult, policy: RetryPolicy, now = Date.now()): AudienceData {
+  const attemptsMade = (parseInt(contact.tries, 10) || 0) + 1;
+  const { nextAttemptAt: _previous, ...rest } = contact;
+  const attempted = { ...rest, tries: String(attemptsMade), result: CALL_OUTCOME_LABELS[result.outcome] };
+
+  if (!isOnCall(contact.status)) {
+    return attempted;
+  }
+  if (result.outcome === 'answered') {
+    return transitionContact(attempted, 'complete');
+  }
+  if (isRetryable(policy, result.outcome, attemptsMade)) {
+    return transitionContact(attempted, 'retry', {
+      nextAttemptAt: new Date(now + getRetryDelayMs(policy, attemptsMade)).toISOString(),
+    });
+  }
+  return transitionContact(attempted, 'fail');
+}
+
+// Pending contacts saved before the Scheduled status existed may carry a retry time too
+export const isWaitingForRetry = (contact: AudienceData, now = Date.now()): boolean =>
+  isAwaitingCall(contact.status) && !!contact.nextAttemptAt && Date.parse(contact.nextAttemptAt) > now;
+
+/**
+ * Dials Pending and due Scheduled contacts in audience order through a telephony adapter, keeping
+ * at most `maxConcurrency` calls in flight. Contacts passed to `prioritize` go first. Pausing stops new calls but lets in-flight calls finish.
+ * Every status change goes through the contact state machine (contactStatus.ts).
+ *
+ * Subscribe with `subscribe`/`getSnapshot` (compatible with React's useSyncExternalStore).
+ */
+export class DialerEngine {
+  private options: DialerEngineOptions;
+  private state: DialerState = 'idle';
+  private activeCalls = new Map<string, AbortController>();
+  // tries value each contact will have once its latest attempt is recorded; guards against
+  // re-dialing a contact from a snapshot taken before that update landed
+  private expectedTries = new Map<string, number>();
+  // Contacts marked "call now", dialed in this order ahead of the rest of the audience
+  private priorityIds = new Set<string>();
+  private pollTimer: ReturnType<typeof setInterval> | null = null;
+  private listeners = new Set<() => void>();
+  private snapshot: DialerSnapshot = { state: 'idle', activeCallIds: [] };
+
+  constructor(options: DialerEngineOptions) {
+    this.options = options;
+  }
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  };
+
+  getSnapshot = (): DialerSnapshot => this.snapshot;
+
+  setMaxConcurrency(maxConcurrency: number) {
+    this.options = { ...this.options, maxConcurrency };
+    this.fillLines();
+  }
+
+  setRetryPolicy(retryPolicy: RetryPolicy) {
+    this.options = { ...this.options, retryPolicy };
+  }
+
+  setSchedule(schedule: CampaignSchedule) {
+    this.options = { ...this.options, schedule };
+    this.fillLines();
+  }
+
+  setCallRouting(callerId: string | undefined, ivrFlowId: string | undefined) {
+    this.options = { ...this.options, callerId, ivrFlowId };
+  }
+
+  setAdapter(adapter: TelephonyAdapter) {
+    this.options = { ...this.options, adapter };
+  }
+
+  // Dial these contacts as soon as a line is free, without waiting for their retry time
+  prioritize(contactIds: string[]) {
+    contactIds.forEach(id => this.priorityIds.add(id));
+    this.fillLines();
+  }
+
+  // Forget earlier attempts of contacts whose tries were reset to 0, so they can be dialed again
+  resetContacts(contactIds: string[]) {
+    contactIds.forEach(id => this.expectedTries.delete(id));
+    this.fillLines();
+  }
+
+  start() {
+    if (this.state === 'running') return;
+    // Calls left Dialing or In Call by a closed screen or a reload will never report back
+    this.transition(
+      this.options.getContacts()
+        .filter(contact => isOnCall(contact.status) && !this.activeCalls.has(contact.identifier))
+        .map(contact => contact.identifier),
+      'interrupt',
+    );
+    this.setState('running');
+    this.pollTimer = setInterval(() => this.fillLines(), this.options.pollIntervalMs ?? 1000);
+    this.fillLines();
+  }
+
+  pause() {
+    if (this.state !== 'running') return;
+    this.clearPollTimer();
+    this.setState(this.activeCalls.size > 0 ? 'pausing' : 'paused');
+  }
+
+  // Hang up everything and stop; used when the campaign is archived
+  dispose() {
+    this.clearPollTimer();
+    this.activeCalls.forEach(controller => controller.abort());
+    this.transition(Array.from(this.activeCalls.keys()), 'interrupt');
+    this.activeCalls.clear();
+    this.setState('idle');
+  }
+
+  // Move contacts through the state machine, leaving any whose status no longer allows the event
+  private transition(contactIds: string[], event: ContactEvent) {
+    if (contactIds.length === 0) return;
+    this.options.updateContacts(contactIds, contact => (
+      canTransition(contact.status, event) ? transitionContact(contact, event) : contact
+    ));
+  }
+
+  private isDialable(contact: AudienceData, now: number, windowOpen: (timeZone: string) => boolean): boolean {
+    if (!canTransition(contact.status, 'dial') || this.activeCalls.has(contact.identifier)) return false;
+    if (isWaitingForRetry(contact, now) && !this.priorityIds.has(contact.identifier)) return false;
+    const expected = this.expectedTries.get(contact.identifier);
+    if (expected !== undefined && (parseInt(contact.tries, 10) || 0) < expected) return false;
+    return windowOpen(getContactTimeZone(contact, this.options.schedule.timeZone));
+  }
+
+  private fillLines() {
+    if (this.state !== 'running') return;
+
+    const freeLines = this.options.maxConcurrency - this.activeCalls.size;
+    if (freeLines <= 0) return;
+
+    const now = Date.now();
+    // Window state per time zone for this pass
+    const windowState = new Map<string, boolean>();
+    const windowOpen = (timeZone: string) => {
+      if (!windowState.has(timeZone)) {
+        windowState.set(timeZone, isWithinCallingWindow(this.options.schedule, timeZone, now));
+      }
+      return windowState.get(timeZone) === true;
+    };
+
+    const contacts = this.options.getContacts();
+    const next: AudienceData[] = [];
+    // Contacts that would have been dialed but must not be
+    const suppressed: string[] = [];
+    const invalid: string[] = [];
+    const consider = (contact: AudienceData) => {
+      if (next.length >= freeLines || next.includes(contact) || !this.isDialable(contact, now, windowOpen)) return;
+      if (this.options.isSuppressed?.(contact.phone)) suppressed.push(contact.identifier);
+      else if (!normalizePhoneNumber(contact.phone, contact.country ?? '').isValid) invalid.push(contact.identifier);
+      else next.push(contact);
+    };
+
+    if (this.priorityIds.size > 0) {
+      const contactsById = new Map(contacts.map(contact => [contact.identifier, contact]));
+      this.priorityIds.forEach(id => {
+        const contact = contactsById.get(id);
+        // Deleted, stopped or finished since it was marked
+        if (!contact || !canTransition(contact.status, 'dial')) this.priorityIds.delete(id);
+        else consider(contact);
+      });
+    }
+    for (const contact of contacts) {
+      if (next.length >= freeLines) break;
+      consider(contact);
+    }
+    this.transition(suppressed, 'suppress');
+    this.transition(invalid, 'invalidate');
+    next.forEach(contact => this.dial(contact));
+  }
+
+  private async dial(contact: AudienceData) {
+    const controller = new AbortController();
+    const attemptNumber = (parseInt(contact.tries, 10) || 0) + 1;
+    const startedAt = Date.now();
+    this.activeCalls.set(contact.identifier, controller);
+    this.expectedTries.set(contact.identifier, attemptNumber);
+    this.priorityIds.delete(contact.identifier);
+    this.transition([contact.identifier], 'dial');
+    this.emit();
+
+    let result: CallResult;
+    try {
+      result = await this.options.adapter.placeCall(
+        {
+          contactId: contact.identifier,
+          phone: contact.phone,
+          callerId: this.options.callerId,
+          ivrFlowId: this.options.ivrFlowId,
+        },
+        controller.signal,
+        () => {
+          if (!controller.signal.aborted) this.transition([contact.identifier], 'connect');
+        },
+      );
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      console.error(`Call to ${contact.phone} failed:`, error);
+      result = {
+        outcome: 'failed',
+        durationSeconds: 0,
+        detail: error instanceof Error ? error.message : undefined,
+      };
+    }
+
+    if (controller.signal.aborted) return;
+    this.activeCalls.delete(contact.identifier);
+    const { retryPolicy } = this.options;
+    const endedAt = Date.now();
+    this.options.updateContacts([contact.identifier], current => applyCallResult(current, result, retryPolicy, endedAt));
+    this.recordAttempt(contact, attemptNumber, startedAt, endedAt, result);
+
+    if (this.state === 'pausing' && this.activeCalls.size === 0) {
+      this.setState('paused');
+    } else {
+      this.emit();
+    }
+    this.fillLines();
+  }
+
+  private recordAttempt(contact: AudienceData, attemptNumber: number, startedAt: number, endedAt: number, result: CallResult) {
+    const { onAttemptRecorded, retryPolicy } = this.options;
+    if (!onAttemptRecorded) return;
+    // Same rule applyCallResult uses, so the log matches the contact's nextAttemptAt
+    const retries = result.outcome !== 'answered' && isRetryable(retryPolicy, result.outcome, attemptNumber);
+    onAttemptRecorded({
+      id: `${contact.identifier}-${attemptNumber}-${startedAt}`,
+      contactId: contact.identifier,
+      attemptNumber,
+      phone: contact.phone,
+      startedAt: new Date(startedAt).toISOString(),
+      endedAt: new Date(endedAt).toISOString(),
+      durationSeconds: result.durationSeconds,
+      disposition: result.outcome,
+      agent: result.agent,
+      ivrPath: result.ivrPath,
+      hangupCause: result.hangupCause,
+      recordingRef: result.recordingRef,
+      nextAttemptAt: retries
+        ? new Date(endedAt + getRetryDelayMs(retryPolicy, attemptNumber)).toISOString()
+        : undefined,
+    });
+  }
+
+  private clearPollTimer() {
+    if (this.pollTimer !== null) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  private setState(state: DialerState) {
+    this.state = state;
+    this.emit();
+  }
+
+  private emit() {
+    this.snapshot = { state: this.state, activeCallIds: Array.from(this.activeCalls.keys()) };
+    this.listeners.forEach(listener => listener());
+  }
+}
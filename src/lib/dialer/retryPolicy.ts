@@ -0,0 +1,46 @@
+import { CallOutcome } from "./telephony";
+
+export interface RetryPolicy {
+  // Total attempts per contact, including the first call
+  maxAttempts: number;
+  // Minimum wait between attempts
+  intervalMinutes: number;
+  // Double the wait after every failed attempt
+  exponentialBackoff: boolean;
+  retryableOutcomes: CallOutcome[];
+}
+
+// Outcomes that may be retried; answered calls are done and provider failures are not retried
+export const RETRYABLE_OUTCOME_OPTIONS: CallOutcome[] = ['busy', 'no-answer', 'rejected', 'unreachable'];
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  intervalMinutes: 30,
+  exponentialBackoff: false,
+  retryableOutcomes: ['busy', 'no-answer', 'unreachable'],
+};
+
+// Compliance limits agreed for outbound campaigns
+export const MAX_ATTEMPTS_LIMIT = 10;
+export const MAX_INTERVAL_MINUTES = 7 * 24 * 60;
+
+export function validateRetryPolicy(policy: RetryPolicy): string {
+  if (!Number.isInteger(policy.maxAttempts) || policy.maxAttempts < 1 || policy.maxAttempts > MAX_ATTEMPTS_LIMIT) {
+    return `Maximum attempts must be a whole number between 1 and ${MAX_ATTEMPTS_LIMIT}`;
+  }
+  if (!Number.isFinite(policy.intervalMinutes) || policy.intervalMinutes < 1 || policy.intervalMinutes > MAX_INTERVAL_MINUTES) {
+    return `Retry interval must be between 1 minute and ${MAX_INTERVAL_MINUTES / (24 * 60)} days`;
+  }
+  return '';
+}
+
+// Wait before the next attempt, given how many attempts have been made so far
+export function getRetryDelayMs(policy: RetryPolicy, attemptsMade: number): number {
+  const baseMs = policy.intervalMinutes * 60 * 1000;
+  if (!policy.exponentialBackoff) return baseMs;
+  return baseMs * 2 ** Math.max(0, attemptsMade - 1);
+}
+
+export function isRetryable(policy: RetryPolicy, outcome: CallOutcome, attemptsMade: number): boolean {
+  return policy.retryableOutcomes.includes(outcome) && attemptsMade < policy.maxAttempts;
+}
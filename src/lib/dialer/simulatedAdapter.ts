@@ -0,0 +1,91 @@
+import { CallOutcome, CallResult, TelephonyAdapter } from "./telephony";
+
+export interface SimulatedAdapterOptions {
+  // Time a simulated call takes from dialing to hang-up
+  minCallMs?: number;
+  maxCallMs?: number;
+  // Relative likelihood of each outcome
+  outcomeWeights?: Partial<Record<CallOutcome, number>>;
+}
+
+const DEFAULT_OUTCOME_WEIGHTS: Record<CallOutcome, number> = {
+  'answered': 55,
+  'busy': 10,
+  'no-answer': 20,
+  'rejected': 5,
+  'unreachable': 7,
+  'failed': 3,
+};
+
+// Q.850 cause names as reported by most SIP carriers
+const HANGUP_CAUSES: Record<CallOutcome, string> = {
+  'answered': 'NORMAL_CLEARING',
+  'busy': 'USER_BUSY',
+  'no-answer': 'NO_ANSWER',
+  'rejected': 'CALL_REJECTED',
+  'unreachable': 'NO_ROUTE_DESTINATION',
+  'failed': 'NETWORK_OUT_OF_ORDER',
+};
+
+// Share of a simulated answered call spent ringing before the pickup
+const RING_SHARE = 0.3;
+
+const SIMULATED_AGENTS = ['Agent Sara', 'Agent Omar', 'Agent Lina'];
+
+const pickOutcome = (weights: Record<CallOutcome, number>): CallOutcome => {
+  const entries = Object.entries(weights) as [CallOutcome, number][];
+  const total = entries.reduce((sum, [, weight]) => sum + weight, 0);
+  let roll = Math.random() * total;
+  for (const [outcome, weight] of entries) {
+    roll -= weight;
+    if (roll < 0) return outcome;
+  }
+  return entries[entries.length - 1][0];
+};
+
+// Local stand-in for a PBX so campaigns can be run end to end in development
+export function createSimulatedAdapter(options: SimulatedAdapterOptions = {}): TelephonyAdapter {
+  const { minCallMs = 1500, maxCallMs = 6000 } = options;
+  const weights = { ...DEFAULT_OUTCOME_WEIGHTS, ...options.outcomeWeights };
+
+  return {
+    name: 'Simulated',
+    placeCall: (request, signal, onConnected) => new Promise<CallResult>((resolve, reject) => {
+      const durationMs = minCallMs + Math.random() * (maxCallMs - minCallMs);
+      const outcome = pickOutcome(weights);
+      // Answered calls ring for the first part of the call
+      const connectTimer = outcome === 'answered' && onConnected
+        ? setTimeout(onConnected, durationMs * RING_SHARE)
+        : undefined;
+
+      const timer = setTimeout(() => {
+        signal.removeEventListener('abort', handleAbort);
+        const answered = outcome === 'answered';
+        // Answered calls go through the IVR and are sometimes transferred to an agent
+        const transferred = answered && Math.random() < 0.4;
+        resolve({
+          outcome,
+          // Only answered calls have talk time
+          durationSeconds: answered ? Math.round(durationMs / 1000) : 0,
+          hangupCause: HANGUP_CAUSES[outcome],
+          ...(answered && {
+            ivrPath: transferred ? ['Greeting', 'Main menu', 'Transfer to agent'] : ['Greeting', 'Main menu', 'Goodbye'],
+            recordingRef: `sim://recordings/${request.contactId}-${Date.now()}.wav`,
+          }),
+          ...(transferred && { agent: SIMULATED_AGENTS[Math.floor(Math.random() * SIMULATED_AGENTS.length)] }),
+        });
+      }, durationMs);
+
+      function handleAbort() {
+        clearTimeout(timer);
+        clearTimeout(connectTimer);
+        reject(new DOMException('Call aborted', 'AbortError'));
+      }
+      if (signal.aborted) {
+        handleAbort();
+        return;
+      }
+      signal.addEventListener('abort', handleAbort, { once: true });
+    }),
+  };
+}
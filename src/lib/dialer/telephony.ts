@@ -0,0 +1,47 @@
+// Outcome of a single call attempt as reported by the telephony provider
+export type CallOutcome = 'answered' | 'busy' | 'no-answer' | 'rejected' | 'unreachable' | 'failed';
+
+export const CALL_OUTCOMES: CallOutcome[] = ['answered', 'busy', 'no-answer', 'rejected', 'unreachable', 'failed'];
+
+// Written to AudienceData.result, so keep these stable
+export const CALL_OUTCOME_LABELS: Record<CallOutcome, string> = {
+  'answered': 'Answered',
+  'busy': 'Busy',
+  'no-answer': 'No answer',
+  'rejected': 'Rejected',
+  'unreachable': 'Unreachable',
+  'failed': 'Failed',
+};
+
+export interface CallRequest {
+  contactId: string;
+  // E.164
+  phone: string;
+  // Number shown to the callee; the provider default when unset
+  callerId?: string;
+  // IVR flow the call is connected to once answered
+  ivrFlowId?: string;
+}
+
+export interface CallResult {
+  outcome: CallOutcome;
+  durationSeconds: number;
+  // Provider-specific reason, e.g. a SIP response
+  detail?: string;
+  // Call details kept in the contact's call log when the provider reports them
+  agent?: string;
+  ivrPath?: string[];
+  hangupCause?: string;
+  recordingRef?: string;
+}
+
+/**
+ * Places outbound calls for the dialer. Implementations wrap a PBX or CPaaS API; `placeCall`
+ * resolves once the call has ended and should reject only for errors the provider could not map
+ * to an outcome. An aborted signal means the campaign no longer needs the call. Providers that
+ * report the pickup call `onConnected` once the callee answers.
+ */
+export interface TelephonyAdapter {
+  name: string;
+  placeCall: (request: CallRequest, signal: AbortSignal, onConnected?: () => void) => Promise<CallResult>;
+}
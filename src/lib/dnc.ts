@@ -0,0 +1,98 @@
+import { ParsedSheet, detectColumnMapping } from "./import/columnMapping";
+import { normalizePhoneNumber } from "./phone/normalizePhone";
+
+// One suppressed number. Suppression applies to every campaign and every phonebook.
+export interface DncEntry {
+  // E.164
+  phone: string;
+  reason: string;
+  // ISO timestamp
+  addedAt: string;
+  // yyyy-mm-dd; the number stays suppressed through the end of this day. Permanent when unset.
+  expiresAt?: string;
+}
+
+export const DNC_REASON_MAX_LENGTH = 200;
+
+export const DEFAULT_DNC_REASON = 'Do not call';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Local midnight for a yyyy-mm-dd string; NaN when empty or malformed
+const parseDateInput = (value: string): number => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) return NaN;
+  return new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])).getTime();
+};
+
+const toDateInput = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export const isDncEntryActive = (entry: DncEntry, now = Date.now()): boolean =>
+  !entry.expiresAt || now < parseDateInput(entry.expiresAt) + DAY_MS;
+
+// Phone -> reason for every entry still in force, for lookups while importing or dialing
+export function getSuppressedPhones(entries: DncEntry[], now = Date.now()): Map<string, string> {
+  return new Map(entries
+    .filter(entry => isDncEntryActive(entry, now))
+    .map(entry => [entry.phone, entry.reason]));
+}
+
+export const describeSuppression = (reason: string): string =>
+  reason && reason !== DEFAULT_DNC_REASON ? `On the do-not-call list: ${reason}` : 'On the do-not-call list';
+
+// Accepts yyyy-mm-dd or anything Date can read; '' for an empty cell, null when unreadable
+const parseExpiryCell = (value: string): string | null => {
+  const trimmed = value.trim();
+  if (!trimmed) return '';
+  if (!Number.isNaN(parseDateInput(trimmed))) return trimmed;
+  const parsed = new Date(trimmed);
+  return Number.isNaN(parsed.getTime()) ? null : toDateInput(parsed);
+};
+
+const findColumn = (headers: string[], pattern: RegExp, skip: number): number =>
+  headers.findIndex((header, column) => column !== skip && pattern.test(header));
+
+export interface DncSheetImport {
+  entries: DncEntry[];
+  // Rows whose phone or expiry date could not be read
+  invalid: number;
+  // Numbers listed more than once in the file
+  duplicates: number;
+}
+
+// Read an uploaded suppression file: a phone column plus optional reason and expiry columns,
+// found by their headers. Rows without a reason get the default one.
+export function buildDncEntries(sheet: ParsedSheet, defaultCountry: string, now = new Date()): DncSheetImport {
+  let phoneColumn = detectColumnMapping(sheet).indexOf('phone');
+  if (phoneColumn === -1) phoneColumn = 0;
+  const reasonColumn = findColumn(sheet.headers, /reason|note|comment/i, phoneColumn);
+  const expiryColumn = findColumn(sheet.headers, /expir|until|end ?date/i, phoneColumn);
+
+  const addedAt = now.toISOString();
+  const byPhone = new Map<string, DncEntry>();
+  let invalid = 0;
+  let duplicates = 0;
+
+  sheet.rows.forEach(({ cells }) => {
+    const parsed = normalizePhoneNumber(cells[phoneColumn] ?? '', defaultCountry);
+    const expiresAt = expiryColumn === -1 ? '' : parseExpiryCell(cells[expiryColumn] ?? '');
+    if (!parsed.isValid || expiresAt === null) {
+      invalid++;
+      return;
+    }
+    if (byPhone.has(parsed.e164)) {
+      duplicates++;
+      return;
+    }
+    const reason = reasonColumn === -1 ? '' : (cells[reasonColumn] ?? '').trim().slice(0, DNC_REASON_MAX_LENGTH);
+    byPhone.set(parsed.e164, {
+      phone: parsed.e164,
+      reason: reason || DEFAULT_DNC_REASON,
+      addedAt,
+      ...(expiresAt && { expiresAt }),
+    });
+  });
+
+  return { entries: Array.from(byPhone.values()), invalid, duplicates };
+}
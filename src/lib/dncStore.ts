@@ -0,0 +1,150 @@
+import { useSyncExternalStore } from "react";
+import { DncEntry, isDncEntryActive } from "./dnc";
+import { DncRepository } from "./persistence/dncRepository";
+import { DncSyncChannel } from "./persistence/syncChannel";
+
+/**
+ * The do-not-call list, shared by every campaign and phonebook and written through to the
+ * repository on each change. Newest entries come first.
+ */
+class DncStore {
+  private entries: DncEntry[] = [];
+  private byPhone = new Map<string, DncEntry>();
+  private listeners = new Set<() => void>();
+  private repository: DncRepository | null = null;
+  private syncChannel: DncSyncChannel | null = null;
+  // Changes made before the saved list loaded, written once it has
+  private pendingPuts = new Map<string, DncEntry>();
+  private pendingDeletes = new Set<string>();
+  private writesInFlight = 0;
+  private reloadQueued = false;
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  };
+
+  getSnapshot = (): DncEntry[] => this.entries;
+
+  // Load the saved list, then keep the repository and other tabs up to date. Without a
+  // repository (or when it fails to open) it only lives in memory.
+  async connect(repository: DncRepository | null, syncChannel: DncSyncChannel | null) {
+    if (!repository) return;
+    try {
+      const saved = await repository.loadAll();
+      this.repository = repository;
+      this.syncChannel = syncChannel;
+      syncChannel?.subscribe(() => this.reloadFromRepository());
+
+      // Keep what was added before loading finished, and leave out what was removed
+      const addedPhones = new Set(this.entries.map(entry => entry.phone));
+      this.setEntries([
+        ...this.entries,
+        ...saved.filter(entry => !addedPhones.has(entry.phone) && !this.pendingDeletes.has(entry.phone)),
+      ]);
+      const puts = Array.from(this.pendingPuts.values());
+      const deletes = Array.from(this.pendingDeletes);
+      this.pendingPuts.clear();
+      this.pendingDeletes.clear();
+      if (puts.length > 0) this.save(puts);
+      if (deletes.length > 0) this.delete(deletes);
+    } catch (error) {
+      console.error('Error loading the do-not-call list:', error);
+    }
+  }
+
+  get(phone: string): DncEntry | undefined {
+    return this.byPhone.get(phone);
+  }
+
+  // The entry suppressing this E.164 phone right now, if any; expired entries are kept but ignored
+  getSuppression(phone: string, now = Date.now()): DncEntry | undefined {
+    const entry = this.byPhone.get(phone);
+    return entry && isDncEntryActive(entry, now) ? entry : undefined;
+  }
+
+  isSuppressed = (phone: string): boolean => this.getSuppression(phone) !== undefined;
+
+  // Add entries, replacing any existing entry for the same phone
+  add(entries: DncEntry[]) {
+    if (entries.length === 0) return;
+    const phones = new Set(entries.map(entry => entry.phone));
+    this.setEntries([...entries, ...this.entries.filter(entry => !phones.has(entry.phone))]);
+    if (this.repository) {
+      this.save(entries);
+    } else {
+      entries.forEach(entry => {
+        this.pendingPuts.set(entry.phone, entry);
+        this.pendingDeletes.delete(entry.phone);
+      });
+    }
+  }
+
+  remove(phones: string[]) {
+    const removed = new Set(phones);
+    this.setEntries(this.entries.filter(entry => !removed.has(entry.phone)));
+    if (this.repository) {
+      this.delete(phones);
+    } else {
+      phones.forEach(phone => {
+        this.pendingPuts.delete(phone);
+        this.pendingDeletes.add(phone);
+      });
+    }
+  }
+
+  private save(entries: DncEntry[]) {
+    this.write(repository => repository.put(entries), 'Error saving do-not-call entries:');
+  }
+
+  private delete(phones: string[]) {
+    this.write(repository => repository.delete(phones), 'Error deleting do-not-call entries:');
+  }
+
+  // Write through, then tell other tabs so their dialers stop calling newly listed numbers
+  private write(send: (repository: DncRepository) => Promise<void>, errorMessage: string) {
+    const repository = this.repository;
+    if (!repository) return;
+    this.writesInFlight++;
+    send(repository)
+      .then(() => this.syncChannel?.publish())
+      .catch(error => console.error(errorMessage, error))
+      .finally(() => {
+        this.writesInFlight--;
+        if (this.writesInFlight === 0 && this.reloadQueued) void this.reloadFromRepository();
+      });
+  }
+
+  // Another tab changed the list. Waits for our own writes, so the reload can't undo them.
+  private async reloadFromRepository() {
+    const repository = this.repository;
+    if (!repository) return;
+    if (this.writesInFlight > 0) {
+      this.reloadQueued = true;
+      return;
+    }
+    this.reloadQueued = false;
+    try {
+      const saved = await repository.loadAll();
+      if (this.writesInFlight > 0) {
+        this.reloadQueued = true;
+        return;
+      }
+      this.setEntries(saved);
+    } catch (error) {
+      console.error('Error syncing the do-not-call list from another tab:', error);
+    }
+  }
+
+  private setEntries(entries: DncEntry[]) {
+    this.entries = entries;
+    this.byPhone = new Map(entries.map(entry => [entry.phone, entry]));
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const dncStore = new DncStore();
+
+export function useDncEntries(): DncEntry[] {
+  return useSyncExternalStore(dncStore.subscribe, dncStore.getSnapshot);
+}
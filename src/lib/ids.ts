@@ -0,0 +1,14 @@
+// Ids for contacts, lists, segments and campaigns. They key IndexedDB rows, selections and the
+// dialer queue, so they must stay unique across imports of 100k+ rows.
+export const generateId = (): string =>
+  typeof crypto.randomUUID === 'function' ? crypto.randomUUID() : randomUuid();
+
+// crypto.randomUUID only exists in secure contexts (https or localhost); getRandomValues works
+// everywhere. Builds the same version 4 UUID.
+function randomUuid(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  bytes[6] = (bytes[6] & 0x0f) | 0x40;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+  const hex = Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
@@ -0,0 +1,164 @@
+export type ColumnRole = 'name' | 'phone' | 'attribute' | 'ignore';
+
+export interface SheetRow {
+  // 1-based row number in the source file, so the first data row is 2
+  rowNumber: number;
+  cells: string[];
+}
+
+export interface ParsedSheet {
+  headers: string[];
+  rows: SheetRow[];
+}
+
+export interface MappedRow {
+  rowNumber: number;
+  name: string;
+  phone: string;
+  attributes: Record<string, string>;
+}
+
+// Header spellings we have seen in CRM exports and our own sample file
+const ROLE_SYNONYMS: Record<'name' | 'phone', string[]> = {
+  name: ['name', 'fullname', 'contactname', 'customername', 'clientname', 'firstname', 'contact', 'customer', 'client'],
+  phone: ['phone', 'phonenumber', 'mobile', 'mobilenumber', 'mobileno', 'msisdn', 'cell', 'cellphone', 'telephone', 'tel', 'number', 'contactnumber', 'whatsapp'],
+};
+
+const MIN_MATCH_SCORE = 0.6;
+
+const normalizeHeader = (header: string): string =>
+  header.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '');
+
+const levenshtein = (a: string, b: string): number => {
+  const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(
+        previous[j] + 1,
+        previous[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+};
+
+// 1 for an exact synonym, 0.8 when the header contains one ("Customer Phone #"),
+// otherwise edit-distance similarity to catch typos such as "Phnoe"
+export function scoreHeader(header: string, role: 'name' | 'phone'): number {
+  const normalized = normalizeHeader(header);
+  if (!normalized) return 0;
+
+  let best = 0;
+  for (const synonym of ROLE_SYNONYMS[role]) {
+    if (normalized === synonym) return 1;
+    if (synonym.length >= 3 && normalized.includes(synonym)) {
+      best = Math.max(best, 0.8);
+      continue;
+    }
+    const distance = levenshtein(normalized, synonym);
+    best = Math.max(best, 1 - distance / Math.max(normalized.length, synonym.length));
+  }
+  return best;
+}
+
+const looksLikePhone = (value: string): boolean => {
+  const digits = value.replace(/\D/g, '');
+  return digits.length >= 7 && digits.length <= 15 && /^[\d\s()+\-.]+$/.test(value.trim());
+};
+
+// Share of non-empty sample values in a column that look like phone numbers
+const phoneLikeRatio = (rows: SheetRow[], column: number): number => {
+  const values = rows.map(row => (row.cells[column] ?? '').trim()).filter(Boolean);
+  if (values.length === 0) return 0;
+  return values.filter(looksLikePhone).length / values.length;
+};
+
+// Guess a role for every column. Name and phone are assigned to at most one column each;
+// everything else is kept as a custom attribute by default.
+export function detectColumnMapping(sheet: ParsedSheet, sampleSize = 20): ColumnRole[] {
+  const roles: ColumnRole[] = sheet.headers.map(() => 'attribute');
+  const sample = sheet.rows.slice(0, sampleSize);
+
+  const pickBest = (role: 'name' | 'phone') => {
+    let bestColumn = -1;
+    let bestScore = MIN_MATCH_SCORE;
+    sheet.headers.forEach((header, column) => {
+      if (roles[column] !== 'attribute') return;
+      const score = scoreHeader(header, role);
+      if (score > bestScore) {
+        bestScore = score;
+        bestColumn = column;
+      }
+    });
+    return bestColumn;
+  };
+
+  // Phone first: "Contact Number" should become the phone column rather than the name column
+  let phoneColumn = pickBest('phone');
+  if (phoneColumn === -1) {
+    // Fall back to the column whose values look most like phone numbers
+    let bestRatio = 0.8;
+    sheet.headers.forEach((_, column) => {
+      const ratio = phoneLikeRatio(sample, column);
+      if (ratio >= bestRatio) {
+        bestRatio = ratio;
+        phoneColumn = column;
+      }
+    });
+  }
+  if (phoneColumn !== -1) roles[phoneColumn] = 'phone';
+
+  const nameColumn = pickBest('name');
+  if (nameColumn !== -1) roles[nameColumn] = 'name';
+
+  // Columns without a header carry nothing we can name as an attribute
+  sheet.headers.forEach((header, column) => {
+    if (roles[column] === 'attribute' && !header.trim()) {
+      roles[column] = 'ignore';
+    }
+  });
+
+  return roles;
+}
+
+export function validateColumnMapping(roles: ColumnRole[]): string {
+  const nameCount = roles.filter(role => role === 'name').length;
+  const phoneCount = roles.filter(role => role === 'phone').length;
+
+  if (phoneCount === 0) return 'Assign a column to Phone';
+  if (phoneCount > 1) return 'Only one column can be mapped to Phone';
+  if (nameCount === 0) return 'Assign a column to Name';
+  if (nameCount > 1) return 'Only one column can be mapped to Name';
+  return '';
+}
+
+export function getAttributeKey(header: string, column: number): string {
+  return header.trim() || `Column ${column + 1}`;
+}
+
+export function applyColumnMapping(sheet: ParsedSheet, roles: ColumnRole[]): MappedRow[] {
+  const nameColumn = roles.indexOf('name');
+  const phoneColumn = roles.indexOf('phone');
+
+  return sheet.rows.map(({ rowNumber, cells }) => {
+    const attributes: Record<string, string> = {};
+    roles.forEach((role, column) => {
+      const value = (cells[column] ?? '').trim();
+      if (role === 'attribute' && value) {
+        attributes[getAttributeKey(sheet.headers[column], column)] = value;
+      }
+    });
+
+    return {
+      rowNumber,
+      name: nameColumn === -1 ? '' : cells[nameColumn] ?? '',
+      phone: phoneColumn === -1 ? '' : cells[phoneColumn] ?? '',
+      attributes,
+    };
+  });
+}
@@ -0,0 +1,102 @@
+// Incremental RFC 4180 parser: feed text in arbitrary chunks and get back the records
+// completed so far. Quoted fields may span chunks and contain delimiters and newlines.
+export class CsvRecordParser {
+  private field = '';
+  private record: string[] = [];
+  private inQuotes = false;
+  // A quote seen inside a quoted field: either an escaped quote or the closing one
+  private pendingQuote = false;
+  private pendingCarriageReturn = false;
+  private fieldWasQuoted = false;
+
+  constructor(private readonly delimiter: string) {}
+
+  push(text: string): string[][] {
+    const records: string[][] = [];
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      if (this.pendingCarriageReturn) {
+        this.pendingCarriageReturn = false;
+        if (char === '\n') continue;
+      }
+
+      if (this.inQuotes) {
+        if (this.pendingQuote) {
+          this.pendingQuote = false;
+          if (char === '"') {
+            this.field += '"';
+            continue;
+          }
+          this.inQuotes = false;
+          // Fall through: the character after the closing quote is handled unquoted
+        } else if (char === '"') {
+          this.pendingQuote = true;
+          continue;
+        } else {
+          this.field += char;
+          continue;
+        }
+      }
+
+      if (char === '"' && this.field === '' && !this.fieldWasQuoted) {
+        this.inQuotes = true;
+        this.fieldWasQuoted = true;
+      } else if (char === this.delimiter) {
+        this.endField();
+      } else if (char === '\n' || char === '\r') {
+        this.endField();
+        records.push(this.endRecord());
+        this.pendingCarriageReturn = char === '\r';
+      } else {
+        this.field += char;
+      }
+    }
+
+    return records;
+  }
+
+  // Emit the last record when the input does not end with a newline
+  flush(): string[][] {
+    if (this.pendingQuote) {
+      this.pendingQuote = false;
+      this.inQuotes = false;
+    }
+    if (this.field === '' && this.record.length === 0 && !this.fieldWasQuoted) {
+      return [];
+    }
+    this.endField();
+    return [this.endRecord()];
+  }
+
+  private endField() {
+    this.record.push(this.field);
+    this.field = '';
+    this.fieldWasQuoted = false;
+  }
+
+  private endRecord(): string[] {
+    const record = this.record;
+    this.record = [];
+    return record;
+  }
+}
+
+const CANDIDATE_DELIMITERS = [',', ';', '\t', '|'];
+
+// Pick the delimiter that splits the header line into the most columns, so exports
+// from European Excel (semicolon) and TSV files load without a setting
+export function detectDelimiter(sample: string): string {
+  const firstLine = sample.split(/\r\n|\n|\r/, 1)[0] ?? '';
+  let best = ',';
+  let bestCount = 0;
+  for (const delimiter of CANDIDATE_DELIMITERS) {
+    const count = firstLine.split(delimiter).length - 1;
+    if (count > bestCount) {
+      best = delimiter;
+      bestCount = count;
+    }
+  }
+  return best;
+}
@@ -0,0 +1,47 @@
+import type { ImportWorkerRequest, ImportWorkerResponse } from "./importWorkerClient";
+import { parseSpreadsheet } from "./parseFile";
+import { validateContacts } from "./validateContacts";
+
+// Runs file parsing and contact validation off the main thread; see importWorkerClient
+
+const post = (message: ImportWorkerResponse) => self.postMessage(message);
+
+self.onmessage = async (event: MessageEvent<ImportWorkerRequest>) => {
+  const request = event.data;
+
+  try {
+    if (request.type === 'parse') {
+      const sheet = await parseSpreadsheet(request.file, ({ rowsParsed, bytesRead, totalBytes }) => post({
+        type: 'progress',
+        progress: {
+          phase: 'parsing',
+          rowsParsed,
+          valid: 0,
+          invalid: 0,
+          percent: totalBytes > 0 ? Math.round((bytesRead / totalBytes) * 100) : 100,
+        },
+      }));
+      post({ type: 'done', result: sheet });
+      return;
+    }
+
+    const result = validateContacts(request.rows, {
+      defaultCountry: request.defaultCountry,
+      existingPhones: request.existingPhones,
+      suppressedPhones: request.suppressedPhones,
+      onProgress: ({ processed, total, valid, invalid }) => post({
+        type: 'progress',
+        progress: {
+          phase: 'validating',
+          rowsParsed: processed,
+          valid,
+          invalid,
+          percent: total > 0 ? Math.round((processed / total) * 100) : 100,
+        },
+      }),
+    });
+    post({ type: 'done', result });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : 'Failed to process file' });
+  }
+};
@@ -0,0 +1,100 @@
+import { MappedRow, ParsedSheet } from "./columnMapping";
+import { ContactValidationResult } from "./validateContacts";
+
+export interface ImportProgress {
+  phase: 'parsing' | 'validating';
+  rowsParsed: number;
+  valid: number;
+  invalid: number;
+  // 0-100
+  percent: number;
+}
+
+export type ImportWorkerRequest =
+  | { type: 'parse'; file: File }
+  | {
+    type: 'validate';
+    rows: MappedRow[];
+    defaultCountry: string;
+    existingPhones: Set<string>;
+    suppressedPhones: Map<string, string>;
+  };
+
+export type ImportWorkerResponse =
+  | { type: 'progress'; progress: ImportProgress }
+  | { type: 'done'; result: ParsedSheet | ContactValidationResult }
+  | { type: 'error'; message: string };
+
+export class ImportCancelledError extends Error {
+  constructor() {
+    super('Import cancelled');
+    this.name = 'ImportCancelledError';
+  }
+}
+
+export interface ImportJob<T> {
+  result: Promise<T>;
+  // Stops the worker immediately; `result` rejects with ImportCancelledError
+  cancel: () => void;
+}
+
+// Each job gets its own worker so cancelling can terminate it mid-loop
+function runImportJob<T>(request: ImportWorkerRequest, onProgress: (progress: ImportProgress) => void): ImportJob<T> {
+  const worker = new Worker(new URL('./importWorker.ts', import.meta.url), { type: 'module' });
+  let settled = false;
+  let rejectResult: (error: Error) => void = () => {};
+
+  const result = new Promise<T>((resolve, reject) => {
+    rejectResult = reject;
+
+    worker.onmessage = (event: MessageEvent<ImportWorkerResponse>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress(message.progress);
+        return;
+      }
+      settled = true;
+      worker.terminate();
+      if (message.type === 'done') {
+        resolve(message.result as T);
+      } else {
+        reject(new Error(message.message));
+      }
+    };
+
+    worker.onerror = (event) => {
+      settled = true;
+      worker.terminate();
+      reject(new Error(event.message || 'Import worker failed'));
+    };
+  });
+
+  worker.postMessage(request);
+
+  return {
+    result,
+    cancel: () => {
+      if (settled) return;
+      settled = true;
+      worker.terminate();
+      rejectResult(new ImportCancelledError());
+    },
+  };
+}
+
+export function parseSpreadsheetInWorker(file: File, onProgress: (progress: ImportProgress) => void): ImportJob<ParsedSheet> {
+  return runImportJob<ParsedSheet>({ type: 'parse', file }, onProgress);
+}
+
+export function validateContactsInWorker(
+  rows: MappedRow[],
+  defaultCountry: string,
+  existingPhones: Set<string>,
+  suppressedPhones: Map<string, string>,
+  onProgress: (progress: ImportProgress) => void,
+): ImportJob<ContactValidationResult> {
+  return runImportJob<ContactValidationResult>(
+    { type: 'validate', rows, defaultCountry, existingPhones, suppressedPhones },
+    onProgress,
+  );
+}
@@ -0,0 +1,75 @@
+import { AudienceData } from "../audience";
+
+// What to do with an imported contact whose phone already exists in the campaign
+export type DuplicatePolicy = 'skip' | 'update-name' | 'keep-both';
+
+export const DUPLICATE_POLICY_LABELS: Record<DuplicatePolicy, string> = {
+  'skip': 'Skip existing contacts',
+  'update-name': 'Update name of existing contacts',
+  'keep-both': 'Keep both',
+};
+
+export interface MergeResult {
+  audience: AudienceData[];
+  added: number;
+  // Existing contacts matched by phone, updated or skipped according to the policy
+  updated: number;
+  skipped: number;
+  // Phones repeated within the import itself, matched to a contact added earlier in it
+  repeated: number;
+}
+
+// Phones are stored in E.164, so they can be compared directly
+export const getPhoneKey = (contact: Pick<AudienceData, 'phone'>): string => contact.phone;
+
+export function getExistingPhones(contacts: AudienceData[]): Set<string> {
+  return new Set(contacts.map(getPhoneKey));
+}
+
+/**
+ * Merge imported contacts into the audience according to `policy`.
+ *
+ * Matching is by phone number against both the existing audience and contacts added earlier in
+ * the same import, so a phone repeated in one file is also handled by the policy; those are
+ * counted as `repeated` rather than as updated or skipped. With "keep-both" every imported
+ * contact is appended.
+ */
+export function mergeIntoAudience(existing: AudienceData[], incoming: AudienceData[], policy: DuplicatePolicy): MergeResult {
+  if (policy === 'keep-both') {
+    return { audience: [...existing, ...incoming], added: incoming.length, updated: 0, skipped: 0, repeated: 0 };
+  }
+
+  const audience = [...existing];
+  const indexByPhone = new Map<string, number>();
+  audience.forEach((contact, index) => {
+    if (!indexByPhone.has(getPhoneKey(contact))) indexByPhone.set(getPhoneKey(contact), index);
+  });
+
+  let added = 0;
+  let updated = 0;
+  let skipped = 0;
+  let repeated = 0;
+
+  incoming.forEach(contact => {
+    const key = getPhoneKey(contact);
+    const matchIndex = indexByPhone.get(key);
+
+    if (matchIndex === undefined) {
+      indexByPhone.set(key, audience.length);
+      audience.push(contact);
+      added++;
+      return;
+    }
+
+    const isRepeat = matchIndex >= existing.length;
+    if (policy === 'update-name' && audience[matchIndex].name !== contact.name) {
+      audience[matchIndex] = { ...audience[matchIndex], name: contact.name };
+      if (!isRepeat) updated++;
+    } else if (!isRepeat) {
+      skipped++;
+    }
+    if (isRepeat) repeated++;
+  });
+
+  return { audience, added, updated, skipped, repeated };
+}
@@ -0,0 +1,127 @@
+import * as XLSX from 'xlsx';
+import { ParsedSheet, SheetRow } from "./columnMapping";
+import { CsvRecordParser, detectDelimiter } from "./csvStream";
+
+export interface ParseProgress {
+  rowsParsed: number;
+  bytesRead: number;
+  totalBytes: number;
+}
+
+// 1 MB slices keep memory flat and give the progress bar enough steps on large files
+const CSV_CHUNK_SIZE = 1024 * 1024;
+
+const cellToString = (cell: unknown): string =>
+  cell === null || cell === undefined ? '' : String(cell).trim();
+
+export const isCsvFile = (file: File): boolean =>
+  file.name.toLowerCase().endsWith('.csv') || file.type === 'text/csv';
+
+// CSV files are streamed in the import worker; Excel workbooks are loaded into memory whole
+export const MAX_CSV_FILE_SIZE = 100 * 1024 * 1024;
+export const MAX_WORKBOOK_FILE_SIZE = 25 * 1024 * 1024;
+
+const SPREADSHEET_TYPES = [
+  'text/csv',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+];
+
+// Why the file can't be imported, or '' when it can
+export function getSpreadsheetFileError(file: File): string {
+  const maxFileSize = isCsvFile(file) ? MAX_CSV_FILE_SIZE : MAX_WORKBOOK_FILE_SIZE;
+  if (file.size > maxFileSize) {
+    return `File size exceeds ${maxFileSize / (1024 * 1024)}MB limit`;
+  }
+  if (!SPREADSHEET_TYPES.includes(file.type) && !file.name.endsWith('.csv') && !file.name.endsWith('.xlsx')) {
+    return 'Please upload a CSV or Excel file';
+  }
+  return '';
+}
+
+// Collects a header row plus non-empty data rows, widening the header when data rows have extra cells
+class SheetBuilder {
+  private headerRow: string[] | null = null;
+  private rows: SheetRow[] = [];
+  private width = 0;
+  private recordCount = 0;
+
+  get rowsParsed(): number {
+    return this.rows.length;
+  }
+
+  add(record: unknown[]) {
+    this.recordCount++;
+    const cells = record.map(cellToString);
+    this.width = Math.max(this.width, cells.length);
+
+    if (this.headerRow === null) {
+      this.headerRow = cells;
+      return;
+    }
+    // Skip completely empty rows
+    if (cells.some(cell => cell !== '')) {
+      this.rows.push({ rowNumber: this.recordCount, cells });
+    }
+  }
+
+  build(): ParsedSheet {
+    const headerRow = this.headerRow ?? [];
+    // Data rows can be wider than the header row; keep those cells as unnamed columns
+    const headers = Array.from({ length: this.width }, (_, column) => headerRow[column] ?? '');
+    const rows = this.rows.map(row => (row.cells.length === this.width
+      ? row
+      : { rowNumber: row.rowNumber, cells: headers.map((_, column) => row.cells[column] ?? '') }));
+    return { headers, rows };
+  }
+}
+
+// Stream a CSV file in slices instead of loading it whole, reporting progress after each slice
+export async function parseCsvFile(file: File, onProgress?: (progress: ParseProgress) => void): Promise<ParsedSheet> {
+  const decoder = new TextDecoder('utf-8');
+  const builder = new SheetBuilder();
+  let parser: CsvRecordParser | null = null;
+
+  for (let offset = 0; offset < file.size; offset += CSV_CHUNK_SIZE) {
+    const buffer = await file.slice(offset, offset + CSV_CHUNK_SIZE).arrayBuffer();
+    // stream: true keeps multi-byte characters split across slices intact
+    let text = decoder.decode(buffer, { stream: true });
+
+    if (parser === null) {
+      text = text.replace(/^\uFEFF/, '');
+      parser = new CsvRecordParser(detectDelimiter(text));
+    }
+    parser.push(text).forEach(record => builder.add(record));
+
+    onProgress?.({
+      rowsParsed: builder.rowsParsed,
+      bytesRead: Math.min(offset + CSV_CHUNK_SIZE, file.size),
+      totalBytes: file.size,
+    });
+  }
+
+  if (parser) {
+    parser.push(decoder.decode()).forEach(record => builder.add(record));
+    parser.flush().forEach(record => builder.add(record));
+  }
+
+  return builder.build();
+}
+
+// Excel workbooks are zip archives and cannot be streamed; read the first worksheet in one go
+export async function parseWorkbookFile(file: File, onProgress?: (progress: ParseProgress) => void): Promise<ParsedSheet> {
+  const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array', dense: true });
+  const worksheet = workbook.Sheets[workbook.SheetNames[0]];
+  const rawData = XLSX.utils.sheet_to_json(worksheet, { header: 1, defval: '' }) as unknown[][];
+
+  const builder = new SheetBuilder();
+  rawData.forEach(record => builder.add(record));
+
+  onProgress?.({ rowsParsed: builder.rowsParsed, bytesRead: file.size, totalBytes: file.size });
+  return builder.build();
+}
+
+// Read the first worksheet of a CSV/XLSX file into a header row plus non-empty data rows
+export function parseSpreadsheet(file: File, onProgress?: (progress: ParseProgress) => void): Promise<ParsedSheet> {
+  return isCsvFile(file) ? parseCsvFile(file, onProgress) : parseWorkbookFile(file, onProgress);
+}
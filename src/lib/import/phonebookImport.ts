@@ -0,0 +1,156 @@
+import { PhonebookApi } from "../api/phonebookApi";
+import { withRetry } from "../api/retry";
+import { RequestOptions } from "../api/transport";
+import { PhonebookContact, PhonebookContactInput, PhonebookSummary } from "../api/types";
+import { AudienceData, AudienceList, formatCreatedAt } from "../audience";
+import { generateId } from "../ids";
+import { normalizePhoneNumber } from "../phone/normalizePhone";
+
+// Contacts requested per page from the phonebook service
+export const PHONEBOOK_PAGE_SIZE = 500;
+
+export interface PhonebookFetchProgress {
+  fetched: number;
+  // From the phonebooks' contact counts, so only an estimate if they change while paging
+  total: number;
+}
+
+interface FetchPhonebookContactsOptions extends RequestOptions {
+  onProgress?: (progress: PhonebookFetchProgress) => void;
+}
+
+// Page through every contact of the given phonebooks, one phonebook after another. A page that
+// fails is retried, since giving up means fetching every page again
+export async function fetchPhonebookContacts(
+  service: PhonebookApi,
+  phonebooks: PhonebookSummary[],
+  { signal, onProgress }: FetchPhonebookContactsOptions = {},
+): Promise<PhonebookContact[]> {
+  const expected = phonebooks.reduce((sum, phonebook) => sum + phonebook.contactCount, 0);
+  const contacts: PhonebookContact[] = [];
+
+  for (const phonebook of phonebooks) {
+    let cursor: string | undefined;
+    do {
+      const page = await withRetry(
+        () => service.getContacts({ phonebookId: phonebook.id, cursor, pageSize: PHONEBOOK_PAGE_SIZE }, { signal }),
+        { signal },
+      );
+      contacts.push(...page.contacts);
+      cursor = page.nextCursor;
+      onProgress?.({ fetched: contacts.length, total: Math.max(expected, contacts.length) });
+    } while (cursor);
+  }
+  return contacts;
+}
+
+// Save contacts to a phonebook a page at a time, so large files don't become one huge request.
+// Failed pages are retried so an error halfway doesn't leave the phonebook with part of the file
+export async function addPhonebookContacts(
+  service: PhonebookApi,
+  phonebookId: string,
+  contacts: PhonebookContactInput[],
+  { signal }: RequestOptions = {},
+): Promise<PhonebookContact[]> {
+  const added: PhonebookContact[] = [];
+  for (let start = 0; start < contacts.length; start += PHONEBOOK_PAGE_SIZE) {
+    const page = contacts.slice(start, start + PHONEBOOK_PAGE_SIZE);
+    const response = await withRetry(() => service.addContacts({ phonebookId, contacts: page }, { signal }), { signal });
+    added.push(...response.contacts);
+  }
+  return added;
+}
+
+export interface PhonebookImportPreview {
+  // New contacts, ready to add to the campaign, each tagged with its phonebook's list
+  contacts: AudienceData[];
+  // Campaign lists the contacts go into: new ones, and reused ones with a fresh importedAt
+  lists: AudienceList[];
+  total: number;
+  // Already in the campaign, or listed in more than one of the selected phonebooks
+  duplicates: number;
+  invalid: number;
+  // Valid numbers on the do-not-call list
+  suppressed: number;
+}
+
+// Each phonebook imports into its own campaign list, reused when the phonebook is imported again.
+// New lists are named after the phonebook, with a " (2)"-style suffix when that name is taken,
+// since list names are unique per campaign.
+function getPhonebookLists(
+  phonebooks: PhonebookSummary[],
+  existingLists: AudienceList[],
+  importedAt: string,
+): Map<string, AudienceList> {
+  const takenNames = new Set(existingLists.map(list => list.name.trim().toLowerCase()));
+  const uniqueName = (name: string) => {
+    let candidate = name;
+    for (let suffix = 2; takenNames.has(candidate.toLowerCase()); suffix++) {
+      candidate = `${name} (${suffix})`;
+    }
+    takenNames.add(candidate.toLowerCase());
+    return candidate;
+  };
+
+  return new Map(phonebooks.map(phonebook => {
+    const existing = existingLists.find(list => list.phonebookId === phonebook.id);
+    const list: AudienceList = existing
+      ? { ...existing, importedAt }
+      : { id: generateId(), name: uniqueName(phonebook.name.trim()), phonebookId: phonebook.id, importedAt };
+    return [phonebook.id, list];
+  }));
+}
+
+// Turn phonebook entries into campaign contacts, keeping only valid, callable numbers not already in the campaign
+export function buildPhonebookImport(
+  phonebookContacts: PhonebookContact[],
+  phonebooks: PhonebookSummary[],
+  existingLists: AudienceList[],
+  existingPhones: Set<string>,
+  defaultCountry: string,
+  suppressedPhones: Map<string, string>,
+): PhonebookImportPreview {
+  const seen = new Set(existingPhones);
+  const now = new Date();
+  const createdAt = formatCreatedAt(now);
+  const phonebookLists = getPhonebookLists(phonebooks, existingLists, now.toISOString());
+  const contacts: AudienceData[] = [];
+  let duplicates = 0;
+  let invalid = 0;
+  let suppressed = 0;
+
+  phonebookContacts.forEach(entry => {
+    const parsed = normalizePhoneNumber(entry.phone, defaultCountry);
+    if (!parsed.isValid) {
+      invalid++;
+      return;
+    }
+    if (suppressedPhones.has(parsed.e164)) {
+      suppressed++;
+      return;
+    }
+    if (seen.has(parsed.e164)) {
+      duplicates++;
+      return;
+    }
+    seen.add(parsed.e164);
+    contacts.push({
+      identifier: generateId(),
+      name: entry.name,
+      phone: parsed.e164,
+      country: parsed.country,
+      phoneType: parsed.type,
+      createdAt,
+      status: 'Pending',
+      tries: '0',
+      result: '',
+      listId: phonebookLists.get(entry.phonebookId)?.id,
+      phonebookId: entry.phonebookId,
+    });
+  });
+
+  // Lists that would end up empty aren't created
+  const lists = Array.from(phonebookLists.values())
+    .filter(list => contacts.some(contact => contact.listId === list.id));
+  return { contacts, lists, total: phonebookContacts.length, duplicates, invalid, suppressed };
+}
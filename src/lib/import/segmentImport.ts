@@ -0,0 +1,55 @@
+import { AudienceData, formatCreatedAt } from "../audience";
+import { generateId } from "../ids";
+import { SegmentMatch } from "../segments";
+
+export interface SegmentImportPreview {
+  // New contacts, ready to add to the campaign
+  contacts: AudienceData[];
+  total: number;
+  // Already in the campaign, or matched in more than one campaign
+  duplicates: number;
+  // On the do-not-call list
+  suppressed: number;
+}
+
+// Copy segment matches into a campaign as fresh Pending contacts, once per phone and skipping
+// phones the campaign already has or that are suppressed. Lists belong to the source campaign,
+// so they are not kept.
+export function buildSegmentImport(
+  matches: SegmentMatch[],
+  existingPhones: Set<string>,
+  suppressedPhones: Map<string, string>,
+): SegmentImportPreview {
+  const seen = new Set(existingPhones);
+  const createdAt = formatCreatedAt(new Date());
+  const contacts: AudienceData[] = [];
+  let duplicates = 0;
+  let suppressed = 0;
+
+  matches.forEach(({ contact }) => {
+    if (suppressedPhones.has(contact.phone)) {
+      suppressed++;
+      return;
+    }
+    if (seen.has(contact.phone)) {
+      duplicates++;
+      return;
+    }
+    seen.add(contact.phone);
+    contacts.push({
+      identifier: generateId(),
+      name: contact.name,
+      phone: contact.phone,
+      country: contact.country,
+      phoneType: contact.phoneType,
+      createdAt,
+      status: 'Pending',
+      tries: '0',
+      result: '',
+      ...(contact.attributes && { attributes: { ...contact.attributes } }),
+      ...(contact.phonebookId && { phonebookId: contact.phonebookId }),
+    });
+  });
+
+  return { contacts, total: matches.length, duplicates, suppressed };
+}
@@ -0,0 +1,230 @@
+import * as XLSX from 'xlsx';
+import { AudienceData, formatCreatedAt } from "../audience";
+import { describeSuppression } from "../dnc";
+import { generateId } from "../ids";
+import { PhoneParseResult, normalizePhoneNumber } from "../phone/normalizePhone";
+import { MappedRow } from "./columnMapping";
+
+export type ValidationField = 'name' | 'phone';
+
+export interface ValidationError {
+  row: number;
+  field: ValidationField;
+  value: string;
+  error: string;
+  suggestion?: string;
+  // The phone is valid but on the do-not-call list
+  suppressed?: boolean;
+}
+
+export interface ImportSummary {
+  totalRows: number;
+  validRows: number;
+  invalidRows: number;
+  duplicatesRemoved: number;
+  // Valid rows whose phone already belongs to a contact in the campaign
+  matchedExisting: number;
+  // Rows rejected because their phone is on the do-not-call list; also counted as invalid
+  suppressedRows: number;
+  timestamp: string;
+}
+
+export interface ContactValidationResult {
+  valid: AudienceData[];
+  errors: ValidationError[];
+  summary: ImportSummary;
+}
+
+export interface ValidationProgress {
+  processed: number;
+  total: number;
+  valid: number;
+  invalid: number;
+}
+
+export interface ContactValidationOptions {
+  defaultCountry: string;
+  // E.164 phones already in the campaign, used to count matches in the summary
+  existingPhones?: Set<string>;
+  // E.164 phone -> reason for numbers on the do-not-call list; these rows are rejected
+  suppressedPhones?: Map<string, string>;
+  // Called every `progressInterval` rows and once at the end
+  onProgress?: (progress: ValidationProgress) => void;
+  progressInterval?: number;
+}
+
+export function validateName(name: unknown): boolean {
+  if (!name || typeof name !== 'string') return false;
+  const trimmedName = name.trim();
+  return trimmedName.length > 0 && trimmedName.length <= 100;
+}
+
+// Parses into E.164 and reports the detected country and number type
+export function validatePhoneNumber(phone: unknown, defaultCountry: string): PhoneParseResult {
+  return normalizePhoneNumber(phone, defaultCountry);
+}
+
+export function getErrorSuggestion(field: ValidationField, error: string): string {
+  if (field === 'phone') {
+    if (error.includes('required')) {
+      return 'Provide a valid phone number';
+    }
+    return 'Use international format with the country code (e.g. +962771234567) or a national number for the default country';
+  }
+  if (field === 'name') {
+    if (error.includes('required')) {
+      return 'Enter a contact name (1-100 characters)';
+    }
+    if (error.includes('long')) {
+      return 'Name must be 100 characters or less';
+    }
+  }
+  return 'Please correct this field according to the requirements';
+}
+
+// Validate mapped file rows, drop in-file duplicates and build contacts for the valid ones
+export function validateContacts(rows: MappedRow[], options: ContactValidationOptions): ContactValidationResult {
+  const errors: ValidationError[] = [];
+  const valid: AudienceData[] = [];
+  const invalidRowNumbers = new Set<number>();
+  let suppressedCount = 0;
+
+  // Track duplicates by phone number and name combination
+  const seenContacts = new Map<string, number>();
+  let duplicatesCount = 0;
+
+  const { onProgress, progressInterval = 1000 } = options;
+  const reportProgress = (processed: number) => onProgress?.({
+    processed,
+    total: rows.length,
+    valid: valid.length,
+    invalid: invalidRowNumbers.size,
+  });
+
+  for (const [index, { rowNumber, name: nameValue, phone: phoneValue, attributes }] of rows.entries()) {
+    if (index > 0 && index % progressInterval === 0) {
+      reportProgress(index);
+    }
+    let hasRowError = false;
+    const phoneResult = validatePhoneNumber(phoneValue, options.defaultCountry);
+
+    // Check for duplicates (normalize phone and name for comparison)
+    if (nameValue && phoneValue) {
+      const normalizedPhone = phoneResult.e164 || phoneValue.replace(/\D/g, '');
+      const normalizedName = nameValue.trim().toLowerCase();
+      const contactKey = `${normalizedName}|${normalizedPhone}`;
+
+      if (seenContacts.has(contactKey)) {
+        // This is a duplicate - skip it entirely and count it
+        duplicatesCount++;
+        continue;
+      }
+      seenContacts.set(contactKey, rowNumber);
+    }
+
+    // Validate name
+    if (!validateName(nameValue)) {
+      const error = nameValue.trim() === ''
+        ? 'Name is required'
+        : nameValue.length > 100
+          ? 'Name is too long (max 100 characters)'
+          : 'Invalid name format';
+
+      errors.push({
+        row: rowNumber,
+        field: 'name',
+        value: nameValue || '(empty)',
+        error,
+        suggestion: getErrorSuggestion('name', error),
+      });
+      hasRowError = true;
+    }
+
+    // Validate phone
+    if (!phoneResult.isValid) {
+      const error = phoneResult.error ?? 'Invalid phone number';
+
+      errors.push({
+        row: rowNumber,
+        field: 'phone',
+        value: phoneValue || '(empty)',
+        error,
+        suggestion: getErrorSuggestion('phone', error),
+      });
+      hasRowError = true;
+    } else if (options.suppressedPhones?.has(phoneResult.e164)) {
+      errors.push({
+        row: rowNumber,
+        field: 'phone',
+        value: phoneValue,
+        error: describeSuppression(options.suppressedPhones.get(phoneResult.e164) ?? ''),
+        suggestion: 'Remove the number from the do-not-call list on the Phonebook page to import it',
+        suppressed: true,
+      });
+      suppressedCount++;
+      hasRowError = true;
+    }
+
+    if (hasRowError) {
+      invalidRowNumbers.add(rowNumber);
+      continue;
+    }
+
+    valid.push({
+      identifier: generateId(),
+      name: nameValue.trim(),
+      phone: phoneResult.e164,
+      country: phoneResult.country,
+      phoneType: phoneResult.type,
+      createdAt: formatCreatedAt(new Date()),
+      status: "Pending",
+      tries: "0",
+      result: "",
+      ...(Object.keys(attributes).length > 0 && { attributes }),
+    });
+  }
+
+  reportProgress(rows.length);
+
+  return {
+    valid,
+    errors,
+    summary: {
+      totalRows: rows.length,
+      validRows: valid.length,
+      invalidRows: invalidRowNumbers.size,
+      duplicatesRemoved: duplicatesCount,
+      matchedExisting: options.existingPhones
+        ? valid.filter(contact => options.existingPhones?.has(contact.phone)).length
+        : 0,
+      suppressedRows: suppressedCount,
+      timestamp: new Date().toISOString(),
+    },
+  };
+}
+
+// CSV of the rows that failed validation, with their original values and an Error column
+export function buildRejectedRowsCsv(rows: MappedRow[], errors: ValidationError[]): string {
+  const errorsByRow = new Map<number, string[]>();
+  errors.forEach(({ row, field, error }) => {
+    errorsByRow.set(row, [...(errorsByRow.get(row) ?? []), `${field}: ${error}`]);
+  });
+
+  const attributeKeys = Array.from(new Set(
+    rows.filter(row => errorsByRow.has(row.rowNumber)).flatMap(row => Object.keys(row.attributes)),
+  ));
+
+  const records = rows
+    .filter(row => errorsByRow.has(row.rowNumber))
+    .map(row => ({
+      Row: String(row.rowNumber),
+      Name: row.name,
+      Phone: row.phone,
+      ...Object.fromEntries(attributeKeys.map(key => [key, row.attributes[key] ?? ''])),
+      Error: (errorsByRow.get(row.rowNumber) ?? []).join('; '),
+    }));
+
+  const ws = XLSX.utils.json_to_sheet(records, { header: ['Row', 'Name', 'Phone', ...attributeKeys, 'Error'] });
+  // Prepend a BOM so Excel opens non-Latin names with the right encoding
+  return `\uFEFF${XLSX.utils.sheet_to_csv(ws)}`;
+}
@@ -0,0 +1,86 @@
+import { AudienceData, AudienceList } from "../audience";
+import { Campaign } from "../campaign";
+import { CampaignRecord } from "../campaignStore";
+import { CallAttempt } from "../dialer/callAttempt";
+
+// Campaign settings plus the record metadata kept beside them
+export interface StoredCampaign extends Campaign {
+  createdAt: string;
+  archivedAt?: string;
+}
+
+// Row-level changes to one campaign, applied atomically
+export interface CampaignChanges {
+  campaignId: string;
+  // Set when the campaign row itself changed
+  campaign?: StoredCampaign;
+  putContacts: AudienceData[];
+  deleteContactIds: string[];
+  putLists: AudienceList[];
+  deleteListIds: string[];
+  putCallAttempts: CallAttempt[];
+  deleteCallAttemptIds: string[];
+}
+
+export interface CampaignRepository {
+  loadAll(): Promise<CampaignRecord[]>;
+  load(campaignId: string): Promise<CampaignRecord | undefined>;
+  commit(changes: CampaignChanges[]): Promise<void>;
+}
+
+export const toStoredCampaign = ({ campaign, createdAt, archivedAt }: CampaignRecord): StoredCampaign => ({
+  ...campaign,
+  createdAt,
+  ...(archivedAt && { archivedAt }),
+});
+
+export const fromStoredCampaign = (
+  { createdAt, archivedAt, ...campaign }: StoredCampaign,
+  rows: Pick<CampaignRecord, 'audience' | 'lists' | 'callAttempts'>,
+): CampaignRecord => ({
+  campaign,
+  ...rows,
+  createdAt,
+  ...(archivedAt && { archivedAt }),
+});
+
+// Rows are replaced rather than mutated, so a changed row is one whose reference changed
+function diffRows<T>(previous: T[], next: T[], getKey: (row: T) => string) {
+  const previousByKey = new Map(previous.map(row => [getKey(row), row]));
+  const put = next.filter(row => previousByKey.get(getKey(row)) !== row);
+  const nextKeys = new Set(next.map(getKey));
+  const deleted = previous.map(getKey).filter(key => !nextKeys.has(key));
+  return { put, deleted };
+}
+
+// Changes that turn the persisted `previous` record into `next`; everything is new when
+// `previous` is undefined
+export function diffCampaignRecord(previous: CampaignRecord | undefined, next: CampaignRecord): CampaignChanges {
+  const contacts = diffRows(previous?.audience ?? [], next.audience, contact => contact.identifier);
+  const lists = diffRows(previous?.lists ?? [], next.lists, list => list.id);
+  const callAttempts = diffRows(previous?.callAttempts ?? [], next.callAttempts, attempt => attempt.id);
+  const campaignChanged = !previous
+    || previous.campaign !== next.campaign
+    || previous.createdAt !== next.createdAt
+    || previous.archivedAt !== next.archivedAt;
+
+  return {
+    campaignId: next.campaign.id,
+    ...(campaignChanged && { campaign: toStoredCampaign(next) }),
+    putContacts: contacts.put,
+    deleteContactIds: contacts.deleted,
+    putLists: lists.put,
+    deleteListIds: lists.deleted,
+    putCallAttempts: callAttempts.put,
+    deleteCallAttemptIds: callAttempts.deleted,
+  };
+}
+
+export const hasChanges = (changes: CampaignChanges): boolean =>
+  !!changes.campaign
+  || changes.putContacts.length > 0
+  || changes.deleteContactIds.length > 0
+  || changes.putLists.length > 0
+  || changes.deleteListIds.length > 0
+  || changes.putCallAttempts.length > 0
+  || changes.deleteCallAttemptIds.length > 0;
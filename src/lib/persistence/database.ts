@@ -0,0 +1,112 @@
+// IndexedDB schema for campaign data. Every campaign row carries its campaignId so a campaign
+// can be loaded or rewritten on its own; saved segments span campaigns and are keyed by id alone,
+// and the do-not-call list is keyed by E.164 phone.
+
+export const DATABASE_NAME = 'outbound-campaigns';
+
+export const STORES = {
+  campaigns: 'campaigns',
+  contacts: 'contacts',
+  lists: 'lists',
+  callAttempts: 'callAttempts',
+  segments: 'segments',
+  dnc: 'dnc',
+} as const;
+
+export const BY_CAMPAIGN_INDEX = 'byCampaign';
+
+type Migration = (db: IDBDatabase, transaction: IDBTransaction) => void;
+
+// MIGRATIONS[n] upgrades a database from version n to n + 1. Shipped migrations must never be
+// edited; change the schema by appending a new one.
+const MIGRATIONS: Migration[] = [
+  // 1: initial schema
+  (db) => {
+    db.createObjectStore(STORES.campaigns, { keyPath: 'id' });
+
+    const contacts = db.createObjectStore(STORES.contacts, { keyPath: ['campaignId', 'identifier'] });
+    contacts.createIndex(BY_CAMPAIGN_INDEX, 'campaignId');
+
+    const lists = db.createObjectStore(STORES.lists, { keyPath: ['campaignId', 'id'] });
+    lists.createIndex(BY_CAMPAIGN_INDEX, 'campaignId');
+
+    const callAttempts = db.createObjectStore(STORES.callAttempts, { keyPath: ['campaignId', 'id'] });
+    callAttempts.createIndex(BY_CAMPAIGN_INDEX, 'campaignId');
+  },
+  // 2: saved audience segments
+  (db) => {
+    db.createObjectStore(STORES.segments, { keyPath: 'id' });
+  },
+  // 3: do-not-call list
+  (db) => {
+    db.createObjectStore(STORES.dnc, { keyPath: 'phone' });
+  },
+];
+
+export const DATABASE_VERSION = MIGRATIONS.length;
+
+// True while an upgrade waits for another tab to close its connection to the older version
+let upgradeBlocked = false;
+const upgradeBlockedListeners = new Set<() => void>();
+
+const setUpgradeBlocked = (blocked: boolean) => {
+  if (blocked === upgradeBlocked) return;
+  upgradeBlocked = blocked;
+  upgradeBlockedListeners.forEach(listener => listener());
+};
+
+export const isUpgradeBlocked = (): boolean => upgradeBlocked;
+
+export const subscribeToUpgradeBlocked = (listener: () => void): (() => void) => {
+  upgradeBlockedListeners.add(listener);
+  return () => upgradeBlockedListeners.delete(listener);
+};
+
+export function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+
+    const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      const transaction = request.transaction as IDBTransaction;
+      for (let version = event.oldVersion; version < DATABASE_VERSION; version++) {
+        MIGRATIONS[version](db, transaction);
+      }
+    };
+
+    request.onsuccess = () => {
+      setUpgradeBlocked(false);
+      const db = request.result;
+      // Let a newer version in another tab upgrade instead of blocking it
+      db.onversionchange = () => db.close();
+      resolve(db);
+    };
+    request.onerror = () => {
+      setUpgradeBlocked(false);
+      reject(request.error ?? new Error('Failed to open the database'));
+    };
+    // Not a failure: the open completes once the other tab lets go, so wait rather than falling
+    // back to running without persistence
+    request.onblocked = () => setUpgradeBlocked(true);
+  });
+}
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'));
+  });
+}
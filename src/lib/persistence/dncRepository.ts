@@ -0,0 +1,40 @@
+import { DncEntry } from "../dnc";
+import { STORES, openDatabase, requestToPromise, transactionDone } from "./database";
+
+export interface DncRepository {
+  loadAll(): Promise<DncEntry[]>;
+  put(entries: DncEntry[]): Promise<void>;
+  delete(phones: string[]): Promise<void>;
+}
+
+export function createIndexedDbDncRepository(): DncRepository {
+  // Opened on first use and shared by every call
+  let database: Promise<IDBDatabase> | null = null;
+  const getDatabase = () => {
+    database ??= openDatabase();
+    return database;
+  };
+
+  const write = async (apply: (store: IDBObjectStore) => void) => {
+    const db = await getDatabase();
+    const transaction = db.transaction(STORES.dnc, 'readwrite');
+    apply(transaction.objectStore(STORES.dnc));
+    await transactionDone(transaction);
+  };
+
+  return {
+    async loadAll() {
+      const db = await getDatabase();
+      const transaction = db.transaction(STORES.dnc, 'readonly');
+      const entries = await requestToPromise(
+        transaction.objectStore(STORES.dnc).getAll() as IDBRequest<DncEntry[]>,
+      );
+      return entries.sort((a, b) => b.addedAt.localeCompare(a.addedAt));
+    },
+
+    // One transaction per upload, however many numbers it has
+    put: (entries) => write(store => entries.forEach(entry => store.put(entry))),
+
+    delete: (phones) => write(store => phones.forEach(phone => store.delete(phone))),
+  };
+}
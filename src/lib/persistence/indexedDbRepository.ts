@@ -0,0 +1,79 @@
+import { AudienceData, AudienceList } from "../audience";
+import { CallAttempt } from "../dialer/callAttempt";
+import { CampaignChanges, CampaignRepository, StoredCampaign, fromStoredCampaign } from "./campaignRepository";
+import { BY_CAMPAIGN_INDEX, STORES, openDatabase, requestToPromise, transactionDone } from "./database";
+
+// Rows carry their campaign so one campaign's data can be read through the index
+type WithCampaignId<T> = T & { campaignId: string };
+
+const ALL_STORES = [STORES.campaigns, STORES.contacts, STORES.lists, STORES.callAttempts];
+
+const stripCampaignId = <T extends object>({ campaignId: _campaignId, ...row }: WithCampaignId<T>): T => row as T;
+
+export function createIndexedDbRepository(): CampaignRepository {
+  // Opened on first use and shared by every call
+  let database: Promise<IDBDatabase> | null = null;
+  const getDatabase = () => {
+    database ??= openDatabase();
+    return database;
+  };
+
+  const readCampaignRows = async (transaction: IDBTransaction, campaignId: string) => {
+    const byCampaign = <T extends object>(storeName: string) => requestToPromise(
+      transaction.objectStore(storeName).index(BY_CAMPAIGN_INDEX).getAll(campaignId) as IDBRequest<WithCampaignId<T>[]>,
+    ).then(rows => rows.map(row => stripCampaignId<T>(row)));
+
+    const [audience, lists, callAttempts] = await Promise.all([
+      byCampaign<AudienceData>(STORES.contacts),
+      byCampaign<AudienceList>(STORES.lists),
+      byCampaign<CallAttempt>(STORES.callAttempts),
+    ]);
+    // The store orders attempts by key, not by time
+    callAttempts.sort((a, b) => a.startedAt.localeCompare(b.startedAt));
+    return { audience, lists, callAttempts };
+  };
+
+  return {
+    async loadAll() {
+      const db = await getDatabase();
+      const transaction = db.transaction(ALL_STORES, 'readonly');
+      const campaigns = await requestToPromise(
+        transaction.objectStore(STORES.campaigns).getAll() as IDBRequest<StoredCampaign[]>,
+      );
+      const records = await Promise.all(campaigns.map(async (campaign) =>
+        fromStoredCampaign(campaign, await readCampaignRows(transaction, campaign.id)),
+      ));
+      return records.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    },
+
+    async load(campaignId) {
+      const db = await getDatabase();
+      const transaction = db.transaction(ALL_STORES, 'readonly');
+      const campaign = await requestToPromise(
+        transaction.objectStore(STORES.campaigns).get(campaignId) as IDBRequest<StoredCampaign | undefined>,
+      );
+      if (!campaign) return undefined;
+      return fromStoredCampaign(campaign, await readCampaignRows(transaction, campaignId));
+    },
+
+    async commit(changes: CampaignChanges[]) {
+      const db = await getDatabase();
+      const transaction = db.transaction(ALL_STORES, 'readwrite');
+      const contacts = transaction.objectStore(STORES.contacts);
+      const lists = transaction.objectStore(STORES.lists);
+      const callAttempts = transaction.objectStore(STORES.callAttempts);
+
+      changes.forEach(({ campaignId, campaign, ...rows }) => {
+        if (campaign) transaction.objectStore(STORES.campaigns).put(campaign);
+        rows.putContacts.forEach(contact => contacts.put({ ...contact, campaignId }));
+        rows.deleteContactIds.forEach(id => contacts.delete([campaignId, id]));
+        rows.putLists.forEach(list => lists.put({ ...list, campaignId }));
+        rows.deleteListIds.forEach(id => lists.delete([campaignId, id]));
+        rows.putCallAttempts.forEach(attempt => callAttempts.put({ ...attempt, campaignId }));
+        rows.deleteCallAttemptIds.forEach(id => callAttempts.delete([campaignId, id]));
+      });
+
+      await transactionDone(transaction);
+    },
+  };
+}
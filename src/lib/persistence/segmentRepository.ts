@@ -0,0 +1,39 @@
+import { Segment } from "../segments";
+import { STORES, openDatabase, requestToPromise, transactionDone } from "./database";
+
+export interface SegmentRepository {
+  loadAll(): Promise<Segment[]>;
+  put(segment: Segment): Promise<void>;
+  delete(segmentId: string): Promise<void>;
+}
+
+export function createIndexedDbSegmentRepository(): SegmentRepository {
+  // Opened on first use and shared by every call
+  let database: Promise<IDBDatabase> | null = null;
+  const getDatabase = () => {
+    database ??= openDatabase();
+    return database;
+  };
+
+  const write = async (apply: (store: IDBObjectStore) => void) => {
+    const db = await getDatabase();
+    const transaction = db.transaction(STORES.segments, 'readwrite');
+    apply(transaction.objectStore(STORES.segments));
+    await transactionDone(transaction);
+  };
+
+  return {
+    async loadAll() {
+      const db = await getDatabase();
+      const transaction = db.transaction(STORES.segments, 'readonly');
+      const segments = await requestToPromise(
+        transaction.objectStore(STORES.segments).getAll() as IDBRequest<Segment[]>,
+      );
+      return segments.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    },
+
+    put: (segment) => write(store => store.put(segment)),
+
+    delete: (segmentId) => write(store => store.delete(segmentId)),
+  };
+}
@@ -0,0 +1,60 @@
+// Tells other tabs which campaigns, or that the do-not-call list, were just written so they can
+// reload them
+
+const CHANNEL_NAME = 'outbound-campaigns-sync';
+const DNC_CHANNEL_NAME = 'outbound-dnc-sync';
+
+interface CampaignsChangedMessage {
+  type: 'campaigns-changed';
+  campaignIds: string[];
+}
+
+export interface CampaignSyncChannel {
+  publish: (campaignIds: string[]) => void;
+  subscribe: (listener: (campaignIds: string[]) => void) => () => void;
+}
+
+export function createCampaignSyncChannel(): CampaignSyncChannel {
+  // Older browsers without BroadcastChannel simply don't sync
+  if (typeof BroadcastChannel === 'undefined') {
+    return { publish: () => {}, subscribe: () => () => {} };
+  }
+
+  const channel = new BroadcastChannel(CHANNEL_NAME);
+  return {
+    publish: (campaignIds) => {
+      const message: CampaignsChangedMessage = { type: 'campaigns-changed', campaignIds };
+      channel.postMessage(message);
+    },
+    subscribe: (listener) => {
+      const handleMessage = (event: MessageEvent<CampaignsChangedMessage>) => {
+        if (event.data?.type === 'campaigns-changed') listener(event.data.campaignIds);
+      };
+      channel.addEventListener('message', handleMessage);
+      return () => channel.removeEventListener('message', handleMessage);
+    },
+  };
+}
+
+export interface DncSyncChannel {
+  publish: () => void;
+  subscribe: (listener: () => void) => () => void;
+}
+
+export function createDncSyncChannel(): DncSyncChannel {
+  if (typeof BroadcastChannel === 'undefined') {
+    return { publish: () => {}, subscribe: () => () => {} };
+  }
+
+  const channel = new BroadcastChannel(DNC_CHANNEL_NAME);
+  return {
+    publish: () => channel.postMessage({ type: 'dnc-changed' }),
+    subscribe: (listener) => {
+      const handleMessage = (event: MessageEvent<{ type?: string }>) => {
+        if (event.data?.type === 'dnc-changed') listener();
+      };
+      channel.addEventListener('message', handleMessage);
+      return () => channel.removeEventListener('message', handleMessage);
+    },
+  };
+}
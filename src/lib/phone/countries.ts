@@ -0,0 +1,54 @@
+export interface CountryPhonePlan {
+  // ISO 3166-1 alpha-2
+  iso2: string;
+  name: string;
+  callingCode: string;
+  // Digit dialled before national numbers inside the country, e.g. "0" in 079 123 4567
+  trunkPrefix: string | null;
+  // Allowed lengths of the national significant number (without calling code or trunk prefix)
+  nationalLengths: number[];
+  // Leading digits of the national significant number that identify a mobile line.
+  // Empty when mobile and fixed lines share a numbering space (NANP).
+  mobilePrefixes: string[];
+  tollFreePrefixes: string[];
+  // IANA time zone used for calling hours. Countries spanning several zones use the most
+  // populous one; the US falls back to Eastern.
+  timeZone: string;
+}
+
+// Numbering plans for the countries we dial. Numbers with calling codes outside this table are
+// still accepted in international format, but without country or number-type detection.
+export const COUNTRY_PHONE_PLANS: CountryPhonePlan[] = [
+  { iso2: 'JO', name: 'Jordan', callingCode: '962', trunkPrefix: '0', nationalLengths: [8, 9], mobilePrefixes: ['77', '78', '79'], tollFreePrefixes: ['80'], timeZone: 'Asia/Amman' },
+  { iso2: 'SA', name: 'Saudi Arabia', callingCode: '966', trunkPrefix: '0', nationalLengths: [8, 9, 10], mobilePrefixes: ['5'], tollFreePrefixes: ['800'], timeZone: 'Asia/Riyadh' },
+  { iso2: 'AE', name: 'United Arab Emirates', callingCode: '971', trunkPrefix: '0', nationalLengths: [8, 9], mobilePrefixes: ['50', '52', '54', '55', '56', '58'], tollFreePrefixes: ['800'], timeZone: 'Asia/Dubai' },
+  { iso2: 'KW', name: 'Kuwait', callingCode: '965', trunkPrefix: null, nationalLengths: [8], mobilePrefixes: ['4', '5', '6', '9'], tollFreePrefixes: ['180'], timeZone: 'Asia/Kuwait' },
+  { iso2: 'QA', name: 'Qatar', callingCode: '974', trunkPrefix: null, nationalLengths: [7, 8], mobilePrefixes: ['3', '5', '6', '7'], tollFreePrefixes: ['800'], timeZone: 'Asia/Qatar' },
+  { iso2: 'BH', name: 'Bahrain', callingCode: '973', trunkPrefix: null, nationalLengths: [8], mobilePrefixes: ['3', '6'], tollFreePrefixes: ['80'], timeZone: 'Asia/Bahrain' },
+  { iso2: 'OM', name: 'Oman', callingCode: '968', trunkPrefix: null, nationalLengths: [8], mobilePrefixes: ['7', '9'], tollFreePrefixes: ['800'], timeZone: 'Asia/Muscat' },
+  { iso2: 'EG', name: 'Egypt', callingCode: '20', trunkPrefix: '0', nationalLengths: [8, 9, 10], mobilePrefixes: ['10', '11', '12', '15'], tollFreePrefixes: ['800'], timeZone: 'Africa/Cairo' },
+  { iso2: 'LB', name: 'Lebanon', callingCode: '961', trunkPrefix: '0', nationalLengths: [7, 8], mobilePrefixes: ['3', '70', '71', '76', '78', '79', '81'], tollFreePrefixes: [], timeZone: 'Asia/Beirut' },
+  { iso2: 'IQ', name: 'Iraq', callingCode: '964', trunkPrefix: '0', nationalLengths: [8, 9, 10], mobilePrefixes: ['7'], tollFreePrefixes: [], timeZone: 'Asia/Baghdad' },
+  { iso2: 'SY', name: 'Syria', callingCode: '963', trunkPrefix: '0', nationalLengths: [8, 9], mobilePrefixes: ['9'], tollFreePrefixes: [], timeZone: 'Asia/Damascus' },
+  { iso2: 'PS', name: 'Palestine', callingCode: '970', trunkPrefix: '0', nationalLengths: [8, 9], mobilePrefixes: ['56', '59'], tollFreePrefixes: ['1800'], timeZone: 'Asia/Hebron' },
+  { iso2: 'TR', name: 'Turkey', callingCode: '90', trunkPrefix: '0', nationalLengths: [10], mobilePrefixes: ['5'], tollFreePrefixes: ['800'], timeZone: 'Europe/Istanbul' },
+  { iso2: 'US', name: 'United States', callingCode: '1', trunkPrefix: '1', nationalLengths: [10], mobilePrefixes: [], tollFreePrefixes: ['800', '833', '844', '855', '866', '877', '888'], timeZone: 'America/New_York' },
+  { iso2: 'GB', name: 'United Kingdom', callingCode: '44', trunkPrefix: '0', nationalLengths: [9, 10], mobilePrefixes: ['7'], tollFreePrefixes: ['800', '808'], timeZone: 'Europe/London' },
+  { iso2: 'FR', name: 'France', callingCode: '33', trunkPrefix: '0', nationalLengths: [9], mobilePrefixes: ['6', '7'], tollFreePrefixes: ['80'], timeZone: 'Europe/Paris' },
+  { iso2: 'DE', name: 'Germany', callingCode: '49', trunkPrefix: '0', nationalLengths: [7, 8, 9, 10, 11], mobilePrefixes: ['15', '16', '17'], tollFreePrefixes: ['800'], timeZone: 'Europe/Berlin' },
+  { iso2: 'IN', name: 'India', callingCode: '91', trunkPrefix: '0', nationalLengths: [10], mobilePrefixes: ['6', '7', '8', '9'], tollFreePrefixes: ['1800'], timeZone: 'Asia/Kolkata' },
+  { iso2: 'PK', name: 'Pakistan', callingCode: '92', trunkPrefix: '0', nationalLengths: [9, 10], mobilePrefixes: ['3'], tollFreePrefixes: ['800'], timeZone: 'Asia/Karachi' },
+];
+
+export const DEFAULT_COUNTRY = 'JO';
+
+const PLANS_BY_ISO = new Map(COUNTRY_PHONE_PLANS.map(plan => [plan.iso2, plan]));
+
+export function getCountryPlan(iso2: string): CountryPhonePlan | undefined {
+  return PLANS_BY_ISO.get(iso2.toUpperCase());
+}
+
+// Calling codes are prefix-free, so at most one plan matches the start of an international number
+export function findPlanByCallingCode(digits: string): CountryPhonePlan | undefined {
+  return COUNTRY_PHONE_PLANS.find(plan => digits.startsWith(plan.callingCode));
+}
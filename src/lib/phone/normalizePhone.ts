@@ -0,0 +1,130 @@
+import { CountryPhonePlan, findPlanByCallingCode, getCountryPlan } from "./countries";
+
+export type PhoneNumberType = 'mobile' | 'fixed-line' | 'fixed-line-or-mobile' | 'toll-free' | 'unknown';
+
+export interface PhoneParseResult {
+  isValid: boolean;
+  // +<calling code><national number>, only set when the number is valid
+  e164: string;
+  country?: string;
+  countryName?: string;
+  nationalNumber?: string;
+  type: PhoneNumberType;
+  error?: string;
+}
+
+// E.164 allows at most 15 digits; anything under 8 cannot carry a calling code and subscriber number
+const MIN_INTERNATIONAL_DIGITS = 8;
+const MAX_INTERNATIONAL_DIGITS = 15;
+
+const invalid = (error: string): PhoneParseResult => ({ isValid: false, e164: '', type: 'unknown', error });
+
+const fitsPlan = (plan: CountryPhonePlan, national: string): boolean =>
+  plan.nationalLengths.includes(national.length);
+
+const getNumberType = (plan: CountryPhonePlan, national: string): PhoneNumberType => {
+  if (plan.tollFreePrefixes.some(prefix => national.startsWith(prefix))) return 'toll-free';
+  if (plan.mobilePrefixes.length === 0) return 'fixed-line-or-mobile';
+  return plan.mobilePrefixes.some(prefix => national.startsWith(prefix)) ? 'mobile' : 'fixed-line';
+};
+
+const buildResult = (plan: CountryPhonePlan, national: string): PhoneParseResult => ({
+  isValid: true,
+  e164: `+${plan.callingCode}${national}`,
+  country: plan.iso2,
+  countryName: plan.name,
+  nationalNumber: national,
+  type: getNumberType(plan, national),
+});
+
+// Resolve the national part of an international number, tolerating a stray trunk prefix
+// such as "+962 0791234567"
+const parseInternational = (digits: string): PhoneParseResult => {
+  if (digits.length < MIN_INTERNATIONAL_DIGITS || digits.length > MAX_INTERNATIONAL_DIGITS) {
+    return invalid('Phone number must have 8-15 digits including the country code');
+  }
+
+  const plan = findPlanByCallingCode(digits);
+  if (!plan) {
+    // Outside our numbering tables: accept as-is without country detection
+    return { isValid: true, e164: `+${digits}`, type: 'unknown' };
+  }
+
+  let national = digits.slice(plan.callingCode.length);
+  if (plan.trunkPrefix && national.startsWith(plan.trunkPrefix) && fitsPlan(plan, national.slice(plan.trunkPrefix.length))) {
+    national = national.slice(plan.trunkPrefix.length);
+  }
+
+  if (!fitsPlan(plan, national)) {
+    return invalid(`Invalid length for a ${plan.name} number (+${plan.callingCode})`);
+  }
+  return buildResult(plan, national);
+};
+
+/**
+ * Parse a phone number as typed in a file or form and normalize it to E.164.
+ *
+ * Numbers starting with "+" or "00" are international. Other numbers are read in the
+ * national format of `defaultCountry` (with or without its trunk prefix), falling back to
+ * international format without the "+" when they start with a known calling code.
+ */
+export function normalizePhoneNumber(input: unknown, defaultCountry: string): PhoneParseResult {
+  if (input === null || input === undefined || String(input).trim() === '') {
+    return invalid('Phone number is required');
+  }
+
+  const raw = String(input).trim();
+  if (/[^\d\s()+\-./]/.test(raw)) {
+    return invalid('Phone number contains invalid characters');
+  }
+
+  const hasPlus = raw.startsWith('+');
+  const digits = raw.replace(/\D/g, '');
+  if (!digits) {
+    return invalid('Phone number is required');
+  }
+
+  if (hasPlus) {
+    return parseInternational(digits);
+  }
+  if (digits.startsWith('00')) {
+    return parseInternational(digits.slice(2));
+  }
+
+  const plan = getCountryPlan(defaultCountry);
+  if (plan) {
+    // National format with trunk prefix, e.g. 0791234567 for Jordan
+    if (plan.trunkPrefix && digits.startsWith(plan.trunkPrefix)) {
+      const national = digits.slice(plan.trunkPrefix.length);
+      if (fitsPlan(plan, national)) {
+        return buildResult(plan, national);
+      }
+    }
+    // National significant number typed without trunk prefix, e.g. 791234567
+    if (fitsPlan(plan, digits) && !digits.startsWith(plan.callingCode)) {
+      return buildResult(plan, digits);
+    }
+  }
+
+  // International format without "+", e.g. 962791234567 or 96623344555
+  const international = parseInternational(digits);
+  if (international.isValid && international.country) {
+    return international;
+  }
+
+  if (plan && fitsPlan(plan, digits)) {
+    return buildResult(plan, digits);
+  }
+
+  return invalid(plan
+    ? `Not a valid ${plan.name} or international number`
+    : 'Phone number must include a country code');
+}
+
+export const PHONE_NUMBER_TYPE_LABELS: Record<PhoneNumberType, string> = {
+  'mobile': 'Mobile',
+  'fixed-line': 'Landline',
+  'fixed-line-or-mobile': 'Landline/Mobile',
+  'toll-free': 'Toll-free',
+  'unknown': 'Unknown',
+};
@@ -0,0 +1,53 @@
+import { useSyncExternalStore } from "react";
+
+// Hash-based routes (#/campaigns/abc) so deep links work from any static host; the build uses
+// a relative base and there is no server-side fallback to index.html.
+
+const DEFAULT_PATH = '/campaigns';
+
+const readPath = (): string => {
+  const path = window.location.hash.replace(/^#/, '');
+  return path.startsWith('/') && path !== '/' ? path : DEFAULT_PATH;
+};
+
+const subscribe = (listener: () => void): (() => void) => {
+  window.addEventListener('hashchange', listener);
+  return () => window.removeEventListener('hashchange', listener);
+};
+
+export const toHref = (path: string): string => `#${path}`;
+
+export function navigate(path: string): void {
+  window.location.hash = path;
+}
+
+export function usePathname(): string {
+  return useSyncExternalStore(subscribe, readPath);
+}
+
+// Match "/campaigns/:id" style patterns; returns the decoded params, or null when the path doesn't
+// match or a param isn't valid percent-encoding (e.g. a hand-edited "#/campaigns/%E0")
+export function matchPath(pattern: string, pathname: string): Record<string, string> | null {
+  const patternParts = pattern.split('/').filter(Boolean);
+  const pathParts = pathname.split('/').filter(Boolean);
+  if (patternParts.length !== pathParts.length) return null;
+
+  const params: Record<string, string> = {};
+  for (let index = 0; index < patternParts.length; index++) {
+    const part = patternParts[index];
+    if (part.startsWith(':')) {
+      try {
+        params[part.slice(1)] = decodeURIComponent(pathParts[index]);
+      } catch {
+        return null;
+      }
+    } else if (part !== pathParts[index]) {
+      return null;
+    }
+  }
+  return params;
+}
+
+// True for the path itself and anything nested under it
+export const isPathActive = (path: string, pathname: string): boolean =>
+  pathname === path || pathname.startsWith(`${path}/`);
@@ -0,0 +1,62 @@
+import { useSyncExternalStore } from "react";
+import { SegmentRepository } from "./persistence/segmentRepository";
+import { Segment } from "./segments";
+
+/**
+ * Saved audience segments, shared by every campaign. Segments are few and small, so each
+ * change is written through to the repository straight away.
+ */
+class SegmentStore {
+  private segments: Segment[] = [];
+  private listeners = new Set<() => void>();
+  private repository: SegmentRepository | null = null;
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  };
+
+  getSnapshot = (): Segment[] => this.segments;
+
+  // Load saved segments; without a repository (or when it fails to open) they only live in memory
+  async connect(repository: SegmentRepository | null) {
+    if (!repository) return;
+    try {
+      const saved = await repository.loadAll();
+      this.repository = repository;
+      // Keep anything saved before loading finished
+      const savedIds = new Set(this.segments.map(segment => segment.id));
+      this.setSegments([...saved.filter(segment => !savedIds.has(segment.id)), ...this.segments]);
+    } catch (error) {
+      console.error('Error loading saved segments:', error);
+    }
+  }
+
+  get(id: string): Segment | undefined {
+    return this.segments.find(segment => segment.id === id);
+  }
+
+  // Add a new segment or replace the saved one with the same id
+  save(segment: Segment) {
+    this.setSegments(this.segments.some(item => item.id === segment.id)
+      ? this.segments.map(item => (item.id === segment.id ? segment : item))
+      : [...this.segments, segment]);
+    this.repository?.put(segment).catch(error => console.error('Error saving segment:', error));
+  }
+
+  remove(id: string) {
+    this.setSegments(this.segments.filter(segment => segment.id !== id));
+    this.repository?.delete(id).catch(error => console.error('Error deleting segment:', error));
+  }
+
+  private setSegments(segments: Segment[]) {
+    this.segments = segments;
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const segmentStore = new SegmentStore();
+
+export function useSegments(): Segment[] {
+  return useSyncExternalStore(segmentStore.subscribe, segmentStore.getSnapshot);
+}
@@ -0,0 +1,200 @@
+import { AudienceData, AudienceStatus } from "./audience";
+import { CampaignRecord } from "./campaignStore";
+
+export type AttributeOperator = 'equals' | 'contains' | 'is-set';
+
+export const ATTRIBUTE_OPERATOR_LABELS: Record<AttributeOperator, string> = {
+  'equals': 'equals',
+  'contains': 'contains',
+  'is-set': 'is set',
+};
+
+// One custom attribute condition; attribute keys are the source column headers
+export interface AttributeRule {
+  key: string;
+  operator: AttributeOperator;
+  // Ignored for "is-set"
+  value: string;
+}
+
+// Every rule that is set must match (AND); within a multi-value rule any value matches (OR)
+export interface SegmentRules {
+  // Campaigns to take contacts from; all campaigns when empty
+  campaignIds: string[];
+  statuses: AudienceStatus[];
+  triesMin: number | null;
+  triesMax: number | null;
+  // Case-insensitive match on the call result text
+  result: string;
+  // ISO country codes
+  countries: string[];
+  // Import list names; list ids belong to one campaign, so lists are matched by name
+  listNames: string[];
+  attributes: AttributeRule[];
+}
+
+// A named set of rules, evaluated against the current campaign data whenever it is used
+export interface Segment {
+  id: string;
+  name: string;
+  rules: SegmentRules;
+  // ISO timestamps
+  createdAt: string;
+  updatedAt: string;
+}
+
+export const EMPTY_SEGMENT_RULES: SegmentRules = {
+  campaignIds: [],
+  statuses: [],
+  triesMin: null,
+  triesMax: null,
+  result: '',
+  countries: [],
+  listNames: [],
+  attributes: [],
+};
+
+export const SEGMENT_NAME_MAX_LENGTH = 80;
+
+export function validateSegmentName(name: string, segments: Segment[], exceptId?: string): string {
+  const trimmed = name.trim();
+  if (!trimmed) return 'Segment name is required';
+  if (trimmed.length > SEGMENT_NAME_MAX_LENGTH) return `Segment name must be ${SEGMENT_NAME_MAX_LENGTH} characters or less`;
+  const normalized = trimmed.toLowerCase();
+  if (segments.some(segment => segment.id !== exceptId && segment.name.trim().toLowerCase() === normalized)) {
+    return 'A segment with this name already exists';
+  }
+  return '';
+}
+
+// A segment with no rules would match every contact of every campaign
+export const hasSegmentRules = (rules: SegmentRules): boolean =>
+  rules.campaignIds.length > 0
+  || rules.statuses.length > 0
+  || rules.triesMin !== null
+  || rules.triesMax !== null
+  || rules.result.trim() !== ''
+  || rules.countries.length > 0
+  || rules.listNames.length > 0
+  || rules.attributes.some(rule => rule.key.trim() !== '');
+
+const matchesAttribute = (attributes: Record<string, string> | undefined, rule: AttributeRule): boolean => {
+  const value = attributes?.[rule.key.trim()]?.trim() ?? '';
+  const expected = rule.value.trim().toLowerCase();
+  switch (rule.operator) {
+    case 'is-set':
+      return value !== '';
+    case 'equals':
+      return value.toLowerCase() === expected;
+    case 'contains':
+      return value.toLowerCase().includes(expected);
+  }
+};
+
+// `listName` is the name of the contact's import list, if it has one
+export function matchesSegment(contact: AudienceData, listName: string | undefined, rules: SegmentRules): boolean {
+  if (rules.statuses.length > 0 && !rules.statuses.includes(contact.status)) return false;
+
+  if (rules.triesMin !== null || rules.triesMax !== null) {
+    const tries = Number.parseInt(contact.tries, 10);
+    if (Number.isNaN(tries)) return false;
+    if (rules.triesMin !== null && tries < rules.triesMin) return false;
+    if (rules.triesMax !== null && tries > rules.triesMax) return false;
+  }
+
+  const result = rules.result.trim().toLowerCase();
+  if (result && !contact.result.toLowerCase().includes(result)) return false;
+
+  if (rules.countries.length > 0 && !(contact.country && rules.countries.includes(contact.country))) return false;
+
+  if (rules.listNames.length > 0 && !(listName && rules.listNames.includes(listName))) return false;
+
+  return rules.attributes
+    .filter(rule => rule.key.trim() !== '')
+    .every(rule => matchesAttribute(contact.attributes, rule));
+}
+
+export interface SegmentMatch {
+  contact: AudienceData;
+  campaignId: string;
+}
+
+// Contacts across the campaigns that currently match the rules, in campaign order
+export function evaluateSegment(records: CampaignRecord[], rules: SegmentRules): SegmentMatch[] {
+  const campaignIds = new Set(rules.campaignIds);
+  const matches: SegmentMatch[] = [];
+
+  records.forEach(record => {
+    if (campaignIds.size > 0 && !campaignIds.has(record.campaign.id)) return;
+    const listNames = new Map(record.lists.map(list => [list.id, list.name]));
+    record.audience.forEach(contact => {
+      if (matchesSegment(contact, contact.listId && listNames.get(contact.listId), rules)) {
+        matches.push({ contact, campaignId: record.campaign.id });
+      }
+    });
+  });
+
+  return matches;
+}
+
+// Values present in the campaign data, offered as choices in the segment editor
+export interface SegmentFieldOptions {
+  countries: string[];
+  listNames: string[];
+  attributeKeys: string[];
+}
+
+export function getSegmentFieldOptions(records: CampaignRecord[]): SegmentFieldOptions {
+  const countries = new Set<string>();
+  const listNames = new Set<string>();
+  const attributeKeys = new Set<string>();
+
+  records.forEach(record => {
+    record.lists.forEach(list => listNames.add(list.name));
+    record.audience.forEach(contact => {
+      if (contact.country) countries.add(contact.country);
+      Object.keys(contact.attributes ?? {}).forEach(key => attributeKeys.add(key));
+    });
+  });
+
+  const sorted = (values: Set<string>) => Array.from(values).sort((a, b) => a.localeCompare(b));
+  return { countries: sorted(countries), listNames: sorted(listNames), attributeKeys: sorted(attributeKeys) };
+}
+
+// Short descriptions of the rules, e.g. for the segment picker
+export function describeSegmentRules(rules: SegmentRules, campaignNames: Map<string, string>): string[] {
+  const parts: string[] = [];
+
+  if (rules.campaignIds.length > 0) {
+    parts.push(`Campaigns: ${rules.campaignIds.map(id => campaignNames.get(id) ?? 'Deleted campaign').join(', ')}`);
+  }
+  if (rules.statuses.length > 0) {
+    parts.push(`Status: ${rules.statuses.join(', ')}`);
+  }
+  if (rules.triesMin !== null || rules.triesMax !== null) {
+    const label = rules.triesMin !== null && rules.triesMax !== null
+      ? `${rules.triesMin}-${rules.triesMax}`
+      : rules.triesMin !== null
+        ? `≥ ${rules.triesMin}`
+        : `≤ ${rules.triesMax}`;
+    parts.push(`Tries: ${label}`);
+  }
+  if (rules.result.trim()) {
+    parts.push(`Result contains "${rules.result.trim()}"`);
+  }
+  if (rules.countries.length > 0) {
+    parts.push(`Country: ${rules.countries.join(', ')}`);
+  }
+  if (rules.listNames.length > 0) {
+    parts.push(`List: ${rules.listNames.join(', ')}`);
+  }
+  rules.attributes
+    .filter(rule => rule.key.trim() !== '')
+    .forEach(rule => {
+      parts.push(rule.operator === 'is-set'
+        ? `${rule.key.trim()} is set`
+        : `${rule.key.trim()} ${ATTRIBUTE_OPERATOR_LABELS[rule.operator]} "${rule.value.trim()}"`);
+    });
+
+  return parts;
+}
@@ -1,15 +1,61 @@
-import React from "react";
+import React, { useSyncExternalStore } from "react";
+import { toHref, matchPath, usePathname } from "../../lib/router";
+import { useCampaignRecord, useCampaignStoreReady } from "../../lib/campaignStore";
+import { isUpgradeBlocked, subscribeToUpgradeBlocked } from "../../lib/persistence/database";
+import { ROUTES } from "./routes";
 import { AudienceTableSection } from "./sections/AudienceTableSection";
+import { CampaignsSection } from "./sections/CampaignsSection";
 import { DashboardSection } from "./sections/DashboardSection";
+import { PhonebookSection } from "./sections/PhonebookSection";
 import { StatsSection } from "./sections/StatsSection";
 
+const NotFound = ({ message }: { message: string }): JSX.Element => (
+  <section className="w-full bg-neutral-100 p-6 text-center">
+    <p className="text-sm text-gray-600">{message}</p>
+    <a href={toHref(ROUTES.campaigns)} className="text-sm text-blue-600 underline hover:text-blue-800">
+      Back to campaigns
+    </a>
+  </section>
+);
+
+const CampaignPage = ({ campaignId }: { campaignId: string }): JSX.Element => {
+  const record = useCampaignRecord(campaignId);
+  if (!record) return <NotFound message="This campaign does not exist." />;
+  // Keyed so selection, filters and dialogs start fresh for each campaign
+  return <AudienceTableSection key={campaignId} campaignId={campaignId} />;
+};
+
 export const ContainerScreen = (): JSX.Element => {
+  const pathname = usePathname();
+  const isReady = useCampaignStoreReady();
+  const isDatabaseBlocked = useSyncExternalStore(subscribeToUpgradeBlocked, isUpgradeBlocked);
+  const campaignMatch = matchPath(ROUTES.campaign, pathname);
+
+  let page: JSX.Element;
+  if (!isReady) {
+    page = (
+      <section className="w-full bg-neutral-100 p-6 text-center text-sm text-gray-500">
+        {isDatabaseBlocked
+          ? 'This app was updated. Close its other open tabs to finish loading your campaigns.'
+          : 'Loading campaigns...'}
+      </section>
+    );
+  } else if (campaignMatch) {
+    page = <CampaignPage campaignId={campaignMatch.id} />;
+  } else if (matchPath(ROUTES.campaigns, pathname)) {
+    page = <CampaignsSection />;
+  } else if (matchPath(ROUTES.phonebooks, pathname)) {
+    page = <PhonebookSection />;
+  } else {
+    page = <NotFound message="Page not found." />;
+  }
+
   return (
     <div className="bg-white flex flex-col w-full min-h-screen">
       <main className="container mx-auto py-4 flex flex-col gap-4">
         <DashboardSection />
         <StatsSection />
-        <AudienceTableSection />
+        {page}
       </main>
     </div>
   );
@@ -0,0 +1,8 @@
+// Paths of the pages rendered by ContainerScreen
+export const ROUTES = {
+  campaigns: '/campaigns',
+  campaign: '/campaigns/:id',
+  phonebooks: '/phonebooks',
+};
+
+export const campaignPath = (id: string): string => `/campaigns/${encodeURIComponent(id)}`;
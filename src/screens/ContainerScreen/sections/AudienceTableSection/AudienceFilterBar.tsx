@@ -0,0 +1,178 @@
+import React from "react";
+import { ChevronDown, Search, X } from "lucide-react";
+import { Button } from "../../../../components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuTrigger,
+} from "../../../../components/ui/dropdown-menu";
+import { AUDIENCE_STATUSES, AudienceStatus } from "../../../../lib/audience";
+import { AudienceFilters, FilterChipKey, clearFilter, getFilterChips } from "./filterAudience";
+
+interface AudienceFilterBarProps {
+  filters: AudienceFilters;
+  statusCounts: Record<AudienceStatus, number>;
+  onFiltersChange: (filters: AudienceFilters) => void;
+  onReset: () => void;
+}
+
+const inputClassName =
+  "h-8 px-2 text-xs border border-gray-200 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500";
+
+// Empty input clears the bound; negative values are clamped to 0
+const parseTriesInput = (value: string): number | null => {
+  if (value.trim() === '') return null;
+  const parsed = Number.parseInt(value, 10);
+  return Number.isNaN(parsed) ? null : Math.max(0, parsed);
+};
+
+export const AudienceFilterBar: React.FC<AudienceFilterBarProps> = ({
+  filters,
+  statusCounts,
+  onFiltersChange,
+  onReset,
+}) => {
+  const chips = getFilterChips(filters);
+
+  const update = (patch: Partial<AudienceFilters>) => {
+    onFiltersChange({ ...filters, ...patch });
+  };
+
+  const toggleStatus = (status: AudienceStatus) => {
+    update({
+      statuses: filters.statuses.includes(status)
+        ? filters.statuses.filter(item => item !== status)
+        : [...filters.statuses, status],
+    });
+  };
+
+  const removeChip = (key: FilterChipKey) => {
+    onFiltersChange(clearFilter(filters, key));
+  };
+
+  return (
+    <div className="px-6 py-3 border-b border-gray-200 space-y-2">
+      <div className="flex flex-wrap items-center gap-3">
+        {/* Free-text search */}
+        <div className="relative">
+          <Search className="absolute left-2 top-1/2 -translate-y-1/2 h-3.5 w-3.5 text-gray-400" />
+          <input
+            type="search"
+            value={filters.search}
+            onChange={(e) => update({ search: e.target.value })}
+            placeholder="Search name, phone or ID"
+            aria-label="Search contacts"
+            className={`${inputClassName} w-56 pl-7`}
+          />
+        </div>
+
+        {/* Status facet */}
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" className="h-8 text-xs gap-1">
+              Status
+              {filters.statuses.length > 0 && (
+                <span className="inline-flex items-center px-1.5 rounded-full text-[10px] font-medium bg-blue-100 text-blue-800">
+                  {filters.statuses.length}
+                </span>
+              )}
+              <ChevronDown className="h-3 w-3 text-gray-500" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start" className="min-w-[180px]">
+            {AUDIENCE_STATUSES.map((status) => (
+              <DropdownMenuCheckboxItem
+                key={status}
+                checked={filters.statuses.includes(status)}
+                onCheckedChange={() => toggleStatus(status)}
+                onSelect={(e) => e.preventDefault()}
+                className="text-xs"
+              >
+                <span className="flex-1">{status}</span>
+                <span className="ml-4 text-gray-500">{statusCounts[status]}</span>
+              </DropdownMenuCheckboxItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+
+        {/* Tries range */}
+        <div className="flex items-center gap-1 text-xs text-gray-600">
+          <span>Tries</span>
+          <input
+            type="number"
+            min={0}
+            value={filters.triesMin ?? ''}
+            onChange={(e) => update({ triesMin: parseTriesInput(e.target.value) })}
+            placeholder="Min"
+            aria-label="Minimum number of tries"
+            className={`${inputClassName} w-16`}
+          />
+          <span>–</span>
+          <input
+            type="number"
+            min={0}
+            value={filters.triesMax ?? ''}
+            onChange={(e) => update({ triesMax: parseTriesInput(e.target.value) })}
+            placeholder="Max"
+            aria-label="Maximum number of tries"
+            className={`${inputClassName} w-16`}
+          />
+        </div>
+
+        {/* Created-at range */}
+        <div className="flex items-center gap-1 text-xs text-gray-600">
+          <span>Created</span>
+          <input
+            type="date"
+            value={filters.createdFrom}
+            max={filters.createdTo || undefined}
+            onChange={(e) => update({ createdFrom: e.target.value })}
+            aria-label="Created from"
+            className={inputClassName}
+          />
+          <span>–</span>
+          <input
+            type="date"
+            value={filters.createdTo}
+            min={filters.createdFrom || undefined}
+            onChange={(e) => update({ createdTo: e.target.value })}
+            aria-label="Created until"
+            className={inputClassName}
+          />
+        </div>
+      </div>
+
+      {/* Active filter chips */}
+      {chips.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          {chips.map((chip) => (
+            <span
+              key={chip.key}
+              className="inline-flex items-center gap-1 pl-2 pr-1 py-0.5 rounded-full text-xs font-medium bg-blue-50 text-blue-700 border border-blue-200"
+            >
+              {chip.label}
+              <button
+                type="button"
+                onClick={() => removeChip(chip.key)}
+                className="rounded-full p-0.5 hover:bg-blue-100"
+                aria-label={`Remove filter ${chip.label}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </span>
+          ))}
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={onReset}
+            className="h-6 px-2 text-xs text-blue-600 hover:text-blue-700 hover:bg-blue-50"
+          >
+            Clear all
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,139 @@
+import React, { useState } from "react";
+import { FileText, RefreshCw, Trash2 } from "lucide-react";
+import { Button } from "../../../../components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "../../../../components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "../../../../components/ui/table";
+import { AudienceList, formatCreatedAt } from "../../../../lib/audience";
+
+interface AudienceListsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  campaignName: string;
+  lists: AudienceList[];
+  contactCounts: Record<string, number>;
+  onRemoveList: (list: AudienceList) => void;
+  onReimportList: (list: AudienceList) => void;
+}
+
+export const AudienceListsDialog: React.FC<AudienceListsDialogProps> = ({
+  open,
+  onOpenChange,
+  campaignName,
+  lists,
+  contactCounts,
+  onRemoveList,
+  onReimportList,
+}) => {
+  // Removing a list deletes its contacts, so ask for confirmation inline
+  const [pendingRemoveId, setPendingRemoveId] = useState<string | null>(null);
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (!isOpen) setPendingRemoveId(null);
+    onOpenChange(isOpen);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="text-lg font-semibold">Imported Lists</DialogTitle>
+          <p className="text-sm text-gray-600 mt-1">
+            Lists imported into the <span className="font-medium text-gray-800">{campaignName}</span> campaign
+          </p>
+        </DialogHeader>
+
+        {lists.length === 0 ? (
+          <div className="py-8 text-center text-sm text-gray-500">
+            No lists imported yet. Upload a file from Import Audience to create one.
+          </div>
+        ) : (
+          <div className="border border-gray-200 rounded-lg overflow-hidden">
+            <Table>
+              <TableHeader className="bg-neutral-50">
+                <TableRow>
+                  <TableHead className="font-semibold text-xs text-[#000000e0]">List</TableHead>
+                  <TableHead className="font-semibold text-xs text-[#000000e0]">Source file</TableHead>
+                  <TableHead className="font-semibold text-xs text-[#000000e0]">Contacts</TableHead>
+                  <TableHead className="font-semibold text-xs text-[#000000e0]">Imported at</TableHead>
+                  <TableHead className="font-semibold text-xs text-[#000000e0] text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {lists.map((list) => (
+                  <TableRow key={list.id}>
+                    <TableCell className="text-xs font-medium text-[#000000e0]">{list.name}</TableCell>
+                    <TableCell className="text-xs text-gray-600">
+                      {list.sourceFileName ? (
+                        <span className="inline-flex items-center gap-1">
+                          <FileText className="h-3.5 w-3.5 text-gray-400" />
+                          {list.sourceFileName}
+                        </span>
+                      ) : '—'}
+                    </TableCell>
+                    <TableCell className="text-xs text-[#000000e0]">{contactCounts[list.id] ?? 0}</TableCell>
+                    <TableCell className="text-xs text-[#000000e0]">{formatCreatedAt(new Date(list.importedAt))}</TableCell>
+                    <TableCell className="text-xs text-right">
+                      {pendingRemoveId === list.id ? (
+                        <div className="inline-flex items-center gap-2">
+                          <span className="text-red-600">Remove list and its contacts?</span>
+                          <Button variant="outline" size="sm" className="h-7" onClick={() => setPendingRemoveId(null)}>
+                            Cancel
+                          </Button>
+                          <Button
+                            variant="destructive"
+                            size="sm"
+                            className="h-7 bg-red-600 hover:bg-red-700"
+                            onClick={() => {
+                              setPendingRemoveId(null);
+                              onRemoveList(list);
+                            }}
+                          >
+                            Remove
+                          </Button>
+                        </div>
+                      ) : (
+                        <div className="inline-flex items-center gap-1">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-7 text-blue-600 hover:text-blue-700 hover:bg-blue-50"
+                            onClick={() => onReimportList(list)}
+                            title="Replace this list's contacts with a new file"
+                          >
+                            <RefreshCw className="h-3.5 w-3.5" />
+                            Re-import
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-7 text-red-600 hover:text-red-700 hover:bg-red-50"
+                            onClick={() => setPendingRemoveId(list.id)}
+                          >
+                            <Trash2 className="h-3.5 w-3.5" />
+                            Remove
+                          </Button>
+                        </div>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
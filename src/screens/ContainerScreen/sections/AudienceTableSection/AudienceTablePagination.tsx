@@ -0,0 +1,144 @@
+import React from "react";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "../../../../components/ui/pagination";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../../../../components/ui/select";
+
+export const PAGE_SIZE_OPTIONS = [10, 20, 50, 100] as const;
+
+type PageItem = number | 'ellipsis-start' | 'ellipsis-end';
+
+// Build the list of page buttons, collapsing long ranges into ellipses.
+// Always shows the first and last page plus `siblings` pages around the current one,
+// and keeps the same number of slots so the control doesn't jump while paging.
+export const getPageItems = (currentPage: number, totalPages: number, siblings = 1): PageItem[] => {
+  const range = (from: number, to: number) =>
+    Array.from({ length: to - from + 1 }, (_, i) => from + i);
+
+  // first + last + current + siblings on both sides + two ellipsis slots
+  const maxVisible = siblings * 2 + 5;
+  if (totalPages <= maxVisible) {
+    return range(1, totalPages);
+  }
+
+  const edgeCount = siblings * 2 + 3;
+  if (currentPage <= siblings + 3) {
+    return [...range(1, edgeCount), 'ellipsis-end', totalPages];
+  }
+  if (currentPage >= totalPages - siblings - 2) {
+    return [1, 'ellipsis-start', ...range(totalPages - edgeCount + 1, totalPages)];
+  }
+
+  return [
+    1,
+    'ellipsis-start',
+    ...range(currentPage - siblings, currentPage + siblings),
+    'ellipsis-end',
+    totalPages,
+  ];
+};
+
+interface AudienceTablePaginationProps {
+  currentPage: number;
+  pageSize: number;
+  totalItems: number;
+  onPageChange: (page: number) => void;
+  onPageSizeChange: (pageSize: number) => void;
+}
+
+export const AudienceTablePagination: React.FC<AudienceTablePaginationProps> = ({
+  currentPage,
+  pageSize,
+  totalItems,
+  onPageChange,
+  onPageSizeChange,
+}) => {
+  const totalPages = Math.max(1, Math.ceil(totalItems / pageSize));
+  const rangeStart = totalItems === 0 ? 0 : (currentPage - 1) * pageSize + 1;
+  const rangeEnd = Math.min(currentPage * pageSize, totalItems);
+  const isFirstPage = currentPage <= 1;
+  const isLastPage = currentPage >= totalPages;
+
+  const goToPage = (page: number) => (e: React.MouseEvent) => {
+    e.preventDefault();
+    if (page < 1 || page > totalPages || page === currentPage) return;
+    onPageChange(page);
+  };
+
+  return (
+    <div className="flex justify-end items-center p-2 border-t">
+      <div className="flex items-center gap-4">
+        <span className="text-xs text-[#000000e0]">
+          • Showing {rangeStart}-{rangeEnd} of {totalItems} items
+        </span>
+
+        <Pagination>
+          <PaginationContent>
+            <PaginationItem>
+              <PaginationPrevious
+                href="#"
+                className={`h-8 px-2 ${isFirstPage ? 'pointer-events-none opacity-50' : ''}`}
+                aria-disabled={isFirstPage}
+                tabIndex={isFirstPage ? -1 : undefined}
+                onClick={goToPage(currentPage - 1)}
+              />
+            </PaginationItem>
+            {getPageItems(currentPage, totalPages).map((item) => (
+              <PaginationItem key={item}>
+                {typeof item === 'number' ? (
+                  <PaginationLink
+                    href="#"
+                    className="h-8 w-8 p-0 text-xs"
+                    isActive={item === currentPage}
+                    onClick={goToPage(item)}
+                  >
+                    {item}
+                  </PaginationLink>
+                ) : (
+                  <PaginationEllipsis className="h-8 w-8" />
+                )}
+              </PaginationItem>
+            ))}
+            <PaginationItem>
+              <PaginationNext
+                href="#"
+                className={`h-8 px-2 ${isLastPage ? 'pointer-events-none opacity-50' : ''}`}
+                aria-disabled={isLastPage}
+                tabIndex={isLastPage ? -1 : undefined}
+                onClick={goToPage(currentPage + 1)}
+              />
+            </PaginationItem>
+          </PaginationContent>
+        </Pagination>
+
+        <Select
+          value={pageSize.toString()}
+          onValueChange={(value) => onPageSizeChange(Number(value))}
+        >
+          <SelectTrigger className="w-[110px] h-8">
+            <SelectValue placeholder={`${pageSize} / page`} />
+          </SelectTrigger>
+          <SelectContent>
+            {PAGE_SIZE_OPTIONS.map((size) => (
+              <SelectItem key={size} value={size.toString()}>
+                {size} / page
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+};
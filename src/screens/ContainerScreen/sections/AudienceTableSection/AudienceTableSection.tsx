@@ -8,14 +8,6 @@ import {
   DialogTitle,
   DialogTrigger,
 } from "../../../../components/ui/dialog";
-import {
-  Pagination,
-  PaginationContent,
-  PaginationItem,
-  PaginationLink,
-  PaginationNext,
-  PaginationPrevious,
-} from "../../../../components/ui/pagination";
 import {
   Select,
   SelectContent,
@@ -37,74 +29,168 @@ import {
   DropdownMenuContent,
   DropdownMenuTrigger,
   DropdownMenuItem,
+  DropdownMenuSeparator,
 } from "../../../../components/ui/dropdown-menu";
 import { Checkbox } from "../../../../components/ui/checkbox";
-import * as XLSX from 'xlsx';
 import toast from 'react-hot-toast';
+import {
+  ApiError,
+  BulkFailure,
+  BulkProgress,
+  ContactResult,
+  PhonebookSummary,
+  RequestOptions,
+  api,
+  getApiErrorMessage,
+  isAbortError,
+  runInBatches,
+} from "../../../../lib/api";
+import { AudienceData, AudienceList, AudienceStatus, formatCreatedAt } from "../../../../lib/audience";
+import { CONCURRENCY_OPTIONS, Campaign } from "../../../../lib/campaign";
+import { useCampaignField, useCampaignRecord } from "../../../../lib/campaignStore";
+import {
+  CONTACT_TRANSITIONS,
+  ContactEvent,
+  InvalidTransitionError,
+  canTransition,
+  getTransitionError,
+  isAwaitingCall,
+  isOnCall,
+  transitionContact,
+} from "../../../../lib/contactStatus";
+import { getSuppressedPhones } from "../../../../lib/dnc";
+import { dncStore, useDncEntries } from "../../../../lib/dncStore";
+import { generateId } from "../../../../lib/ids";
+import { toHref } from "../../../../lib/router";
+import { ROUTES } from "../../routes";
+import {
+  ColumnRole,
+  MappedRow,
+  ParsedSheet,
+  applyColumnMapping,
+  detectColumnMapping,
+  validateColumnMapping,
+} from "../../../../lib/import/columnMapping";
+import {
+  ImportCancelledError,
+  ImportJob,
+  ImportProgress,
+  parseSpreadsheetInWorker,
+  validateContactsInWorker,
+} from "../../../../lib/import/importWorkerClient";
+import { getNextCallable } from "../../../../lib/dialer/callingSchedule";
+import { isWaitingForRetry } from "../../../../lib/dialer/dialerEngine";
+import {
+  DUPLICATE_POLICY_LABELS,
+  DuplicatePolicy,
+  getExistingPhones,
+  mergeIntoAudience,
+} from "../../../../lib/import/mergeContacts";
+import { getSpreadsheetFileError } from "../../../../lib/import/parseFile";
+import {
+  PhonebookFetchProgress,
+  PhonebookImportPreview,
+  buildPhonebookImport,
+  fetchPhonebookContacts,
+} from "../../../../lib/import/phonebookImport";
+import { SegmentImportPreview } from "../../../../lib/import/segmentImport";
+import {
+  ContactValidationResult,
+  ImportSummary,
+  ValidationError,
+  ValidationField,
+} from "../../../../lib/import/validateContacts";
+import { COUNTRY_PHONE_PLANS, DEFAULT_COUNTRY } from "../../../../lib/phone/countries";
+import { PHONE_NUMBER_TYPE_LABELS } from "../../../../lib/phone/normalizePhone";
+import { Segment } from "../../../../lib/segments";
+import { CallingScheduleDialog } from "./CallingScheduleDialog";
+import { ColumnMappingStep } from "./ColumnMappingStep";
+import { AudienceFilterBar } from "./AudienceFilterBar";
+import { AudienceListsDialog } from "./AudienceListsDialog";
+import { CallLogDrawer } from "./CallLogDrawer";
+import { EditCampaignDialog } from "./EditCampaignDialog";
+import { AudienceTablePagination } from "./AudienceTablePagination";
+import { ExportDialog } from "./ExportDialog";
+import { ImportProgressBar } from "./ImportProgressBar";
+import {
+  BULK_ACTION_COPY,
+  BulkActionDialog,
+  BulkActionResult,
+  DialogBulkAction,
+  NEW_LIST_OPTION,
+} from "./BulkActionDialog";
+import { BatchedBulkAction, applyBulkResult, summarizeBulkAction } from "./bulkActions";
+import { ImportReportDialog } from "./ImportReportDialog";
+import { PhonebookImportStep } from "./PhonebookImportStep";
+import { SegmentImportStep } from "./SegmentImportStep";
+import { RetryPolicyDialog } from "./RetryPolicyDialog";
+import { exportAudience } from "./exportAudience";
+import {
+  AudienceFilters,
+  EMPTY_AUDIENCE_FILTERS,
+  countByStatus,
+  filterAudience,
+  getFilterChips,
+} from "./filterAudience";
+import { SortableTableHead } from "./SortableTableHead";
+import { SortDescriptor, SortKey, sortAudience, toggleSort } from "./sortAudience";
+import { useCampaignDialer } from "./useCampaignDialer";
 import { 
-  AlertCircle, 
   CheckCircle2, 
   X, 
   Play, 
   Pause, 
   Upload, 
-  Users, 
   Loader2,
-  AlertTriangle,
   MoreVertical,
   Phone,
   PhoneOff,
   Edit,
-  StopCircle
+  StopCircle,
+  FileText,
+  List,
+  RotateCcw,
+  Trash2,
+  Clock,
+  ArrowLeft,
+  Ban
 } from "lucide-react";
 
 // Enhanced interfaces with better type safety
-interface AudienceData {
-  identifier: string;
-  name: string;
-  phone: string;
-  createdAt: string;
-  status: 'Pending' | 'Serviced' | 'Stopped' | 'Failed';
-  tries: string;
-  result: string;
-}
-
 interface ContactAction {
   id: string;
   label: string;
   icon: React.ComponentType<{ className?: string }>;
   variant: 'call' | 'stop' | 'resume';
   color: string;
+  // Offered only when the contact state machine allows this event from the contact's status
+  event: ContactEvent;
 }
 
-interface ValidationError {
-  row: number;
-  field: string;
-  value: string;
-  error: string;
-  suggestion?: string;
-}
-
-interface ImportSummary {
-  totalRows: number;
-  validRows: number;
-  invalidRows: number;
-  duplicatesRemoved: number;
-  timestamp: string;
-}
-
-interface PhonebookList {
-  id: string;
-  name: string;
-  contactCount: number;
-}
+const CONTACT_ACTIONS: ContactAction[] = [
+  { id: 'call', label: 'Call Contact', icon: Phone, variant: 'call', color: 'text-green-600', event: 'dial' },
+  { id: 'resume', label: 'Resume Contact', icon: Phone, variant: 'resume', color: 'text-green-600', event: 'resume' },
+  { id: 'stop', label: 'Stop Contact', icon: StopCircle, variant: 'stop', color: 'text-red-600', event: 'stop' },
+];
+
+const STATUS_BADGE_CLASSES: Record<AudienceStatus, string> = {
+  'Pending': 'bg-yellow-100 text-yellow-800',
+  'Scheduled': 'bg-amber-50 text-amber-700 border border-amber-200',
+  'Dialing': 'bg-blue-100 text-blue-800',
+  'In Call': 'bg-indigo-100 text-indigo-800',
+  'Serviced': 'bg-green-100 text-green-800',
+  'Failed': 'bg-gray-100 text-gray-800',
+  'Stopped': 'bg-red-100 text-red-800',
+  'Suppressed': 'bg-gray-900 text-white',
+  'Invalid': 'bg-orange-100 text-orange-800',
+};
 
 // Enhanced Actions Menu Component with proper error handling and accessibility
 interface ActionsMenuProps {
   contact: AudienceData;
   isOpen: boolean;
   onOpenChange: (open: boolean) => void;
-  onCallContact: (contactName: string) => Promise<void>;
+  onCallContact: (contact: AudienceData) => Promise<void>;
   onStopContact: (contact: AudienceData) => Promise<void>;
   onResumeContact: (contact: AudienceData) => Promise<void>;
   isActionInProgress: boolean;
@@ -119,40 +205,7 @@ const ActionsMenu: React.FC<ActionsMenuProps> = ({
   onResumeContact,
   isActionInProgress,
 }) => {
-  // Generate available actions based on contact status
-  const getAvailableActions = (contact: AudienceData): ContactAction[] => {
-    const baseActions: ContactAction[] = [
-      {
-        id: 'call',
-        label: 'Call Contact',
-        icon: Phone,
-        variant: 'call',
-        color: 'text-green-600',
-      },
-    ];
-
-    if (contact.status === "Stopped") {
-      baseActions.push({
-        id: 'resume',
-        label: 'Resume Contact',
-        icon: Phone,
-        variant: 'resume',
-        color: 'text-green-600',
-      });
-    } else {
-      baseActions.push({
-        id: 'stop',
-        label: 'Stop Contact',
-        icon: StopCircle,
-        variant: 'stop',
-        color: 'text-red-600',
-      });
-    }
-
-    return baseActions;
-  };
-
-  const availableActions = getAvailableActions(contact);
+  const availableActions = CONTACT_ACTIONS.filter(action => canTransition(contact.status, action.event));
 
   // Enhanced action handler with proper error handling
   const handleActionClick = async (action: ContactAction, e: React.MouseEvent) => {
@@ -170,7 +223,7 @@ const ActionsMenu: React.FC<ActionsMenuProps> = ({
       // Execute action based on variant
       switch (action.variant) {
         case 'call':
-          await onCallContact(contact.name);
+          await onCallContact(contact);
           break;
         case 'stop':
           await onStopContact(contact);
@@ -182,8 +235,8 @@ const ActionsMenu: React.FC<ActionsMenuProps> = ({
           console.warn(`Unknown action variant: ${action.variant}`);
       }
     } catch (error) {
+      // The handlers report failures to the user themselves
       console.error(`Error executing action ${action.variant}:`, error);
-      toast.error(`Failed to ${action.variant} contact. Please try again.`);
     }
   };
 
@@ -250,62 +303,159 @@ const ActionsMenu: React.FC<ActionsMenuProps> = ({
             </DropdownMenuItem>
           );
         })}
+        {availableActions.length === 0 && (
+          <DropdownMenuItem disabled className="text-sm text-gray-500">
+            No actions for {contact.status} contacts
+          </DropdownMenuItem>
+        )}
       </DropdownMenuContent>
     </DropdownMenu>
   );
 };
 
-export const AudienceTableSection = (): JSX.Element => {
+// Bulk endpoints report per-contact failures in the response body rather than as an HTTP error
+const assertContactUpdated = (results: ContactResult[], contactId: string) => {
+  const result = results.find(item => item.contactId === contactId);
+  if (!result?.ok) {
+    throw new ApiError('validation', result?.error ?? 'The contact was not updated', 422);
+  }
+};
+
+// How long a bulk delete can be undone before it's sent to the server
+const UNDO_DELETE_MS = 8000;
+
+// Where the Import Audience dialog takes contacts from
+type ImportOption = 'phonebook' | 'file' | 'segment';
+
+interface AudienceTableSectionProps {
+  campaignId: string;
+}
+
+export const AudienceTableSection = ({ campaignId }: AudienceTableSectionProps): JSX.Element => {
   // Refs
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const importJobRef = useRef<ImportJob<unknown> | null>(null);
+  // Aborted on unmount so pending API requests don't update a campaign that is no longer shown
+  const requestScopeRef = useRef<AbortController | null>(null);
   
   // State management with better organization
-  const [isPlaying, setIsPlaying] = useState(false);
+  // Campaign settings; the dialer, header and dialogs all read from here
+  const [campaign, setCampaign] = useCampaignField(campaignId, 'campaign');
+  const isArchived = !!useCampaignRecord(campaignId)?.archivedAt;
+  const [showEditCampaignDialog, setShowEditCampaignDialog] = useState(false);
+  const [showRetryPolicyDialog, setShowRetryPolicyDialog] = useState(false);
+  const [showScheduleDialog, setShowScheduleDialog] = useState(false);
+  // Refreshed periodically so window and retry times in the UI don't go stale
+  const [now, setNow] = useState(() => Date.now());
   const [showImportModal, setShowImportModal] = useState(false);
   const [showErrorModal, setShowErrorModal] = useState(false);
-  const [importOption, setImportOption] = useState<'phonebook' | 'file' | null>(null);
-  const [selectedPhonebooks, setSelectedPhonebooks] = useState<string[]>([]);
+  const [importOption, setImportOption] = useState<ImportOption | null>(null);
+  const [selectedPhonebooks, setSelectedPhonebooks] = useState<PhonebookSummary[]>([]);
+  const [phonebookProgress, setPhonebookProgress] = useState<PhonebookFetchProgress | null>(null);
+  const [phonebookPreview, setPhonebookPreview] = useState<PhonebookImportPreview | null>(null);
+  const phonebookFetchRef = useRef<AbortController | null>(null);
+  const [selectedSegment, setSelectedSegment] = useState<Segment | null>(null);
+  const [segmentPreview, setSegmentPreview] = useState<SegmentImportPreview | null>(null);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [parsedSheet, setParsedSheet] = useState<ParsedSheet | null>(null);
+  const [columnRoles, setColumnRoles] = useState<ColumnRole[]>([]);
+  // Country used to read national-format numbers (e.g. 0791234567) during imports
+  const [defaultCountry, setDefaultCountry] = useState<string>(DEFAULT_COUNTRY);
+  const [duplicatePolicy, setDuplicatePolicy] = useState<DuplicatePolicy>('skip');
   const [listName, setListName] = useState<string>('');
   const [listNameError, setListNameError] = useState<string>('');
+  // Set when re-running an existing list: its contacts are replaced by the new file
+  const [reimportListId, setReimportListId] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  // Progress of the worker currently parsing or validating the file, null when idle
+  const [importProgress, setImportProgress] = useState<ImportProgress | null>(null);
   const [isDragOver, setIsDragOver] = useState(false);
-  const [isPhonebookDropdownOpen, setIsPhonebookDropdownOpen] = useState(false);
   
   // Actions dropdown state with better management
   const [openActionDropdown, setOpenActionDropdown] = useState<string | null>(null);
   const [actionInProgress, setActionInProgress] = useState<string | null>(null);
   const [bulkActionInProgress, setBulkActionInProgress] = useState<string | null>(null);
-  const [showBulkStopConfirm, setShowBulkStopConfirm] = useState(false);
+  // Bulk action whose dialog is open
+  const [bulkAction, setBulkAction] = useState<DialogBulkAction | null>(null);
+  const [bulkProgress, setBulkProgress] = useState<BulkProgress | null>(null);
+  const [bulkResult, setBulkResult] = useState<BulkActionResult | null>(null);
+  const [moveListId, setMoveListId] = useState<string>(NEW_LIST_OPTION);
+  const [newListName, setNewListName] = useState('');
+  const [newListNameError, setNewListNameError] = useState('');
+  const bulkControllerRef = useRef<AbortController | null>(null);
+  const [showExportDialog, setShowExportDialog] = useState(false);
+  const [showListsDialog, setShowListsDialog] = useState(false);
   
   // Checklist column state management
   const [selectedRows, setSelectedRows] = useState<Set<string>>(new Set());
+
+  // Pagination state
+  const [currentPage, setCurrentPage] = useState(1);
+  const [pageSize, setPageSize] = useState(10);
+
+  // Sorting state, ordered by precedence (shift-click appends a column)
+  const [sort, setSort] = useState<SortDescriptor[]>([]);
+
+  // Filter bar state
+  const [filters, setFilters] = useState<AudienceFilters>(EMPTY_AUDIENCE_FILTERS);
   
   // Data state
-  const [audienceData, setAudienceData] = useState<AudienceData[]>([
-    {
-      identifier: "2e6f1",
-      name: "tahani",
-      phone: "962770535853",
-      createdAt: "May 27, 2025 . 04:38 PM",
-      status: "Serviced",
-      tries: "1",
-      result: "",
-    },
-    {
-      identifier: "2e6f2", // Fixed: Made identifier unique
-      name: "Noor",
-      phone: "962799235768",
-      createdAt: "May 27, 2025 . 02:29 PM",
-      status: "Serviced",
-      tries: "1",
-      result: "",
-    },
-  ]);
+  const [audienceData, setAudienceData] = useCampaignField(campaignId, 'audience');
+
+  // Named lists imported into this campaign; contacts reference them by listId
+  const [audienceLists, setAudienceLists] = useCampaignField(campaignId, 'lists');
+
+  // Every dial attempt in this campaign, oldest first; linked to contacts by identifier
+  const [callAttempts] = useCampaignField(campaignId, 'callAttempts');
+  const [callLogContactId, setCallLogContactId] = useState<string | null>(null);
 
   const [validationErrors, setValidationErrors] = useState<ValidationError[]>([]);
   const [importSummary, setImportSummary] = useState<ImportSummary | null>(null);
   const [validRows, setValidRows] = useState<AudienceData[]>([]);
+  // Mapped file rows kept for the validation report so invalid values can be fixed inline
+  const [reviewRows, setReviewRows] = useState<MappedRow[]>([]);
+  const [reviewDirty, setReviewDirty] = useState(false);
+
+  // Phones of the contacts an import is matched against; a re-imported list is replaced, so it doesn't count
+  const existingPhones = React.useMemo(() => getExistingPhones(
+    reimportListId ? audienceData.filter(contact => contact.listId !== reimportListId) : audienceData,
+  ), [audienceData, reimportListId]);
+
+  // Numbers on the do-not-call list right now; refreshed with `now` so entries expire on screen
+  const dncEntries = useDncEntries();
+  const suppressedPhones = React.useMemo(() => getSuppressedPhones(dncEntries, now), [dncEntries, now]);
+
+  const dialer = useCampaignDialer(campaign);
+  const isPlaying = dialer.state === 'running';
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 30 * 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // With no calls in flight, find out when the dialer could next call someone: now, once a
+  // calling window opens or once a retry wait ends. Skipped during calls because it walks the
+  // whole audience.
+  const nextCallable = React.useMemo(() => (
+    dialer.activeCallIds.length === 0 && dialer.state !== 'pausing'
+      ? getNextCallable(campaign.schedule, audienceData, now)
+      : null
+  ), [dialer.state, dialer.activeCallIds.length, campaign.schedule, audienceData, now]);
+  const hasPendingContacts = React.useMemo(
+    () => audienceData.some(contact => isAwaitingCall(contact.status)),
+    [audienceData],
+  );
+  const isWaiting = isPlaying && dialer.activeCallIds.length === 0 && hasPendingContacts
+    && (nextCallable === null || nextCallable.at > now);
+  // When calling resumes, for the waiting and paused states
+  const nextActiveLabel = nextCallable === null
+    ? 'no upcoming calling window'
+    : nextCallable.at <= now
+      ? 'within calling hours now'
+      : `${nextCallable.isRetry ? 'next retry' : 'next window'} at ${formatCreatedAt(new Date(nextCallable.at))}`;
+
+  // Stop a running import worker when the screen unmounts
+  useEffect(() => () => importJobRef.current?.cancel(), []);
 
   // Enhanced click outside handler for better UX
   useEffect(() => {
@@ -315,18 +465,13 @@ export const AudienceTableSection = (): JSX.Element => {
       if (openActionDropdown && !target?.closest('[data-radix-popper-content-wrapper]')) {
         setOpenActionDropdown(null);
       }
-      
-      // Close phonebook dropdown when clicking outside
-      if (isPhonebookDropdownOpen && !target?.closest('.phonebook-dropdown-container')) {
-        setIsPhonebookDropdownOpen(false);
-      }
     };
 
     document.addEventListener('mousedown', handleClickOutside);
     return () => {
       document.removeEventListener('mousedown', handleClickOutside);
     };
-  }, [openActionDropdown, isPhonebookDropdownOpen]);
+  }, [openActionDropdown]);
 
   // Enhanced keyboard navigation
   useEffect(() => {
@@ -335,9 +480,6 @@ export const AudienceTableSection = (): JSX.Element => {
         if (openActionDropdown) {
           setOpenActionDropdown(null);
         }
-        if (isPhonebookDropdownOpen) {
-          setIsPhonebookDropdownOpen(false);
-        }
       }
     };
 
@@ -345,113 +487,138 @@ export const AudienceTableSection = (): JSX.Element => {
     return () => {
       document.removeEventListener('keydown', handleKeyDown);
     };
-  }, [openActionDropdown, isPhonebookDropdownOpen]);
+  }, [openActionDropdown]);
+
+  // Optimistically move the latest version of a contact through the machine, touching only its
+  // status; returns the status it left, or null when that status no longer allows the event
+  const applyContactEvent = useCallback((contactId: string, event: ContactEvent): AudienceStatus | null => {
+    const previous: AudienceStatus[] = [];
+    setAudienceData(prevData =>
+      prevData.map(item => {
+        if (item.identifier !== contactId || !canTransition(item.status, event)) return item;
+        previous.push(item.status);
+        return transitionContact(item, event);
+      })
+    );
+    return previous[0] ?? null;
+  }, [setAudienceData]);
+
+  // Undo applyContactEvent, unless something (e.g. the dialer) has changed the status since
+  const revertContactEvent = useCallback((contactId: string, event: ContactEvent, previousStatus: AudienceStatus) => {
+    setAudienceData(prevData =>
+      prevData.map(item =>
+        item.identifier === contactId && item.status === CONTACT_TRANSITIONS[event].to
+          ? { ...item, status: previousStatus }
+          : item
+      )
+    );
+  }, [setAudienceData]);
 
   // Enhanced contact action handlers with better error handling and optimistic updates
   const handleStopContact = useCallback(async (contact: AudienceData): Promise<void> => {
     if (actionInProgress === contact.identifier) return; // Prevent multiple simultaneous actions
+    const transitionError = getTransitionError(contact.status, 'stop');
+    if (transitionError) {
+      toast.error(transitionError);
+      return;
+    }
     
+    // Optimistic update for immediate UI feedback
+    const previousStatus = applyContactEvent(contact.identifier, 'stop');
+    if (!previousStatus) {
+      toast.error(`${contact.name} changed status meanwhile and can't be stopped`);
+      return;
+    }
+
     setActionInProgress(contact.identifier);
-    const originalContact = { ...contact };
-    
     try {
-      // Optimistic update for immediate UI feedback
-      const updatedContact: AudienceData = { ...contact, status: "Stopped" };
-      
-      setAudienceData(prevData => 
-        prevData.map(item => 
-          item.identifier === contact.identifier ? updatedContact : item
-        )
+      const { results } = await api.audience.stopContacts(
+        { campaignId, contactIds: [contact.identifier] },
+        { signal: requestScopeRef.current?.signal },
       );
-      
-      // Simulate API call with proper error handling
-      await new Promise((resolve, reject) => {
-        setTimeout(() => {
-          // Simulate occasional failures for testing
-          if (Math.random() > 0.9) {
-            reject(new Error('Network error'));
-          } else {
-            resolve(undefined);
-          }
-        }, 500);
-      });
+      assertContactUpdated(results, contact.identifier);
       
       toast.success(`Contact ${contact.name} has been stopped`);
     } catch (error) {
       // Revert optimistic update on error
-      setAudienceData(prevData => 
-        prevData.map(item => 
-          item.identifier === contact.identifier ? originalContact : item
-        )
-      );
+      revertContactEvent(contact.identifier, 'stop', previousStatus);
       
+      if (isAbortError(error)) return;
       console.error('Error updating contact status:', error);
-      toast.error(`Failed to stop contact for ${contact.name}. Please try again.`);
+      toast.error(getApiErrorMessage(error, `Failed to stop ${contact.name}`));
       throw error; // Re-throw to handle in ActionsMenu
     } finally {
       setActionInProgress(null);
     }
-  }, [actionInProgress]);
+  }, [actionInProgress, campaignId, applyContactEvent, revertContactEvent]);
 
   const handleResumeContact = useCallback(async (contact: AudienceData): Promise<void> => {
     if (actionInProgress === contact.identifier) return; // Prevent multiple simultaneous actions
+    const transitionError = getTransitionError(contact.status, 'resume');
+    if (transitionError) {
+      toast.error(transitionError);
+      return;
+    }
+    const suppression = dncStore.getSuppression(contact.phone);
+    if (suppression) {
+      toast.error(`${contact.name} is on the do-not-call list (${suppression.reason}) and can't be resumed`);
+      return;
+    }
     
+    // Optimistic update for immediate UI feedback
+    const previousStatus = applyContactEvent(contact.identifier, 'resume');
+    if (!previousStatus) {
+      toast.error(`${contact.name} changed status meanwhile and can't be resumed`);
+      return;
+    }
+
     setActionInProgress(contact.identifier);
-    const originalContact = { ...contact };
-    
     try {
-      // Optimistic update for immediate UI feedback
-      const updatedContact: AudienceData = { ...contact, status: "Pending" };
-      
-      setAudienceData(prevData => 
-        prevData.map(item => 
-          item.identifier === contact.identifier ? updatedContact : item
-        )
+      const { results } = await api.audience.resumeContacts(
+        { campaignId, contactIds: [contact.identifier] },
+        { signal: requestScopeRef.current?.signal },
       );
-      
-      // Simulate API call with proper error handling
-      await new Promise((resolve, reject) => {
-        setTimeout(() => {
-          // Simulate occasional failures for testing
-          if (Math.random() > 0.9) {
-            reject(new Error('Network error'));
-          } else {
-            resolve(undefined);
-          }
-        }, 500);
-      });
+      assertContactUpdated(results, contact.identifier);
       
       toast.success(`Contact ${contact.name} has been resumed`);
     } catch (error) {
       // Revert optimistic update on error
-      setAudienceData(prevData => 
-        prevData.map(item => 
-          item.identifier === contact.identifier ? originalContact : item
-        )
-      );
+      revertContactEvent(contact.identifier, 'resume', previousStatus);
       
+      if (isAbortError(error)) return;
       console.error('Error updating contact status:', error);
-      toast.error(`Failed to resume contact for ${contact.name}. Please try again.`);
+      toast.error(getApiErrorMessage(error, `Failed to resume ${contact.name}`));
       throw error; // Re-throw to handle in ActionsMenu
     } finally {
       setActionInProgress(null);
     }
-  }, [actionInProgress]);
+  }, [actionInProgress, campaignId, applyContactEvent, revertContactEvent]);
 
   // Enhanced call contact handler
-  const handleCallContact = useCallback(async (contactName: string): Promise<void> => {
+  const handleCallContact = useCallback(async (contact: AudienceData): Promise<void> => {
+    const transitionError = getTransitionError(contact.status, 'dial');
+    if (transitionError) {
+      toast.error(transitionError);
+      return;
+    }
+    const suppression = dncStore.getSuppression(contact.phone);
+    if (suppression) {
+      toast.error(`${contact.name} is on the do-not-call list (${suppression.reason}) and can't be called`);
+      return;
+    }
     try {
-      // Simulate call initiation
-      await new Promise(resolve => setTimeout(resolve, 100));
-      
-      toast.success(`Calling ${contactName}...`);
-      console.log(`Initiating call to ${contactName}`);
+      await api.campaigns.callContact(
+        { campaignId, contactId: contact.identifier, phone: contact.phone },
+        { signal: requestScopeRef.current?.signal },
+      );
+      toast.success(`Calling ${contact.name}...`);
     } catch (error) {
+      if (isAbortError(error)) return;
       console.error('Error initiating call:', error);
-      toast.error(`Failed to call ${contactName}. Please try again.`);
+      toast.error(getApiErrorMessage(error, `Failed to call ${contact.name}`));
       throw error;
     }
-  }, []);
+  }, [campaignId]);
 
   // Enhanced dropdown state management
   const handleActionDropdownChange = useCallback((identifier: string, open: boolean) => {
@@ -460,36 +627,6 @@ export const AudienceTableSection = (): JSX.Element => {
   }, [actionInProgress]);
 
   // Checklist handlers
-  // Bulk action handlers
-  const handleBulkStop = useCallback(async () => {
-    if (selectedRows.size === 0) return;
-
-    setBulkActionInProgress("stop");
-    try {
-      // Simulate API call to stop selected contacts
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
-      // Update the status of selected contacts to "Stopped"
-      setAudienceData(prevData =>
-        prevData.map(item =>
-          selectedRows.has(item.identifier)
-            ? { ...item, status: "Stopped" }
-            : item
-        )
-      );
-      
-      // Clear selection and show success message
-      setSelectedRows(new Set());
-      setShowBulkStopConfirm(false);
-      toast.success(`Successfully stopped ${selectedRows.size} contact(s)`);
-    } catch (error) {
-      console.error('Error stopping contacts:', error);
-      toast.error('Failed to stop contacts. Please try again.');
-    } finally {
-      setBulkActionInProgress(null);
-    }
-  }, [selectedRows]);
-
   const handleBulkExport = useCallback(() => {
     if (selectedRows.size === 0) {
       toast.error('Please select contacts to export');
@@ -502,30 +639,14 @@ export const AudienceTableSection = (): JSX.Element => {
         selectedRows.has(contact.identifier)
       );
 
-      // Prepare data for export
-      const exportData = selectedContacts.map(contact => ({
-        ID: contact.identifier,
-        Name: contact.name,
-        Phone: contact.phone,
-        'Created At': contact.createdAt,
-        Status: contact.status,
-        'Number of Tries': contact.tries,
-        Result: contact.result
-      }));
-
-      // Create workbook and worksheet
-      const wb = XLSX.utils.book_new();
-      const ws = XLSX.utils.json_to_sheet(exportData);
-
-      // Add worksheet to workbook
-      XLSX.utils.book_append_sheet(wb, ws, 'Selected Contacts');
-
       // Generate filename with timestamp
       const timestamp = new Date().toISOString().slice(0, 19).replace(/:/g, '-');
-      const filename = `selected-contacts-${timestamp}.xlsx`;
 
-      // Write file
-      XLSX.writeFile(wb, filename);
+      exportAudience(selectedContacts, {
+        format: 'xlsx',
+        filename: `selected-contacts-${timestamp}.xlsx`,
+        sheetName: 'Selected Contacts',
+      });
 
       toast.success(`Exported ${selectedContacts.length} contacts successfully`);
     } catch (error) {
@@ -534,13 +655,81 @@ export const AudienceTableSection = (): JSX.Element => {
     }
   }, [selectedRows, audienceData]);
 
-  const handleSelectAll = useCallback(() => {
-    if (selectedRows.size === audienceData.length) {
-      setSelectedRows(new Set());
-    } else {
-      setSelectedRows(new Set(audienceData.map(row => row.identifier)));
+  // Filtering feeds sorting, pagination, selection and export
+  const filteredData = React.useMemo(() => filterAudience(audienceData, filters), [audienceData, filters]);
+
+  // Facet counts ignore the status filter itself so every option shows what it would add
+  const statusCounts = React.useMemo(
+    () => countByStatus(filterAudience(audienceData, { ...filters, statuses: [] })),
+    [audienceData, filters],
+  );
+
+  const hasActiveFilters = getFilterChips(filters).length > 0;
+
+  const handleFiltersChange = useCallback((next: AudienceFilters) => {
+    setFilters(next);
+    setCurrentPage(1);
+  }, []);
+
+  const handleResetFilters = useCallback(() => {
+    handleFiltersChange(EMPTY_AUDIENCE_FILTERS);
+  }, [handleFiltersChange]);
+
+  // Drop selected rows that are hidden by the filters so bulk actions only touch what is visible
+  useEffect(() => {
+    setSelectedRows(prev => {
+      const visibleIds = new Set(filteredData.map(row => row.identifier));
+      const next = new Set([...prev].filter(id => visibleIds.has(id)));
+      return next.size === prev.size ? prev : next;
+    });
+  }, [filteredData]);
+
+  const sortedData = React.useMemo(() => sortAudience(filteredData, sort), [filteredData, sort]);
+
+  const handleSort = useCallback((key: SortKey, additive: boolean) => {
+    setSort(prev => toggleSort(prev, key, additive));
+    setCurrentPage(1);
+  }, []);
+
+  // Client-side pagination over the sorted audience
+  const totalPages = Math.max(1, Math.ceil(sortedData.length / pageSize));
+
+  const paginatedData = React.useMemo(() => {
+    const start = (currentPage - 1) * pageSize;
+    return sortedData.slice(start, start + pageSize);
+  }, [sortedData, currentPage, pageSize]);
+
+  // Keep the current page in range when rows are removed or the page size grows
+  useEffect(() => {
+    if (currentPage > totalPages) {
+      setCurrentPage(totalPages);
     }
-  }, [selectedRows.size, audienceData]);
+  }, [currentPage, totalPages]);
+
+  const handlePageSizeChange = useCallback((size: number) => {
+    setPageSize(size);
+    setCurrentPage(1);
+  }, []);
+
+  // Select-all is scoped to the rows visible on the current page
+  const pageSelectedCount = paginatedData.filter(row => selectedRows.has(row.identifier)).length;
+  const isAllSelected = paginatedData.length > 0 && pageSelectedCount === paginatedData.length;
+  const isIndeterminate = pageSelectedCount > 0 && pageSelectedCount < paginatedData.length;
+
+  const handleSelectAll = useCallback(() => {
+    setSelectedRows(prev => {
+      const newSet = new Set(prev);
+      const allPageRowsSelected = paginatedData.every(row => newSet.has(row.identifier));
+      paginatedData.forEach(row => {
+        if (allPageRowsSelected) {
+          newSet.delete(row.identifier);
+        } else {
+          newSet.add(row.identifier);
+        }
+      });
+      return newSet;
+    });
+  }, [paginatedData]);
 
   const handleRowSelect = useCallback((identifier: string) => {
     setSelectedRows(prev => {
@@ -554,17 +743,12 @@ export const AudienceTableSection = (): JSX.Element => {
     });
   }, []);
 
-  const isAllSelected = selectedRows.size === audienceData.length && audienceData.length > 0;
-  const isIndeterminate = selectedRows.size > 0 && selectedRows.size < audienceData.length;
+  useEffect(() => {
+    const controller = new AbortController();
+    requestScopeRef.current = controller;
+    return () => controller.abort();
+  }, []);
 
-  // Mock phonebook data
-  const phonebookLists: PhonebookList[] = [
-    { id: '1', name: 'Customer Database', contactCount: 1250 },
-    { id: '2', name: 'Sales Prospects', contactCount: 890 },
-    { id: '3', name: 'Support Contacts', contactCount: 456 },
-    { id: '4', name: 'VIP Clients', contactCount: 78 },
-    { id: '5', name: 'Marketing List', contactCount: 2340 },
-  ];
 
   // Memoized stats cards to prevent unnecessary re-renders
   const statsCards = React.useMemo(() => [
@@ -575,27 +759,6 @@ export const AudienceTableSection = (): JSX.Element => {
   ], [audienceData]);
 
   // Enhanced validation functions with better error handling
-  const validatePhoneNumber = useCallback((phone: unknown): boolean => {
-    if (!phone || typeof phone !== 'string') return false;
-    const cleanPhone = phone.replace(/\s+/g, '').replace(/[^\d+]/g, '');
-    
-    // Must be between 10-15 digits (with or without + prefix)
-    const phoneRegex = /^(\+?\d{10,15})$/;
-    return phoneRegex.test(cleanPhone);
-  }, []);
-
-  const validateName = useCallback((name: unknown): boolean => {
-    if (!name || typeof name !== 'string') return false;
-    const trimmedName = name.trim();
-    return trimmedName.length > 0 && trimmedName.length <= 100;
-  }, []);
-
-  const validateHeaders = useCallback((headers: unknown[]): boolean => {
-    if (!Array.isArray(headers) || headers.length !== 2) return false;
-    const normalizedHeaders = headers.map(h => String(h).toLowerCase().trim());
-    return normalizedHeaders.includes('name') && normalizedHeaders.includes('phone');
-  }, []);
-
   const validateListName = useCallback((name: string): string => {
     const trimmed = name.trim();
     if (!trimmed) {
@@ -607,80 +770,285 @@ export const AudienceTableSection = (): JSX.Element => {
     if (trimmed.length > 50) {
       return 'List name must be 50 characters or less';
     }
+    // The list being re-imported keeps its own name
+    const normalized = trimmed.toLowerCase();
+    if (audienceLists.some(list => list.id !== reimportListId && list.name.trim().toLowerCase() === normalized)) {
+      return 'A list with this name already exists in this campaign';
+    }
     return '';
-  }, []);
+  }, [audienceLists, reimportListId]);
 
-  const standardizePhoneNumber = useCallback((phone: string): string => {
-    const digits = phone.replace(/\D/g, '');
-    
-    // If already starts with 962, keep as is
-    if (digits.startsWith('962')) {
-      return digits;
-    }
-    
-    // If starts with 0, replace with 962
-    if (digits.startsWith('0')) {
-      return `962${digits.substring(1)}`;
-    }
-    
-    // Otherwise, assume it's a local number and add 962
-    return `962${digits}`;
-  }, []);
+  // Bulk action handlers
+  const selectedContacts = React.useMemo(
+    () => audienceData.filter(contact => selectedRows.has(contact.identifier)),
+    [audienceData, selectedRows],
+  );
 
-  const standardizeCreatedAt = useCallback((date: Date): string => {
-    const months = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
-    const month = months[date.getMonth()];
-    const day = date.getDate();
-    const year = date.getFullYear();
-    const hours = date.getHours();
-    const minutes = date.getMinutes().toString().padStart(2, '0');
-    const period = hours >= 12 ? 'PM' : 'AM';
-    const formattedHours = (hours % 12 || 12).toString().padStart(2, '0');
-    
-    return `${month} ${day}, ${year} . ${formattedHours}:${minutes} ${period}`;
-  }, []);
+  const bulkActionSummary = React.useMemo(() => summarizeBulkAction(bulkAction ?? 'stop', selectedContacts, {
+    listId: moveListId === NEW_LIST_OPTION ? undefined : moveListId,
+    suppressedPhones,
+  }), [bulkAction, selectedContacts, moveListId, suppressedPhones]);
+
+  // Stop, resume, reset and move go through the API in batches; the dialog shows progress and failures
+  const runBulkAction = useCallback(async (action: BatchedBulkAction, contactIds: string[], listId?: string) => {
+    if (contactIds.length === 0) return;
+
+    const controller = new AbortController();
+    bulkControllerRef.current = controller;
+    // Leaving the page cancels the remaining batches too
+    requestScopeRef.current?.signal.addEventListener('abort', () => controller.abort(), { once: true });
+
+    const copy = BULK_ACTION_COPY[action];
+    const sendBatch = (batchIds: string[], options: RequestOptions) => {
+      const request = { campaignId, contactIds: batchIds };
+      if (action === 'resume') return api.audience.resumeContacts(request, options);
+      if (action === 'reset') return api.audience.resetContacts(request, options);
+      if (action === 'move') return api.audience.moveContacts({ ...request, listId: listId ?? '' }, options);
+      return api.audience.stopContacts(request, options);
+    };
 
-  const getErrorSuggestion = useCallback((field: string, value: string, error: string): string => {
-    if (field === 'phone') {
-      if (error.includes('required')) {
-        return 'Provide a valid phone number';
+    setBulkActionInProgress(action);
+    setBulkResult(null);
+    setBulkProgress({ processed: 0, total: contactIds.length });
+    const doneIds = new Set<string>();
+    // Confirmed by the server but no longer allowed locally, e.g. the dialer picked the contact up meanwhile
+    const rejected: BulkFailure[] = [];
+    try {
+      const outcome = await runInBatches(contactIds, sendBatch, {
+        signal: controller.signal,
+        // Apply each batch as it's confirmed so a cancelled run keeps what already went through
+        onBatch: ({ succeeded }, progress) => {
+          const confirmedIds = new Set(succeeded.map(result => result.contactId));
+          const appliedIds: string[] = [];
+          succeeded.forEach(result => doneIds.add(result.contactId));
+          // The store applies this right away, so the collected ids are complete once it returns
+          setAudienceData(prevData =>
+            prevData.map(item => {
+              if (!confirmedIds.has(item.identifier)) return item;
+              try {
+                const updated = applyBulkResult(action, item, listId);
+                appliedIds.push(item.identifier);
+                return updated;
+              } catch (error) {
+                if (!(error instanceof InvalidTransitionError)) throw error;
+                rejected.push({ contactId: item.identifier, error: error.message });
+                return item;
+              }
+            })
+          );
+          if (action === 'reset') dialer.resetContacts(appliedIds);
+          setBulkProgress(progress);
+        },
+      });
+
+      const failures = [...outcome.failed, ...rejected];
+      const succeededCount = outcome.succeeded.length - rejected.length;
+      // Keep the contacts that failed selected so they can be retried
+      setSelectedRows(new Set(failures.map(failure => failure.contactId)));
+      if (failures.length === 0) {
+        setBulkAction(null);
+        toast.success(`Successfully ${copy.done} ${succeededCount} contact(s)`);
+      } else {
+        const names = new Map(audienceData.map(contact => [contact.identifier, contact.name]));
+        setBulkResult({
+          succeeded: succeededCount,
+          failures: failures.map(failure => ({ ...failure, name: names.get(failure.contactId) ?? failure.contactId })),
+        });
       }
-      if (error.includes('format')) {
-        return 'Use format: +962771234567 or 0771234567 (10-15 digits)';
+    } catch (error) {
+      if (isAbortError(error)) {
+        const rejectedIds = new Set(rejected.map(failure => failure.contactId));
+        setSelectedRows(prev => new Set(Array.from(prev).filter(id => !doneIds.has(id) || rejectedIds.has(id))));
+        setBulkAction(null);
+        if (!requestScopeRef.current?.signal.aborted) {
+          toast(`Cancelled after ${doneIds.size - rejected.length} contact(s) were ${copy.done}`);
+        }
+        return;
       }
+      console.error('Error running bulk action:', error);
+      toast.error('Failed to update contacts. Please try again.');
+    } finally {
+      bulkControllerRef.current = null;
+      setBulkProgress(null);
+      setBulkActionInProgress(null);
     }
-    if (field === 'name') {
-      if (error.includes('required')) {
-        return 'Enter a contact name (1-100 characters)';
+  }, [campaignId, audienceData, setAudienceData, dialer]);
+
+  // Contacts disappear at once; the server delete only runs once the undo window has passed
+  const deleteContacts = useCallback((contactIds: string[]) => {
+    const ids = new Set(contactIds);
+    const removed = audienceData.flatMap((contact, index) => (ids.has(contact.identifier) ? [{ contact, index }] : []));
+    const restore = (restoreIds: Set<string>) => setAudienceData(prev => {
+      const next = [...prev];
+      removed
+        .filter(({ contact }) => restoreIds.has(contact.identifier))
+        .forEach(({ contact, index }) => next.splice(Math.min(index, next.length), 0, contact));
+      return next;
+    });
+
+    setAudienceData(prev => prev.filter(contact => !ids.has(contact.identifier)));
+    setSelectedRows(prev => new Set(Array.from(prev).filter(id => !ids.has(id))));
+    setBulkAction(null);
+
+    // Not tied to this page: the delete still goes through if the user navigates away
+    const timer = setTimeout(async () => {
+      try {
+        const outcome = await runInBatches(contactIds, (batchIds, options) =>
+          api.audience.deleteContacts({ campaignId, contactIds: batchIds }, options));
+        if (outcome.failed.length > 0) {
+          restore(new Set(outcome.failed.map(failure => failure.contactId)));
+          toast.error(`${outcome.failed.length} contact(s) could not be deleted and were restored`);
+        }
+      } catch (error) {
+        console.error('Error deleting contacts:', error);
+        restore(ids);
+        toast.error('Failed to delete contacts. They were restored.');
       }
-      if (error.includes('long')) {
-        return 'Name must be 100 characters or less';
+    }, UNDO_DELETE_MS);
+
+    toast((t) => (
+      <span className="flex items-center gap-3 text-sm">
+        Deleted {removed.length} contact(s)
+        <button
+          type="button"
+          className="font-medium text-blue-600 hover:text-blue-700"
+          onClick={() => {
+            clearTimeout(timer);
+            restore(ids);
+            toast.dismiss(t.id);
+          }}
+        >
+          Undo
+        </button>
+      </span>
+    ), { duration: UNDO_DELETE_MS });
+  }, [campaignId, audienceData, setAudienceData]);
+
+  const handleOpenBulkAction = useCallback((action: DialogBulkAction) => {
+    setBulkResult(null);
+    if (action === 'move') {
+      setMoveListId(audienceLists[0]?.id ?? NEW_LIST_OPTION);
+      setNewListName('');
+      setNewListNameError('');
+    }
+    setBulkAction(action);
+
+    // Resuming isn't destructive, so it starts without asking
+    if (action === 'resume') {
+      const { eligible } = summarizeBulkAction('resume', selectedContacts, { suppressedPhones });
+      if (eligible.length === 0) {
+        setBulkAction(null);
+        toast.error('None of the selected contacts can be resumed. Only Stopped contacts, and Suppressed ones no longer on the do-not-call list, are resumed.');
+        return;
       }
+      void runBulkAction('resume', eligible.map(contact => contact.identifier));
     }
-    return 'Please correct this field according to the requirements';
+  }, [audienceLists, selectedContacts, suppressedPhones, runBulkAction]);
+
+  const handleConfirmBulkAction = useCallback(() => {
+    if (!bulkAction || bulkAction === 'resume') return;
+    const contactIds = bulkActionSummary.eligible.map(contact => contact.identifier);
+
+    if (bulkAction === 'delete') {
+      deleteContacts(contactIds);
+      return;
+    }
+    if (bulkAction !== 'move') {
+      void runBulkAction(bulkAction, contactIds);
+      return;
+    }
+
+    let listId = moveListId;
+    if (listId === NEW_LIST_OPTION) {
+      const nameError = validateListName(newListName);
+      if (nameError) {
+        setNewListNameError(nameError);
+        return;
+      }
+      const list: AudienceList = { id: generateId(), name: newListName.trim(), importedAt: new Date().toISOString() };
+      setAudienceLists(prev => [...prev, list]);
+      // Retries go to the same list
+      setMoveListId(list.id);
+      listId = list.id;
+    }
+    void runBulkAction('move', contactIds, listId);
+  }, [bulkAction, bulkActionSummary, moveListId, newListName, validateListName, deleteContacts, runBulkAction, setAudienceLists]);
+
+  const handleRetryFailedBulkAction = useCallback(() => {
+    if (!bulkAction || bulkAction === 'delete' || !bulkResult) return;
+    // Contacts whose status no longer allows the action would only be rejected again
+    const failedIds = new Set(bulkResult.failures.map(failure => failure.contactId));
+    const { eligible } = summarizeBulkAction(bulkAction, audienceData.filter(contact => failedIds.has(contact.identifier)), {
+      listId: moveListId === NEW_LIST_OPTION ? undefined : moveListId,
+      suppressedPhones,
+    });
+    if (eligible.length === 0) {
+      toast.error('None of the failed contacts can be retried in their current status');
+      return;
+    }
+    void runBulkAction(bulkAction, eligible.map(contact => contact.identifier), moveListId);
+  }, [bulkAction, bulkResult, audienceData, moveListId, suppressedPhones, runBulkAction]);
+
+  const handleCancelBulkAction = useCallback(() => {
+    bulkControllerRef.current?.abort();
+  }, []);
+
+  const handleCloseBulkAction = useCallback(() => {
+    setBulkAction(null);
   }, []);
 
+  // "Call now" only reorders the local dialer queue, so it reports with a toast instead of the dialog
+  const handleBulkCallNow = useCallback(() => {
+    const { eligible, skipped } = summarizeBulkAction('call-now', selectedContacts, { suppressedPhones });
+    if (eligible.length === 0) {
+      toast.error('None of the selected contacts can be called now. Only Pending contacts not on the do-not-call list are dialed.');
+      return;
+    }
+    dialer.prioritize(eligible.map(contact => contact.identifier));
+    const skippedCount = skipped.reduce((total, { count }) => total + count, 0);
+    const skippedMessage = skippedCount > 0 ? ` (${skippedCount} skipped)` : '';
+    toast.success(isPlaying
+      ? `Calling ${eligible.length} contact(s) next${skippedMessage}`
+      : `${eligible.length} contact(s) will be called first when the campaign runs${skippedMessage}`);
+  }, [selectedContacts, suppressedPhones, dialer, isPlaying]);
+
   // Enhanced state reset function
   const resetImportState = useCallback(() => {
+    importJobRef.current?.cancel();
+    importJobRef.current = null;
+    setImportProgress(null);
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
     }
     setValidationErrors([]);
     setValidRows([]);
     setImportSummary(null);
+    setReviewRows([]);
+    setReviewDirty(false);
     setImportOption(null);
     setSelectedPhonebooks([]);
     setSelectedFile(null);
+    setParsedSheet(null);
+    setColumnRoles([]);
     setListName('');
     setListNameError('');
+    setReimportListId(null);
+    setDuplicatePolicy('skip');
     setIsLoading(false);
     setIsDragOver(false);
-    setIsPhonebookDropdownOpen(false);
+    phonebookFetchRef.current?.abort();
+    phonebookFetchRef.current = null;
+    setPhonebookProgress(null);
+    setPhonebookPreview(null);
+    setSelectedSegment(null);
+    setSegmentPreview(null);
     setShowErrorModal(false);
   }, []);
 
   const clearSelectedFile = useCallback(() => {
     setSelectedFile(null);
+    setParsedSheet(null);
+    setColumnRoles([]);
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
     }
@@ -707,26 +1075,21 @@ export const AudienceTableSection = (): JSX.Element => {
       const allowedTypes = ['text/csv', 'application/vnd.ms-excel', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'];
       if (allowedTypes.includes(file.type) || file.name.endsWith('.csv') || file.name.endsWith('.xlsx')) {
         setSelectedFile(file);
+        setParsedSheet(null);
+        setColumnRoles([]);
         // Validate list name when file is dropped
-        if (!listName.trim()) {
-          setListNameError('Please enter a list name');
-        }
+        setListNameError(validateListName(listName));
       } else {
         toast.error('Please upload a CSV or Excel file');
       }
     }
-  }, [listName]);
+  }, [listName, validateListName]);
 
   const handleListNameChange = useCallback((value: string) => {
     setListName(value);
-    // Clear error when user starts typing
-    if (listNameError && value.trim()) {
-      setListNameError('');
-    }
     // Validate in real-time
-    const error = validateListName(value);
-    setListNameError(error);
-  }, [listNameError, validateListName]);
+    setListNameError(validateListName(value));
+  }, [validateListName]);
 
   const downloadSampleFile = useCallback(() => {
     try {
@@ -765,332 +1128,380 @@ export const AudienceTableSection = (): JSX.Element => {
     }
   }, []);
 
-  // Enhanced file processing with better error handling
-  const processFile = useCallback((file: File) => {
-    console.log('Processing file:', file.name);
-    
-    // Enhanced file validation
-    if (file.size > 10 * 1024 * 1024) {
-      toast.error('File size exceeds 10MB limit');
+  // Read the file and move on to the column mapping step
+  const parseFile = useCallback(async (file: File) => {
+    const fileError = getSpreadsheetFileError(file);
+    if (fileError) {
+      toast.error(fileError);
       return;
     }
 
-    const allowedTypes = [
-      'text/csv',
-      'application/vnd.ms-excel',
-      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
-    ];
+    setIsLoading(true);
+    const job = parseSpreadsheetInWorker(file, setImportProgress);
+    importJobRef.current = job;
+    try {
+      const sheet = await job.result;
 
-    if (!allowedTypes.includes(file.type) && !file.name.endsWith('.csv') && !file.name.endsWith('.xlsx')) {
-      toast.error('Please upload a CSV or Excel file');
-      return;
-    }
+      if (sheet.rows.length === 0) {
+        toast.error('File is empty or contains no data rows');
+        return;
+      }
 
-    setIsLoading(true);
-    const reader = new FileReader();
-    
-    reader.onload = (e) => {
-      const data = e.target?.result;
-      if (!data) {
-        toast.error('Failed to read file');
+      setParsedSheet(sheet);
+      setColumnRoles(detectColumnMapping(sheet));
+    } catch (error) {
+      if (error instanceof ImportCancelledError) return;
+      console.error('Error processing file:', error);
+      toast.error('Error processing file. Please check the file format.');
+    } finally {
+      if (importJobRef.current === job) {
+        importJobRef.current = null;
+        setImportProgress(null);
         setIsLoading(false);
-        return;
       }
+    }
+  }, []);
 
-      try {
-        console.log('Reading file data...');
-        const workbook = XLSX.read(data, { type: 'binary' });
-        const sheetName = workbook.SheetNames[0];
-        const worksheet = workbook.Sheets[sheetName];
-        
-        const rawData = XLSX.utils.sheet_to_json(worksheet, { header: 1 }) as unknown[][];
-        console.log('Raw data:', rawData);
-        
-        if (rawData.length < 2) {
-          toast.error('File is empty or contains no data rows');
-          setIsLoading(false);
-          return;
-        }
+  const commitImport = useCallback((contacts: AudienceData[], summary: ImportSummary) => {
+    const list: AudienceList = {
+      id: reimportListId ?? generateId(),
+      name: listName.trim(),
+      sourceFileName: selectedFile?.name,
+      importedAt: new Date().toISOString(),
+    };
+    const taggedContacts = contacts.map(contact => ({ ...contact, listId: list.id }));
+
+    // Re-running a list replaces the contacts from its previous import
+    const currentAudience = reimportListId
+      ? audienceData.filter(contact => contact.listId !== reimportListId)
+      : audienceData;
+    const merge = mergeIntoAudience(currentAudience, taggedContacts, duplicatePolicy);
+    setAudienceData(merge.audience);
+    // A new list is only created when it gets contacts
+    const createsList = !reimportListId && merge.added > 0;
+    if (reimportListId) {
+      setAudienceLists(prev => prev.map(existing => (existing.id === reimportListId ? list : existing)));
+    } else if (createsList) {
+      setAudienceLists(prev => [...prev, list]);
+    }
 
-        const headers = rawData[0];
-        console.log('Headers:', headers);
-        
-        if (!validateHeaders(headers)) {
-          toast.error('Invalid headers. File must contain exactly two columns named "name" and "phone"');
-          setIsLoading(false);
-          return;
-        }
+    // Force close modal and reset all state
+    setShowImportModal(false);
+    resetImportState();
 
-        // Reset previous validation results
-        setValidationErrors([]);
-        setValidRows([]);
-        
-        const errors: ValidationError[] = [];
-        const valid: AudienceData[] = [];
-        const dataRows = rawData.slice(1); // Skip header row
-
-        console.log('Processing', dataRows.length, 'data rows...');
-
-        // Track duplicates by phone number and name combination
-        const seenContacts = new Map<string, number>();
-        let duplicatesCount = 0;
-
-        // Process each data row
-        for (let i = 0; i < dataRows.length; i++) {
-          const row = dataRows[i];
-          const rowNumber = i + 2; // +2 because we start from row 2 (after header)
-          
-          // Skip completely empty rows
-          if (!row || (Array.isArray(row) && row.every(cell => !cell || String(cell).trim() === ''))) {
-            continue;
-          }
-
-          console.log(`Processing row ${rowNumber}:`, row);
-
-          const [nameValue, phoneValue] = row;
-          let hasRowError = false;
-          
-          // Check for duplicates (normalize phone and name for comparison)
-          if (nameValue && phoneValue) {
-            const normalizedPhone = standardizePhoneNumber(String(phoneValue));
-            const normalizedName = String(nameValue).trim().toLowerCase();
-            const contactKey = `${normalizedName}|${normalizedPhone}`;
-            
-            if (seenContacts.has(contactKey)) {
-              // This is a duplicate - skip it entirely and count it
-              duplicatesCount++;
-              continue; // Skip processing this duplicate row
-            } else {
-              seenContacts.set(contactKey, rowNumber);
-            }
-          }
-
-          // Validate name
-          if (!validateName(nameValue)) {
-            const error = !nameValue || String(nameValue).trim() === '' 
-              ? 'Name is required' 
-              : String(nameValue).length > 100 
-                ? 'Name is too long (max 100 characters)'
-                : 'Invalid name format';
-            
-            errors.push({
-              row: rowNumber,
-              field: 'name',
-              value: nameValue ? String(nameValue) : '(empty)',
-              error,
-              suggestion: getErrorSuggestion('name', nameValue ? String(nameValue) : '', error)
-            });
-            hasRowError = true;
-          }
-
-          // Validate phone
-          if (!validatePhoneNumber(phoneValue)) {
-            const error = !phoneValue || String(phoneValue).trim() === ''
-              ? 'Phone number is required'
-              : 'Phone number must be in valid format (10-15 digits)';
-            
-            errors.push({
-              row: rowNumber,
-              field: 'phone',
-              value: phoneValue ? String(phoneValue) : '(empty)',
-              error,
-              suggestion: getErrorSuggestion('phone', phoneValue ? String(phoneValue) : '', error)
-            });
-            hasRowError = true;
-          }
-
-          // If no errors, add to valid rows
-          if (!hasRowError) {
-            valid.push({
-              identifier: Math.random().toString(36).substr(2, 5),
-              name: String(nameValue).trim(),
-              phone: standardizePhoneNumber(String(phoneValue)),
-              createdAt: standardizeCreatedAt(new Date()),
-              status: "Pending",
-              tries: "0",
-              result: "",
-            });
-          }
-        }
+    // Show success message after state is reset
+    const duplicateMessage = summary.duplicatesRemoved > 0 ? ` (${summary.duplicatesRemoved} duplicates removed)` : '';
+    const errorMessage = summary.invalidRows > 0 ? ` (${summary.invalidRows} invalid rows skipped)` : '';
+    const matchedMessage = merge.updated + merge.skipped > 0
+      ? ` (${merge.updated + merge.skipped} matched existing contacts: ${merge.updated} updated, ${merge.skipped} skipped)`
+      : '';
+    const repeatedMessage = merge.repeated > 0 ? ` (${merge.repeated} phone numbers repeated in the file)` : '';
+    const target = reimportListId || createsList ? ` into "${list.name}"` : '';
+    toast.success(`Successfully imported ${merge.added} contacts${target}${matchedMessage}${repeatedMessage}${duplicateMessage}${errorMessage}`);
+  }, [reimportListId, listName, selectedFile, audienceData, duplicatePolicy, resetImportState, setAudienceData, setAudienceLists]);
+
+  const showValidationReport = useCallback((rows: MappedRow[], result: ContactValidationResult) => {
+    setReviewRows(rows);
+    setReviewDirty(false);
+    setValidationErrors(result.errors);
+    setValidRows(result.valid);
+    setImportSummary(result.summary);
+  }, []);
 
-        console.log('Validation complete. Errors:', errors.length, 'Valid:', valid.length);
+  // Validate the mapped rows in the import worker so large files don't block the page
+  const processFile = useCallback(async (sheet: ParsedSheet, roles: ColumnRole[]) => {
+    const mappingError = validateColumnMapping(roles);
+    if (mappingError) {
+      toast.error(mappingError);
+      return;
+    }
 
-        if (errors.length > 0) {
-          // Log errors for debugging but proceed with valid rows only
-          console.log('Import validation found', errors.length, 'errors:', errors);
-          console.log('Proceeding with', valid.length, 'valid contacts');
-          
-          // Import only valid rows without showing error modal
-          if (valid.length > 0) {
-            setAudienceData(prev => [...prev, ...valid]);
-            
-            const duplicateMessage = duplicatesCount > 0 ? ` (${duplicatesCount} duplicates removed)` : '';
-            const errorMessage = errors.length > 0 ? ` (${errors.length} invalid rows skipped)` : '';
-            toast.success(`Successfully imported ${valid.length} contacts${duplicateMessage}${errorMessage}`);
-          } else {
-            toast.error('No valid contacts found to import. Please check your file format.');
-          }
-          
-          // Close modal and reset state
-          setIsLoading(false);
-          setShowImportModal(false);
-          resetImportState();
-        } else {
-          // All rows are valid - import directly
-          setIsLoading(false);
-          
-          setAudienceData(prev => [...prev, ...valid]);
-          
-          // Force close modal and reset all state
-          setShowImportModal(false);
-          resetImportState();
-          
-          // Show success message after state is reset
-          const duplicateMessage = duplicatesCount > 0 ? ` (${duplicatesCount} duplicates removed)` : '';
-          toast.success(`Successfully imported ${valid.length} contacts${duplicateMessage}`);
-        }
-      } catch (error) {
-        console.error('Error processing file:', error);
-        toast.error('Error processing file. Please check the file format.');
-        setIsLoading(false);
-      }
-    };
+    setIsLoading(true);
+    const mappedRows = applyColumnMapping(sheet, roles);
+    const job = validateContactsInWorker(mappedRows, defaultCountry, existingPhones, suppressedPhones, setImportProgress);
+    importJobRef.current = job;
+    try {
+      const result = await job.result;
 
-    reader.onerror = () => {
-      toast.error('Error reading file');
-      setIsLoading(false);
-    };
+      if (result.errors.length === 0) {
+        // All rows are valid - import directly
+        commitImport(result.valid, result.summary);
+        return;
+      }
 
-    reader.readAsBinaryString(file);
-  }, [validateHeaders, validateName, validatePhoneNumber, standardizePhoneNumber, standardizeCreatedAt, getErrorSuggestion, resetImportState]);
+      // Hold the import until the user has reviewed the errors
+      showValidationReport(mappedRows, result);
+      setShowImportModal(false);
+      setShowErrorModal(true);
+    } catch (error) {
+      if (error instanceof ImportCancelledError) return;
+      console.error('Error processing file:', error);
+      toast.error('Error processing file. Please check the file format.');
+    } finally {
+      if (importJobRef.current === job) {
+        importJobRef.current = null;
+        setImportProgress(null);
+        setIsLoading(false);
+      }
+    }
+  }, [defaultCountry, existingPhones, suppressedPhones, commitImport, showValidationReport]);
 
   const handleFileUpload = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
     
     setSelectedFile(file);
+    setParsedSheet(null);
+    setColumnRoles([]);
   }, []);
 
-  const handlePhonebookToggle = useCallback((phonebookId: string) => {
-    setSelectedPhonebooks(prev => 
-      prev.includes(phonebookId)
-        ? prev.filter(id => id !== phonebookId)
-        : [...prev, phonebookId]
-    );
+  const handlePhonebooksChange = useCallback((phonebooks: PhonebookSummary[]) => {
+    setSelectedPhonebooks(phonebooks);
+    // The preview was for the previous selection
+    setPhonebookPreview(null);
   }, []);
 
-  const handleSelectAllPhonebooks = useCallback(() => {
-    if (selectedPhonebooks.length === phonebookLists.length) {
-      setSelectedPhonebooks([]);
-    } else {
-      setSelectedPhonebooks(phonebookLists.map(list => list.id));
-    }
-  }, [selectedPhonebooks.length, phonebookLists]);
-
-  const togglePhonebookDropdown = useCallback(() => {
-    setIsPhonebookDropdownOpen(!isPhonebookDropdownOpen);
-  }, [isPhonebookDropdownOpen]);
-
-  const getSelectedPhonebooksText = useCallback(() => {
-    if (selectedPhonebooks.length === 0) {
-      return 'Select phonebook lists';
-    }
-    if (selectedPhonebooks.length === 1) {
-      const selectedList = phonebookLists.find(list => list.id === selectedPhonebooks[0]);
-      return selectedList?.name || 'Selected list';
-    }
-    return `${selectedPhonebooks.length} lists selected`;
-  }, [selectedPhonebooks, phonebookLists]);
-
-  const handlePhonebookImport = useCallback(async () => {
+  // Fetch every contact of the selected phonebooks and count what the import would add
+  const handlePhonebookPreview = useCallback(async () => {
     if (selectedPhonebooks.length === 0) {
       toast.error('Please select at least one phonebook list');
       return;
     }
 
+    const controller = new AbortController();
+    phonebookFetchRef.current = controller;
+    requestScopeRef.current?.signal.addEventListener('abort', () => controller.abort(), { once: true });
     setIsLoading(true);
-    
+    setPhonebookPreview(null);
+    setPhonebookProgress({ fetched: 0, total: selectedPhonebooks.reduce((sum, phonebook) => sum + phonebook.contactCount, 0) });
+
     try {
-      // Simulate API call with proper error handling
-      await new Promise((resolve, reject) => {
-        setTimeout(() => {
-          // Simulate occasional failures
-          if (Math.random() > 0.95) {
-            reject(new Error('Import failed'));
-          } else {
-            resolve(undefined);
-          }
-        }, 2000);
+      const contacts = await fetchPhonebookContacts(api.phonebooks, selectedPhonebooks, {
+        signal: controller.signal,
+        onProgress: setPhonebookProgress,
       });
+      setPhonebookPreview(buildPhonebookImport(
+        contacts,
+        selectedPhonebooks,
+        audienceLists,
+        existingPhones,
+        defaultCountry,
+        suppressedPhones,
+      ));
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.error('Error fetching phonebook contacts:', error);
+      toast.error(getApiErrorMessage(error, 'Failed to load phonebook contacts'));
+    } finally {
+      if (phonebookFetchRef.current === controller) {
+        phonebookFetchRef.current = null;
+        setPhonebookProgress(null);
+        setIsLoading(false);
+      }
+    }
+  }, [selectedPhonebooks, audienceLists, existingPhones, defaultCountry, suppressedPhones]);
 
-      const selectedLists = phonebookLists.filter(list => selectedPhonebooks.includes(list.id));
-      let totalImported = 0;
-      const allMockData: AudienceData[] = [];
-      
-      selectedLists.forEach((list) => {
-        const contactsToImport = Math.min(list.contactCount, 5); // Limit for demo
-        const mockData: AudienceData[] = Array.from({ length: contactsToImport }, (_, i) => ({
-          identifier: Math.random().toString(36).substr(2, 5),
-          name: `${list.name} Contact ${i + 1}`,
-          phone: `96277${Math.floor(Math.random() * 10000000).toString().padStart(7, '0')}`,
-          createdAt: standardizeCreatedAt(new Date()),
-          status: "Pending",
-          tries: "0",
-          result: "",
-        }));
-        
-        allMockData.push(...mockData);
-        totalImported += contactsToImport;
-      });
+  const handleCancelPhonebookFetch = useCallback(() => {
+    phonebookFetchRef.current?.abort();
+    phonebookFetchRef.current = null;
+    setPhonebookProgress(null);
+    setIsLoading(false);
+  }, []);
 
-      setAudienceData(prev => [...prev, ...allMockData]);
-      const listNames = selectedLists.map(list => list.name).join(', ');
-      toast.success(`Successfully imported ${totalImported} contacts from ${selectedLists.length} list(s): ${listNames}`);
-      setShowImportModal(false);
-      resetImportState();
+  const handlePhonebookImport = useCallback(() => {
+    if (!phonebookPreview) return;
+
+    // Skip anything added to the campaign or the do-not-call list since the preview was built
+    const callable = phonebookPreview.contacts.filter(contact => !dncStore.isSuppressed(contact.phone));
+    const merge = mergeIntoAudience(audienceData, callable, 'skip');
+    setAudienceData(merge.audience);
+    // Only lists that received contacts; a reused list is replaced with its fresh importedAt
+    const importedLists = phonebookPreview.lists
+      .filter(list => merge.audience.some(contact => contact.listId === list.id));
+    setAudienceLists(prev => [
+      ...prev.map(existing => importedLists.find(list => list.id === existing.id) ?? existing),
+      ...importedLists.filter(list => !prev.some(existing => existing.id === list.id)),
+    ]);
+    const listNames = selectedPhonebooks.map(phonebook => phonebook.name).join(', ');
+    const skipped = phonebookPreview.total - merge.added;
+    const skippedMessage = skipped > 0 ? ` (${skipped} duplicate, invalid or do-not-call skipped)` : '';
+    toast.success(`Successfully imported ${merge.added} contacts from ${selectedPhonebooks.length} list(s): ${listNames}${skippedMessage}`);
+    setShowImportModal(false);
+    resetImportState();
+  }, [phonebookPreview, audienceData, selectedPhonebooks, resetImportState, setAudienceData, setAudienceLists]);
+
+  const handleSegmentPreviewChange = useCallback((segment: Segment | null, preview: SegmentImportPreview | null) => {
+    setSelectedSegment(segment);
+    setSegmentPreview(preview);
+  }, []);
+
+  const handleSegmentImport = useCallback(() => {
+    if (!selectedSegment || !segmentPreview) return;
+
+    // Skip anything added to the campaign or the do-not-call list since the segment was evaluated
+    const callable = segmentPreview.contacts.filter(contact => !dncStore.isSuppressed(contact.phone));
+    const merge = mergeIntoAudience(audienceData, callable, 'skip');
+    setAudienceData(merge.audience);
+    const skipped = segmentPreview.total - merge.added;
+    const skippedMessage = skipped > 0 ? ` (${skipped} duplicate or do-not-call skipped)` : '';
+    toast.success(`Successfully imported ${merge.added} contacts from segment "${selectedSegment.name}"${skippedMessage}`);
+    setShowImportModal(false);
+    resetImportState();
+  }, [selectedSegment, segmentPreview, audienceData, resetImportState, setAudienceData]);
+
+  const handleReviewRowChange = useCallback((rowNumber: number, field: ValidationField, value: string) => {
+    setReviewRows(prev => prev.map(row => (row.rowNumber === rowNumber ? { ...row, [field]: value } : row)));
+    setReviewDirty(true);
+  }, []);
+
+  // Validate the reviewed rows again in the import worker; null when cancelled or failed
+  const revalidateReviewRows = useCallback(async (): Promise<ContactValidationResult | null> => {
+    const job = validateContactsInWorker(reviewRows, defaultCountry, existingPhones, suppressedPhones, setImportProgress);
+    importJobRef.current = job;
+    try {
+      return await job.result;
     } catch (error) {
-      console.error('Error importing from phonebook:', error);
-      toast.error('Failed to import from phonebook. Please try again.');
+      if (!(error instanceof ImportCancelledError)) {
+        console.error('Error validating contacts:', error);
+        toast.error('Error validating contacts. Please try again.');
+      }
+      return null;
     } finally {
-      setIsLoading(false);
+      if (importJobRef.current === job) {
+        importJobRef.current = null;
+        setImportProgress(null);
+      }
     }
-  }, [selectedPhonebooks, phonebookLists, standardizeCreatedAt, resetImportState]);
-
-  const handleImportConfirm = useCallback(() => {
-    if (validRows.length > 0) {
-      const duplicateMessage = importSummary?.duplicatesRemoved && importSummary.duplicatesRemoved > 0 
-        ? ` (${importSummary.duplicatesRemoved} duplicates removed)` 
-        : '';
-      setAudienceData(prev => [...prev, ...validRows]);
-      toast.success(`Successfully imported ${validRows.length} contacts${duplicateMessage}`);
+  }, [reviewRows, defaultCountry, existingPhones, suppressedPhones]);
+
+  const handleRevalidate = useCallback(async () => {
+    const result = await revalidateReviewRows();
+    if (!result) return;
+    showValidationReport(reviewRows, result);
+
+    if (result.errors.length === 0) {
+      toast.success('All rows are valid now');
+    } else {
+      toast.error(`${result.summary.invalidRows} row(s) still have errors`);
+    }
+  }, [reviewRows, revalidateReviewRows, showValidationReport]);
+
+  const handleImportConfirm = useCallback(async () => {
+    // Picks up pending inline fixes, and numbers added to the do-not-call list while reviewing
+    const result = await revalidateReviewRows();
+    if (!result) return;
+
+    if (result.valid.length === 0) {
+      showValidationReport(reviewRows, result);
+      toast.error('No valid contacts found to import. Please check your file format.');
+      return;
     }
+
+    commitImport(result.valid, result.summary);
+  }, [reviewRows, revalidateReviewRows, showValidationReport, commitImport]);
+
+  // Return to the mapping step with the file still loaded
+  const handleReportBack = useCallback(() => {
+    setShowErrorModal(false);
+    setShowImportModal(true);
+  }, []);
+
+  const handleReportClose = useCallback(() => {
     setShowErrorModal(false);
-    setShowImportModal(false);
     resetImportState();
-  }, [validRows, importSummary, resetImportState]);
+  }, [resetImportState]);
 
+  // Pause lets calls in progress finish; the dialer stops picking new contacts right away
   const handlePlayPauseToggle = useCallback(() => {
-    setIsPlaying(!isPlaying);
-  }, [isPlaying]);
+    if (isPlaying) {
+      dialer.pause();
+      toast.success('Campaign paused. Calls in progress will finish.');
+      return;
+    }
+
+    dialer.start();
+    const pendingCount = audienceData.filter(contact => isAwaitingCall(contact.status)).length;
+    toast.success(pendingCount > 0
+      ? `Campaign running. ${pendingCount} pending contact(s) to call.`
+      : 'Campaign running. New pending contacts will be called as they are added.');
+  }, [isPlaying, dialer, audienceData]);
 
   const handleFileImport = useCallback(() => {
     if (!selectedFile) {
       toast.error('Please select a file');
       return;
     }
+
+    const nameError = validateListName(listName);
+    if (nameError) {
+      setListNameError(nameError);
+      toast.error(nameError);
+      return;
+    }
     
-    console.log('Starting file import for:', selectedFile.name);
-    processFile(selectedFile);
-  }, [selectedFile, processFile]);
+    if (!parsedSheet) {
+      parseFile(selectedFile);
+      return;
+    }
+
+    processFile(parsedSheet, columnRoles);
+  }, [selectedFile, listName, validateListName, parsedSheet, columnRoles, parseFile, processFile]);
+
+  // Stop the running worker but keep the dialog open with the file still selected
+  const handleCancelImportJob = useCallback(() => {
+    importJobRef.current?.cancel();
+    importJobRef.current = null;
+    setImportProgress(null);
+    setIsLoading(false);
+    toast('Import cancelled');
+  }, []);
 
   const canProceedWithFileUpload = useCallback(() => {
-    return selectedFile !== null;
-  }, [selectedFile]);
+    if (selectedFile === null) return false;
+    if (validateListName(listName) !== '') return false;
+    return parsedSheet === null || validateColumnMapping(columnRoles) === '';
+  }, [selectedFile, listName, validateListName, parsedSheet, columnRoles]);
+
+  const listContactCounts = React.useMemo(() => {
+    const counts: Record<string, number> = {};
+    audienceData.forEach(contact => {
+      if (contact.listId) counts[contact.listId] = (counts[contact.listId] ?? 0) + 1;
+    });
+    return counts;
+  }, [audienceData]);
+
+  const callLogContact = React.useMemo(
+    () => audienceData.find(contact => contact.identifier === callLogContactId) ?? null,
+    [audienceData, callLogContactId],
+  );
+  const callLogAttempts = React.useMemo(
+    () => callAttempts.filter(attempt => attempt.contactId === callLogContactId),
+    [callAttempts, callLogContactId],
+  );
+
+  const handleRemoveList = useCallback((list: AudienceList) => {
+    const removedCount = listContactCounts[list.id] ?? 0;
+    setAudienceData(prev => prev.filter(contact => contact.listId !== list.id));
+    setAudienceLists(prev => prev.filter(existing => existing.id !== list.id));
+    toast.success(`Removed list "${list.name}" and ${removedCount} contact(s)`);
+  }, [listContactCounts]);
+
+  // Open the file import with the list preselected; its contacts are replaced on import
+  const handleReimportList = useCallback((list: AudienceList) => {
+    resetImportState();
+    setReimportListId(list.id);
+    setListName(list.name);
+    setImportOption('file');
+    setShowListsDialog(false);
+    setShowImportModal(true);
+  }, [resetImportState]);
+
+  const updateCampaign = useCallback((patch: Partial<Campaign>) => {
+    setCampaign(prev => ({ ...prev, ...patch }));
+  }, [setCampaign]);
 
   const handleEditCampaign = useCallback(() => {
-    // Placeholder function for edit campaign functionality
-    toast.success('Edit Campaign clicked');
-    console.log('Edit Campaign button clicked');
+    setShowEditCampaignDialog(true);
   }, []);
 
   return (
@@ -1098,7 +1509,23 @@ export const AudienceTableSection = (): JSX.Element => {
       <div className="w-full">
         {/* Header */}
         <div className="flex justify-between items-center mb-4">
-          <h2 className="text-xl font-medium">DirectToNoor</h2>
+          <div>
+            <a
+              href={toHref(ROUTES.campaigns)}
+              className="inline-flex items-center gap-1 text-xs text-gray-500 hover:text-blue-600"
+            >
+              <ArrowLeft className="h-3 w-3" />
+              Campaigns
+            </a>
+            <h2 className="text-xl font-medium flex items-center gap-2" title={campaign.description || undefined}>
+              {campaign.name}
+              {isArchived && (
+                <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
+                  Archived
+                </span>
+              )}
+            </h2>
+          </div>
           <div className="flex gap-2">
             <Button
               variant="outline"
@@ -1109,6 +1536,13 @@ export const AudienceTableSection = (): JSX.Element => {
               Edit Campaign
             </Button>
 
+            <EditCampaignDialog
+              open={showEditCampaignDialog}
+              onOpenChange={setShowEditCampaignDialog}
+              campaign={campaign}
+              onSave={setCampaign}
+            />
+
             <Dialog open={showImportModal} onOpenChange={setShowImportModal}>
               <DialogTrigger asChild>
                 <Button variant="outline" className="h-8 text-xs gap-2">
@@ -1116,11 +1550,11 @@ export const AudienceTableSection = (): JSX.Element => {
                   Import Audience
                 </Button>
               </DialogTrigger>
-              <DialogContent className="max-w-2xl">
+              <DialogContent className={parsedSheet ? 'max-w-4xl' : 'max-w-2xl'}>
                 <DialogHeader className="relative pb-2 pt-2">
                   <DialogTitle className="text-lg font-semibold pr-12 mt-2">Import Audience</DialogTitle>
                   <p className="text-sm text-gray-600 mt-1">
-                    Start adding contacts to the <span className="font-medium text-gray-800">DirectToNoor</span> campaign
+                    Start adding contacts to the <span className="font-medium text-gray-800">{campaign.name}</span> campaign
                   </p>
                   <Button
                     variant="ghost"
@@ -1142,110 +1576,127 @@ export const AudienceTableSection = (): JSX.Element => {
                       <label className="block text-sm font-medium text-gray-700 mb-2">
                         Choose Import Method
                       </label>
-                      <Select value={importOption || ''} onValueChange={(value) => setImportOption(value as 'phonebook' | 'file')}>
+                      <Select value={importOption || ''} onValueChange={(value) => setImportOption(value as ImportOption)}>
                         <SelectTrigger className="w-full">
                           <SelectValue placeholder="Select how you want to import contacts" />
                         </SelectTrigger>
                         <SelectContent>
                           <SelectItem value="phonebook">Import List from Phonebook</SelectItem>
                           <SelectItem value="file">Upload file</SelectItem>
+                          <SelectItem value="segment">Import Saved Segment</SelectItem>
                         </SelectContent>
                       </Select>
                     </div>
 
                     {/* Phonebook Import Section */}
                     {importOption === 'phonebook' && (
-                      <div>
-                        <label className="block text-sm font-medium text-gray-700 mb-2">
-                          Select Phonebook Lists
-                        </label>
-                        
-                        <div className="relative phonebook-dropdown-container">
-                          {/* Dropdown Trigger */}
-                          <button
-                            type="button"
-                            onClick={togglePhonebookDropdown}
-                            className="w-full flex items-center justify-between px-3 py-2 border border-gray-200 rounded-lg bg-white hover:border-gray-300 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
-                          >
-                            <div className="flex items-center gap-2 flex-1 min-w-0">
-                              <Users className="h-4 w-4 text-gray-400 flex-shrink-0" />
-                              <span className="text-sm text-gray-700 truncate">
-                                {getSelectedPhonebooksText()}
-                              </span>
-                              {selectedPhonebooks.length > 0 && (
-                                <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800 flex-shrink-0">
-                                  {selectedPhonebooks.length}
-                                </span>
-                              )}
-                            </div>
-                            <div className={`transform transition-transform duration-200 ${isPhonebookDropdownOpen ? 'rotate-180' : ''}`}>
-                              <svg className="h-4 w-4 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
-                              </svg>
-                            </div>
-                          </button>
-
-                          {/* Dropdown Content */}
-                          {isPhonebookDropdownOpen && (
-                            <>
-                              {/* Backdrop */}
-                              <div 
-                                className="fixed inset-0 z-10" 
-                                onClick={() => setIsPhonebookDropdownOpen(false)}
-                              />
-                              
-                              {/* Dropdown Panel */}
-                              <div className="absolute z-20 w-full mt-1 bg-white border border-gray-200 rounded-lg shadow-lg max-h-64 overflow-hidden">
-                                {/* Header with Select All */}
-                                <div className="flex items-center justify-between px-3 py-2 border-b border-gray-100 bg-gray-50">
-                                  <span className="text-sm font-medium text-gray-700">
-                                    {selectedPhonebooks.length} of {phonebookLists.length} selected
-                                  </span>
-                                  <Button
-                                    type="button"
-                                    variant="ghost"
-                                    size="sm"
-                                    onClick={handleSelectAllPhonebooks}
-                                    className="h-6 px-2 text-xs text-blue-600 hover:text-blue-700 hover:bg-blue-50"
-                                  >
-                                    {selectedPhonebooks.length === phonebookLists.length ? 'Deselect All' : 'Select All'}
-                                  </Button>
-                                </div>
-                                
-                                {/* Scrollable List */}
-                                <div className="max-h-48 overflow-y-auto">
-                                  {phonebookLists.map((list) => (
-                                    <div
-                                      key={list.id}
-                                      className="flex items-center space-x-3 px-3 py-2 hover:bg-gray-50 cursor-pointer transition-colors"
-                                      onClick={() => handlePhonebookToggle(list.id)}
-                                    >
-                                      <Checkbox
-                                        id={`phonebook-${list.id}`}
-                                        checked={selectedPhonebooks.includes(list.id)}
-                                        onCheckedChange={() => handlePhonebookToggle(list.id)}
-                                        className="flex-shrink-0"
-                                      />
-                                      <label
-                                        htmlFor={`phonebook-${list.id}`}
-                                        className="flex-1 text-sm text-gray-700 cursor-pointer"
-                                      >
-                                        <div className="font-medium">{list.name}</div>
-                                        <div className="text-xs text-gray-500">{list.contactCount} contacts</div>
-                                      </label>
-                                    </div>
-                                  ))}
-                                </div>
-                              </div>
-                            </>
-                          )}
+                      <PhonebookImportStep
+                        selected={selectedPhonebooks}
+                        onSelectedChange={handlePhonebooksChange}
+                        progress={phonebookProgress}
+                        preview={phonebookPreview}
+                        onCancelFetch={handleCancelPhonebookFetch}
+                      />
+                    )}
+
+                    {/* Segment Import Section */}
+                    {importOption === 'segment' && (
+                      <SegmentImportStep
+                        existingPhones={existingPhones}
+                        suppressedPhones={suppressedPhones}
+                        segment={selectedSegment}
+                        preview={segmentPreview}
+                        onPreviewChange={handleSegmentPreviewChange}
+                      />
+                    )}
+
+                    {/* Column Mapping Step */}
+                    {importOption === 'file' && selectedFile && parsedSheet && (
+                      <ColumnMappingStep
+                        fileName={selectedFile.name}
+                        sheet={parsedSheet}
+                        roles={columnRoles}
+                        defaultCountry={defaultCountry}
+                        onRolesChange={setColumnRoles}
+                      />
+                    )}
+
+                    {importOption === 'file' && (
+                      <div className="grid grid-cols-2 gap-4">
+                        {/* Default country for national-format numbers */}
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-2">
+                            Default Country
+                          </label>
+                          <Select value={defaultCountry} onValueChange={setDefaultCountry}>
+                            <SelectTrigger className="w-full">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {COUNTRY_PHONE_PLANS.map((plan) => (
+                                <SelectItem key={plan.iso2} value={plan.iso2}>
+                                  {plan.name} (+{plan.callingCode})
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <p className="text-xs text-gray-500 mt-1">
+                            Used for numbers without a country code, such as 0791234567
+                          </p>
+                        </div>
+
+                        {/* Merge policy for phones already in the campaign */}
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-2">
+                            Existing Contacts
+                          </label>
+                          <Select value={duplicatePolicy} onValueChange={(value) => setDuplicatePolicy(value as DuplicatePolicy)}>
+                            <SelectTrigger className="w-full">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {(Object.keys(DUPLICATE_POLICY_LABELS) as DuplicatePolicy[]).map((policy) => (
+                                <SelectItem key={policy} value={policy}>
+                                  {DUPLICATE_POLICY_LABELS[policy]}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <p className="text-xs text-gray-500 mt-1">
+                            Contacts are matched by phone number
+                          </p>
                         </div>
                       </div>
                     )}
 
                     {/* File Upload Section */}
-                    {importOption === 'file' && (
+                    {importOption === 'file' && !parsedSheet && (
                       <div className="space-y-4">
+                        <div>
+                          <label htmlFor="import-list-name" className="block text-sm font-medium text-gray-700 mb-2">
+                            List Name <span className="text-red-500">*</span>
+                          </label>
+                          <input
+                            id="import-list-name"
+                            type="text"
+                            value={listName}
+                            onChange={(e) => handleListNameChange(e.target.value)}
+                            placeholder="e.g. June leads"
+                            maxLength={50}
+                            disabled={reimportListId !== null}
+                            className={`w-full h-10 px-3 text-sm border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-50 disabled:text-gray-500 ${
+                              listNameError ? 'border-red-400' : 'border-gray-300'
+                            }`}
+                          />
+                          {listNameError ? (
+                            <p className="text-xs text-red-600 mt-1">{listNameError}</p>
+                          ) : reimportListId && (
+                            <p className="text-xs text-gray-500 mt-1">
+                              Contacts previously imported into this list will be replaced
+                            </p>
+                          )}
+                        </div>
+
                         <div>
                           <label className="block text-sm font-medium text-gray-700 mb-2">
                             Upload File <span className="text-red-500">*</span>
@@ -1327,7 +1778,7 @@ export const AudienceTableSection = (): JSX.Element => {
                             <ul className="text-xs text-gray-600 space-y-1">
                               <li className="flex items-start gap-2">
                                 <span className="w-1 h-1 bg-gray-400 rounded-full mt-1.5 flex-shrink-0"></span>
-                                <span><strong>Maximum file size:</strong> 10 MB</span>
+                                <span><strong>Maximum file size:</strong> 100 MB for CSV, 25 MB for Excel files</span>
                               </li>
                               <li className="flex items-start gap-2">
                                 <span className="w-1 h-1 bg-gray-400 rounded-full mt-1.5 flex-shrink-0"></span>
@@ -1335,13 +1786,21 @@ export const AudienceTableSection = (): JSX.Element => {
                               </li>
                               <li className="flex items-start gap-2">
                                 <span className="w-1 h-1 bg-gray-400 rounded-full mt-1.5 flex-shrink-0"></span>
-                                <span><strong>Number format:</strong> Must follow international number format standards (e.g., +962771234567) or the country code without (+)</span>
+                                <span><strong>Columns:</strong> Any layout with a header row. You'll choose the name and phone columns in the next step; other columns are kept as custom attributes</span>
+                              </li>
+                              <li className="flex items-start gap-2">
+                                <span className="w-1 h-1 bg-gray-400 rounded-full mt-1.5 flex-shrink-0"></span>
+                                <span><strong>Number format:</strong> International format (e.g., +962771234567), the country code without (+), or a national number for the default country. Numbers are stored in E.164</span>
                               </li>
                             </ul>
                           </div>
                         </div>
                       </div>
                     )}
+
+                    {importProgress && (
+                      <ImportProgressBar progress={importProgress} onCancel={handleCancelImportJob} />
+                    )}
                   </div>
 
                   {/* Bottom buttons section */}
@@ -1357,23 +1816,56 @@ export const AudienceTableSection = (): JSX.Element => {
                       Cancel
                     </Button>
                     
-                    {importOption === 'phonebook' && (
-                      <Button 
+                    {importOption === 'segment' && (
+                      <Button
+                        onClick={handleSegmentImport}
+                        disabled={!segmentPreview || segmentPreview.contacts.length === 0}
+                        className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed"
+                      >
+                        {`Import ${segmentPreview?.contacts.length ?? 0} Contacts`}
+                      </Button>
+                    )}
+
+                    {importOption === 'phonebook' && phonebookPreview && (
+                      <Button
                         onClick={handlePhonebookImport}
+                        disabled={phonebookPreview.contacts.length === 0}
+                        className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed"
+                      >
+                        {`Import ${phonebookPreview.contacts.length} Contacts`}
+                      </Button>
+                    )}
+
+                    {importOption === 'phonebook' && !phonebookPreview && (
+                      <Button
+                        onClick={handlePhonebookPreview}
                         disabled={selectedPhonebooks.length === 0 || isLoading}
                         className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed"
                       >
                         {isLoading ? (
                           <>
                             <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                            Importing...
+                            Loading...
                           </>
                         ) : (
-                          `Import (${selectedPhonebooks.length})`
+                          `Preview (${selectedPhonebooks.length})`
                         )}
                       </Button>
                     )}
 
+                    {importOption === 'file' && parsedSheet && (
+                      <Button
+                        variant="outline"
+                        onClick={() => {
+                          setParsedSheet(null);
+                          setColumnRoles([]);
+                        }}
+                        disabled={isLoading}
+                      >
+                        Back
+                      </Button>
+                    )}
+
                     {importOption === 'file' && (
                       <Button 
                         onClick={handleFileImport}
@@ -1385,8 +1877,10 @@ export const AudienceTableSection = (): JSX.Element => {
                             <Loader2 className="h-4 w-4 mr-2 animate-spin" />
                             Processing...
                           </>
+                        ) : parsedSheet ? (
+                          `Import ${parsedSheet.rows.length} Rows`
                         ) : (
-                          'Upload & Import'
+                          'Continue'
                         )}
                       </Button>
                     )}
@@ -1395,137 +1889,97 @@ export const AudienceTableSection = (): JSX.Element => {
               </DialogContent>
             </Dialog>
 
-            {/* Enhanced Error Modal */}
-            <Dialog open={showErrorModal} onOpenChange={setShowErrorModal}>
-              <DialogContent className="max-w-4xl max-h-[90vh] overflow-hidden flex flex-col">
-                <DialogHeader className="flex-shrink-0 pb-4 border-b relative">
-                  <DialogTitle className="text-lg font-semibold flex items-center gap-2 pr-12">
-                    <AlertTriangle className="h-5 w-5 text-amber-500" />
-                    Import Validation Results
-                  </DialogTitle>
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    className="absolute top-0 right-0 h-8 w-8 p-0 hover:bg-gray-100 focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 z-10"
-                    onClick={() => setShowErrorModal(false)}
-                  >
-                    <X className="h-4 w-4 text-gray-500 hover:text-gray-700" />
-                  </Button>
-                </DialogHeader>
-
-                <div className="flex-1 overflow-hidden flex flex-col">
-                  {/* Summary Section */}
-                  {importSummary && (
-                    <div className="flex-shrink-0 mb-6">
-                      <div className="grid grid-cols-4 gap-4 mb-4">
-                        <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 text-center">
-                          <div className="text-2xl font-bold text-blue-600">{importSummary.totalRows}</div>
-                          <div className="text-sm text-blue-700 font-medium">Total Contacts</div>
-                          <div className="text-xs text-blue-600 mt-1">Processed</div>
-                        </div>
-                        <div className="bg-green-50 border border-green-200 rounded-lg p-4 text-center">
-                          <div className="text-2xl font-bold text-green-600">{importSummary.validRows}</div>
-                          <div className="text-sm text-green-700 font-medium">Valid Contacts</div>
-                          <div className="text-xs text-green-600 mt-1">Ready to import</div>
-                        </div>
-                        <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-center">
-                          <div className="text-2xl font-bold text-red-600">{importSummary.invalidRows}</div>
-                          <div className="text-sm text-red-700 font-medium">Invalid Contacts</div>
-                          <div className="text-xs text-red-600 mt-1">Need correction</div>
-                        </div>
-                        <div className="bg-orange-50 border border-orange-200 rounded-lg p-4 text-center">
-                          <div className="text-2xl font-bold text-orange-600">{importSummary.duplicatesRemoved}</div>
-                          <div className="text-sm text-orange-700 font-medium">Duplicates Removed</div>
-                          <div className="text-xs text-orange-600 mt-1">Automatically filtered</div>
-                        </div>
-                      </div>
-                    </div>
-                  )}
-
-                  {/* Error Details Section */}
-                  {validationErrors.length > 0 && (
-                    <div className="flex-1 overflow-hidden flex flex-col">
-                      <div className="flex-shrink-0 mb-3">
-                        <h3 className="text-base font-semibold text-gray-900 flex items-center gap-2">
-                          <AlertCircle className="h-4 w-4 text-red-500" />
-                          Validation Errors ({validationErrors.length})
-                        </h3>
-                        <p className="text-sm text-gray-600 mt-1">
-                          The following rows contain errors that need to be corrected:
-                        </p>
-                      </div>
+            {/* Import Validation Report */}
+            <ImportReportDialog
+              open={showErrorModal}
+              summary={importSummary}
+              errors={validationErrors}
+              rows={reviewRows}
+              validCount={validRows.length}
+              fileName={selectedFile?.name ?? ''}
+              isDirty={reviewDirty}
+              progress={importProgress}
+              onCancelValidation={handleCancelImportJob}
+              onRowChange={handleReviewRowChange}
+              onRevalidate={handleRevalidate}
+              onConfirm={handleImportConfirm}
+              onBack={handleReportBack}
+              onClose={handleReportClose}
+            />
+
+            {/* Dialer status and line count */}
+            <div className="flex items-center gap-2 text-xs text-gray-600">
+              {isPlaying && !isWaiting && (
+                <span className="inline-flex items-center gap-1.5">
+                  <span className="w-2 h-2 rounded-full bg-green-500 animate-pulse" />
+                  Running · {dialer.activeCallIds.length} active call(s)
+                </span>
+              )}
+              {isWaiting && (
+                <span className="inline-flex items-center gap-1.5">
+                  <span className="w-2 h-2 rounded-full bg-amber-500" />
+                  {nextCallable?.isRetry ? 'Waiting for retry' : 'Waiting for window'} · {nextActiveLabel}
+                </span>
+              )}
+              {dialer.state === 'pausing' && (
+                <span className="inline-flex items-center gap-1.5">
+                  <Loader2 className="h-3 w-3 animate-spin" />
+                  Pausing · finishing {dialer.activeCallIds.length} call(s)
+                </span>
+              )}
+              {(dialer.state === 'paused' || dialer.state === 'idle') && (
+                <span className="inline-flex items-center gap-1.5">
+                  <span className="w-2 h-2 rounded-full bg-gray-400" />
+                  Paused{hasPendingContacts && ` · ${nextActiveLabel}`}
+                </span>
+              )}
+              <Select
+                value={String(campaign.maxConcurrency)}
+                onValueChange={(value) => updateCampaign({ maxConcurrency: Number(value) })}
+              >
+                <SelectTrigger className="h-8 w-[92px] text-xs" aria-label="Max concurrent calls">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CONCURRENCY_OPTIONS.map((option) => (
+                    <SelectItem key={option} value={String(option)} className="text-xs">
+                      {option} {option === 1 ? 'line' : 'lines'}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="outline"
+                className="h-8 text-xs gap-2"
+                onClick={() => setShowRetryPolicyDialog(true)}
+                title={`Up to ${campaign.retryPolicy.maxAttempts} attempts per contact`}
+              >
+                <RotateCcw className="h-3.5 w-3.5" />
+                Retry Policy
+              </Button>
+              <Button
+                variant="outline"
+                className="h-8 text-xs gap-2"
+                onClick={() => setShowScheduleDialog(true)}
+              >
+                <Clock className="h-3.5 w-3.5" />
+                Schedule
+              </Button>
+            </div>
 
-                      <div className="flex-1 overflow-y-auto border border-gray-200 rounded-lg">
-                        <div className="divide-y divide-gray-100">
-                          {validationErrors.map((error, index) => (
-                            <div key={index} className="p-4 hover:bg-gray-50">
-                              <div className="flex items-start gap-3">
-                                <div className="flex-shrink-0 w-8 h-8 bg-red-100 rounded-full flex items-center justify-center">
-                                  <span className="text-xs font-medium text-red-600">
-                                    {error.row}
-                                  </span>
-                                </div>
-                                <div className="flex-1 min-w-0">
-                                  <div className="flex items-center gap-2 mb-1">
-                                    <span className="text-sm font-medium text-gray-900">
-                                      Row {error.row}
-                                    </span>
-                                    <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-red-100 text-red-800">
-                                      {error.field}
-                                    </span>
-                                  </div>
-                                  <div className="text-sm text-gray-600 mb-1">
-                                    <span className="font-medium">Value:</span> "{error.value || '(empty)'}"
-                                  </div>
-                                  <div className="text-sm text-red-600 mb-2">
-                                    <span className="font-medium">Error:</span> {error.error}
-                                  </div>
-                                  {error.suggestion && (
-                                    <div className="text-sm text-blue-600 bg-blue-50 rounded px-2 py-1">
-                                      <span className="font-medium">Suggestion:</span> {error.suggestion}
-                                    </div>
-                                  )}
-                                </div>
-                              </div>
-                            </div>
-                          ))}
-                        </div>
-                      </div>
-                    </div>
-                  )}
-                </div>
+            <CallingScheduleDialog
+              open={showScheduleDialog}
+              onOpenChange={setShowScheduleDialog}
+              schedule={campaign.schedule}
+              onSave={(schedule) => updateCampaign({ schedule })}
+            />
 
-                {/* Action Buttons */}
-                <div className="flex-shrink-0 pt-4 border-t">
-                  <div className="flex items-center justify-between">
-                    <div className="text-sm text-gray-600">
-                      {validRows.length > 0 && (
-                        <span>Proceeding with {validRows.length} of {importSummary?.totalRows} contacts</span>
-                      )}
-                    </div>
-                    <div className="flex gap-3">
-                      <Button
-                        variant="outline"
-                        onClick={() => {
-                          setShowErrorModal(false);
-                          setShowImportModal(true);
-                        }}
-                      >
-                        Cancel Upload
-                      </Button>
-                      <Button
-                        onClick={handleImportConfirm}
-                        disabled={validRows.length === 0}
-                        className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed"
-                      >
-                        <CheckCircle2 className="h-4 w-4 mr-2" />
-                        Proceed with Valid Contacts ({validRows.length})
-                      </Button>
-                    </div>
-                  </div>
-                </div>
-              </DialogContent>
-            </Dialog>
+            <RetryPolicyDialog
+              open={showRetryPolicyDialog}
+              onOpenChange={setShowRetryPolicyDialog}
+              policy={campaign.retryPolicy}
+              onSave={(retryPolicy) => updateCampaign({ retryPolicy })}
+            />
 
             <Button
               variant={isPlaying ? "destructive" : "default"}
@@ -1533,6 +1987,8 @@ export const AudienceTableSection = (): JSX.Element => {
                 isPlaying ? "bg-red-600 hover:bg-red-700" : "bg-blue-600 hover:bg-blue-700"
               }`}
               onClick={handlePlayPauseToggle}
+              disabled={isArchived && !isPlaying}
+              title={isArchived ? 'Restore the campaign to run it' : undefined}
             >
               {isPlaying ? (
                 <Pause className="h-3.5 w-3.5" />
@@ -1604,12 +2060,48 @@ export const AudienceTableSection = (): JSX.Element => {
                         Export Contacts
                       </DropdownMenuItem>
                       <DropdownMenuItem
-                        onClick={() => setShowBulkStopConfirm(true)}
+                        onClick={() => handleOpenBulkAction('resume')}
+                        className="flex items-center gap-2"
+                      >
+                        <Play className="w-4 h-4" />
+                        Resume Contacts
+                      </DropdownMenuItem>
+                      <DropdownMenuItem
+                        onClick={handleBulkCallNow}
+                        className="flex items-center gap-2"
+                      >
+                        <Phone className="w-4 h-4" />
+                        Call Now
+                      </DropdownMenuItem>
+                      <DropdownMenuItem
+                        onClick={() => handleOpenBulkAction('move')}
+                        className="flex items-center gap-2"
+                      >
+                        <List className="w-4 h-4" />
+                        Move to List
+                      </DropdownMenuItem>
+                      <DropdownMenuItem
+                        onClick={() => handleOpenBulkAction('reset')}
+                        className="flex items-center gap-2"
+                      >
+                        <RotateCcw className="w-4 h-4" />
+                        Reset Tries
+                      </DropdownMenuItem>
+                      <DropdownMenuSeparator />
+                      <DropdownMenuItem
+                        onClick={() => handleOpenBulkAction('stop')}
                       className="w-full px-3 py-2 text-left text-sm hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2 text-red-600"                      >
                          <StopCircle className="w-4 h-4" />
                         Stop Contacts
                        
                       </DropdownMenuItem>
+                      <DropdownMenuItem
+                        onClick={() => handleOpenBulkAction('delete')}
+                        className="flex items-center gap-2 text-red-600"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                        Delete Contacts
+                      </DropdownMenuItem>
                     </DropdownMenuContent>
                   </DropdownMenu>
                 </div>
@@ -1618,12 +2110,33 @@ export const AudienceTableSection = (): JSX.Element => {
             
            
             
-            <Button variant="outline" className="h-8 text-xs gap-2">
-              <div className="w-3.5 h-3.5 bg-[url(/frame-8.svg)] bg-[100%_100%]" />
-              Export
-            </Button>
+            <div className="flex items-center gap-2">
+              <Button
+                variant="outline"
+                className="h-8 text-xs gap-2"
+                onClick={() => setShowListsDialog(true)}
+              >
+                <List className="h-3.5 w-3.5" />
+                Lists ({audienceLists.length})
+              </Button>
+              <Button
+                variant="outline"
+                className="h-8 text-xs gap-2"
+                onClick={() => setShowExportDialog(true)}
+              >
+                <div className="w-3.5 h-3.5 bg-[url(/frame-8.svg)] bg-[100%_100%]" />
+                Export
+              </Button>
+            </div>
           </div>
 
+          <AudienceFilterBar
+            filters={filters}
+            statusCounts={statusCounts}
+            onFiltersChange={handleFiltersChange}
+            onReset={handleResetFilters}
+          />
+
           <Table>
             <TableHeader className="bg-neutral-50">
               <TableRow>
@@ -1636,27 +2149,27 @@ export const AudienceTableSection = (): JSX.Element => {
                     {...(isIndeterminate && { 'data-state': 'indeterminate' })}
                   />
                 </TableHead>
-                <TableHead className="font-semibold text-xs text-[#000000e0]">
+                <SortableTableHead sortKey="identifier" sort={sort} onSort={handleSort}>
                   ID
-                </TableHead>
-                <TableHead className="font-semibold text-xs text-[#000000e0]">
+                </SortableTableHead>
+                <SortableTableHead sortKey="name" sort={sort} onSort={handleSort}>
                   Name
-                </TableHead>
-                <TableHead className="font-semibold text-xs text-[#000000e0]">
+                </SortableTableHead>
+                <SortableTableHead sortKey="phone" sort={sort} onSort={handleSort}>
                   Phone
-                </TableHead>
-                <TableHead className="font-semibold text-xs text-[#000000e0]">
+                </SortableTableHead>
+                <SortableTableHead sortKey="createdAt" sort={sort} onSort={handleSort}>
                   Created at
-                </TableHead>
-                <TableHead className="font-semibold text-xs text-[#000000e0]">
+                </SortableTableHead>
+                <SortableTableHead sortKey="status" sort={sort} onSort={handleSort}>
                   Status
-                </TableHead>
-                <TableHead className="font-semibold text-xs text-[#000000e0]">
+                </SortableTableHead>
+                <SortableTableHead sortKey="tries" sort={sort} onSort={handleSort}>
                   Number of Tries
-                </TableHead>
-                <TableHead className="font-semibold text-xs text-[#000000e0]">
+                </SortableTableHead>
+                <SortableTableHead sortKey="result" sort={sort} onSort={handleSort}>
                   Result
-                </TableHead>
+                </SortableTableHead>
                 <TableHead className="font-semibold text-xs text-[#000000e0]">
                   Call Logs
                 </TableHead>
@@ -1666,7 +2179,16 @@ export const AudienceTableSection = (): JSX.Element => {
               </TableRow>
             </TableHeader>
             <TableBody>
-              {audienceData.map((row, index) => (
+              {paginatedData.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={10} className="text-center text-xs text-gray-500 py-8">
+                    {audienceData.length === 0
+                      ? 'No contacts yet. Import an audience to get started.'
+                      : 'No contacts match the current filters.'}
+                  </TableCell>
+                </TableRow>
+              )}
+              {paginatedData.map((row, index) => (
                 <TableRow key={`${row.identifier}-${index}`}>
                   <TableCell className="text-xs text-[#000000e0] w-12">
                     <Checkbox
@@ -1683,20 +2205,43 @@ export const AudienceTableSection = (): JSX.Element => {
                     {row.name}
                   </TableCell>
                   <TableCell className="text-xs text-[#000000e0]">
-                    {row.phone}
+                    <div>{row.phone}</div>
+                    {row.country && (
+                      <div className="text-[10px] text-gray-500">
+                        {row.country}
+                        {row.phoneType && ` · ${PHONE_NUMBER_TYPE_LABELS[row.phoneType]}`}
+                      </div>
+                    )}
                   </TableCell>
                   <TableCell className="text-xs text-[#000000e0]">
                     {row.createdAt}
                   </TableCell>
                   <TableCell className="text-xs text-[#000000e0]">
-                    <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${
-                      row.status === 'Serviced' ? 'bg-green-100 text-green-800' :
-                      row.status === 'Pending' ? 'bg-yellow-100 text-yellow-800' :
-                      row.status === 'Stopped' ? 'bg-red-100 text-red-800' :
-                      'bg-gray-100 text-gray-800'
-                    }`}>
+                    <span
+                      className={`inline-flex items-center gap-1 px-2 py-1 rounded-full text-xs font-medium ${STATUS_BADGE_CLASSES[row.status]}`}
+                      title={row.status === 'Suppressed' && suppressedPhones.has(row.phone)
+                        ? `On the do-not-call list: ${suppressedPhones.get(row.phone)}`
+                        : undefined}
+                    >
+                      {isOnCall(row.status) && <Phone className="h-3 w-3 animate-pulse" />}
+                      {row.status === 'Suppressed' && <Ban className="h-3 w-3" />}
                       {row.status}
                     </span>
+                    {/* Still waiting to be dialed, or dialed before the number was listed */}
+                    {row.status !== 'Suppressed' && suppressedPhones.has(row.phone) && (
+                      <span
+                        className="inline-flex items-center gap-1 ml-1 px-2 py-1 rounded-full text-xs font-medium bg-gray-900 text-white"
+                        title={`On the do-not-call list: ${suppressedPhones.get(row.phone)}`}
+                      >
+                        <Ban className="h-3 w-3" />
+                        DNC
+                      </span>
+                    )}
+                    {row.nextAttemptAt && isWaitingForRetry(row, now) && (
+                      <div className="text-[10px] text-gray-500 mt-1">
+                        Next attempt at {formatCreatedAt(new Date(row.nextAttemptAt))}
+                      </div>
+                    )}
                   </TableCell>
                   <TableCell className="text-xs text-[#000000e0]">
                     {row.tries}
@@ -1710,7 +2255,7 @@ export const AudienceTableSection = (): JSX.Element => {
                       className="text-blue-600 underline hover:text-blue-800 cursor-pointer transition-colors"
                       onClick={(e) => {
                         e.preventDefault();
-                        toast.success(`Viewing call logs for ${row.name}`);
+                        setCallLogContactId(row.identifier);
                       }}
                     >
                       View Calls
@@ -1733,90 +2278,65 @@ export const AudienceTableSection = (): JSX.Element => {
           </Table>
 
           {/* Pagination */}
-          <div className="flex justify-end items-center p-2 border-t">
-            <div className="flex items-center gap-4">
-              <span className="text-xs text-[#000000e0]">
-                • Showing 1-{audienceData.length} of {audienceData.length} items
-              </span>
-
-              <Pagination>
-                <PaginationContent>
-                  <PaginationItem>
-                    <PaginationPrevious className="h-8 w-8 p-0" />
-                  </PaginationItem>
-                  <PaginationItem>
-                    <PaginationLink className="h-8 w-8 p-0" isActive>
-                      1
-                    </PaginationLink>
-                  </PaginationItem>
-                  <PaginationItem>
-                    <PaginationNext className="h-8 w-8 p-0" />
-                  </PaginationItem>
-                </PaginationContent>
-              </Pagination>
-
-              <Select defaultValue="10">
-                <SelectTrigger className="w-[101px] h-8">
-                  <SelectValue placeholder="10 / page" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="10">10 / page</SelectItem>
-                  <SelectItem value="20">20 / page</SelectItem>
-                  <SelectItem value="50">50 / page</SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
-          </div>
+          <AudienceTablePagination
+            currentPage={currentPage}
+            pageSize={pageSize}
+            totalItems={sortedData.length}
+            onPageChange={setCurrentPage}
+            onPageSizeChange={handlePageSizeChange}
+          />
         </Card>
 
-        {/* Bulk Stop Confirmation Dialog */}
-        <Dialog open={showBulkStopConfirm} onOpenChange={setShowBulkStopConfirm}>
-          <DialogContent className="max-w-md">
-            <DialogHeader>
-              <DialogTitle className="flex items-center gap-2">
-                <AlertTriangle className="h-5 w-5 text-amber-500" />
-                Confirm Bulk Stop
-              </DialogTitle>
-            </DialogHeader>
-            
-            <div className="py-4">
-              <p className="text-sm text-gray-600 mb-4">
-                Are you sure you want to stop <span className="font-semibold text-gray-900">{selectedRows.size}</span> selected contacts?
-              </p>
-              <p className="text-xs text-gray-500">
-                This action will change the status of all selected contacts to "Stopped" and they will no longer be processed in the campaign.
-              </p>
-            </div>
-            
-            <div className="flex justify-end gap-3">
-              <Button
-                variant="outline"
-                onClick={() => setShowBulkStopConfirm(false)}
-                disabled={bulkActionInProgress === 'stop'}
-              >
-                Cancel
-              </Button>
-              <Button
-                variant="destructive"
-                onClick={handleBulkStop}
-                disabled={bulkActionInProgress === 'stop'}
-                className="bg-red-600 hover:bg-red-700"
-              >
-                {bulkActionInProgress === 'stop' ? (
-                  <>
-                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                    Stopping...
-                  </>
-                ) : (
-                  <>
-                    <StopCircle className="h-4 w-4 mr-2" />
-                    Stop Contacts
-                  </>
-                )}
-              </Button>
-            </div>
-          </DialogContent>
-        </Dialog>
+        {/* Export Dialog */}
+        <ExportDialog
+          open={showExportDialog}
+          onOpenChange={setShowExportDialog}
+          campaignName={campaign.name}
+          allContacts={audienceData}
+          filteredContacts={sortedData}
+          hasActiveFilters={hasActiveFilters}
+        />
+
+        {/* Imported Lists Dialog */}
+        <AudienceListsDialog
+          open={showListsDialog}
+          onOpenChange={setShowListsDialog}
+          campaignName={campaign.name}
+          lists={audienceLists}
+          contactCounts={listContactCounts}
+          onRemoveList={handleRemoveList}
+          onReimportList={handleReimportList}
+        />
+
+        {/* Call Log Drawer */}
+        <CallLogDrawer
+          contact={callLogContact}
+          onOpenChange={(open) => !open && setCallLogContactId(null)}
+          campaignName={campaign.name}
+          attempts={callLogAttempts}
+        />
+
+        <BulkActionDialog
+          action={bulkAction}
+          onClose={handleCloseBulkAction}
+          summary={bulkActionSummary}
+          progress={bulkProgress}
+          result={bulkResult}
+          moveTarget={{
+            lists: audienceLists,
+            listId: moveListId,
+            onListIdChange: setMoveListId,
+            newListName,
+            onNewListNameChange: (name) => {
+              setNewListName(name);
+              setNewListNameError('');
+            },
+            newListNameError,
+          }}
+          onConfirm={handleConfirmBulkAction}
+          onCancelRun={handleCancelBulkAction}
+          onRetryFailed={handleRetryFailedBulkAction}
+        />
       </div>
     </section>
   );
@@ -0,0 +1,298 @@
+import React from "react";
+import { AlertTriangle, List, Loader2, Play, RefreshCw, RotateCcw, StopCircle, Trash2 } from "lucide-react";
+import { Button } from "../../../../components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "../../../../components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../../../../components/ui/select";
+import { BulkProgress } from "../../../../lib/api";
+import { AudienceList } from "../../../../lib/audience";
+import { BulkActionSummary, BulkActionType } from "./bulkActions";
+
+// Enough to spot a pattern; the failed contacts stay selected for a closer look
+const MAX_FAILURES_SHOWN = 50;
+
+// Select value for "create a new list" in the move picker
+export const NEW_LIST_OPTION = '__new__';
+
+// Actions that are confirmed in this dialog; "call now" just queues and reports with a toast
+export type DialogBulkAction = Exclude<BulkActionType, 'call-now'>;
+
+interface BulkActionCopy {
+  title: string;
+  confirmLabel: string;
+  icon: React.ElementType;
+  // Shown with the progress bar, e.g. "Stopping contacts... 40%"
+  runningLabel: string;
+  // Past tense for results, e.g. "12 stopped"
+  done: string;
+  question: (count: number) => string;
+  description: string;
+  destructive: boolean;
+}
+
+export const BULK_ACTION_COPY: Record<DialogBulkAction, BulkActionCopy> = {
+  'stop': {
+    title: 'Confirm Bulk Stop',
+    confirmLabel: 'Stop Contacts',
+    icon: StopCircle,
+    runningLabel: 'Stopping contacts',
+    done: 'stopped',
+    question: (count) => `Are you sure you want to stop ${count} selected contacts?`,
+    description: 'Their status will change to "Stopped" and they will no longer be processed in the campaign.',
+    destructive: true,
+  },
+  'resume': {
+    title: 'Resume Contacts',
+    confirmLabel: 'Resume Contacts',
+    icon: Play,
+    runningLabel: 'Resuming contacts',
+    done: 'resumed',
+    question: (count) => `Resume ${count} stopped contacts?`,
+    description: 'They go back to Pending and the dialer will call them again.',
+    destructive: false,
+  },
+  'reset': {
+    title: 'Reset Tries',
+    confirmLabel: 'Reset Tries',
+    icon: RotateCcw,
+    runningLabel: 'Resetting contacts',
+    done: 'reset',
+    question: (count) => `Reset tries for ${count} selected contacts?`,
+    description: 'Tries go back to 0 and status to Pending, so the next run calls them again as a new wave. Their call log is kept.',
+    destructive: true,
+  },
+  'move': {
+    title: 'Move to List',
+    confirmLabel: 'Move Contacts',
+    icon: List,
+    runningLabel: 'Moving contacts',
+    done: 'moved',
+    question: (count) => `Move ${count} selected contacts to:`,
+    description: 'A contact belongs to one list at a time, so they leave their current list.',
+    destructive: false,
+  },
+  'delete': {
+    title: 'Delete Contacts',
+    confirmLabel: 'Delete Contacts',
+    icon: Trash2,
+    runningLabel: 'Deleting contacts',
+    done: 'deleted',
+    question: (count) => `Delete ${count} selected contacts from this campaign?`,
+    description: 'You can undo this for a few seconds after deleting. Their call log is kept.',
+    destructive: true,
+  },
+};
+
+export interface BulkActionFailure {
+  contactId: string;
+  name: string;
+  error: string;
+}
+
+// Result of a run that had failures; runs where everything succeeded just close the dialog
+export interface BulkActionResult {
+  succeeded: number;
+  failures: BulkActionFailure[];
+}
+
+// List picker state for the move action
+interface MoveTarget {
+  lists: AudienceList[];
+  // An existing list id or NEW_LIST_OPTION
+  listId: string;
+  onListIdChange: (listId: string) => void;
+  newListName: string;
+  onNewListNameChange: (name: string) => void;
+  newListNameError: string;
+}
+
+interface BulkActionDialogProps {
+  action: DialogBulkAction | null;
+  onClose: () => void;
+  summary: BulkActionSummary;
+  // Set while a run is in progress
+  progress: BulkProgress | null;
+  result: BulkActionResult | null;
+  moveTarget: MoveTarget;
+  onConfirm: () => void;
+  onCancelRun: () => void;
+  onRetryFailed: () => void;
+}
+
+export const BulkActionDialog: React.FC<BulkActionDialogProps> = ({
+  action,
+  onClose,
+  summary,
+  progress,
+  result,
+  moveTarget,
+  onConfirm,
+  onCancelRun,
+  onRetryFailed,
+}) => {
+  // Keep the last action's copy while the dialog animates closed
+  const lastActionRef = React.useRef<DialogBulkAction>('stop');
+  if (action) lastActionRef.current = action;
+  const copy = BULK_ACTION_COPY[lastActionRef.current];
+  const Icon = copy.icon;
+
+  const isRunning = progress !== null;
+  const percent = progress && progress.total > 0 ? Math.round((progress.processed / progress.total) * 100) : 0;
+  const eligibleCount = summary.eligible.length;
+  const confirmClassName = copy.destructive ? 'bg-red-600 hover:bg-red-700' : 'bg-blue-600 hover:bg-blue-700 text-white';
+
+  return (
+    <Dialog open={action !== null} onOpenChange={(isOpen) => !isOpen && !isRunning && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <AlertTriangle className="h-5 w-5 text-amber-500" />
+            {result && !isRunning ? 'Some Contacts Failed' : copy.title}
+          </DialogTitle>
+        </DialogHeader>
+
+        {isRunning ? (
+          <div className="py-4" role="status" aria-live="polite">
+            <div className="flex items-center justify-between mb-2 text-sm font-medium text-gray-700">
+              <span className="flex items-center gap-2">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                {copy.runningLabel}... {percent}%
+              </span>
+              <span className="text-xs text-gray-500">
+                {progress.processed.toLocaleString()} of {progress.total.toLocaleString()}
+              </span>
+            </div>
+            <div
+              className="h-2 w-full bg-gray-100 rounded-full overflow-hidden"
+              role="progressbar"
+              aria-valuemin={0}
+              aria-valuemax={100}
+              aria-valuenow={percent}
+            >
+              <div
+                className={`h-full transition-[width] duration-200 ${copy.destructive ? 'bg-red-600' : 'bg-blue-600'}`}
+                style={{ width: `${percent}%` }}
+              />
+            </div>
+          </div>
+        ) : result ? (
+          <div className="py-4">
+            <p className="text-sm text-gray-600 mb-3">
+              <span className="font-semibold text-gray-900">{result.succeeded}</span> {copy.done},{' '}
+              <span className="font-semibold text-red-600">{result.failures.length}</span> failed.
+              The failed contacts are still selected.
+            </p>
+            <ul className="max-h-48 overflow-y-auto border border-gray-200 rounded-lg divide-y divide-gray-100">
+              {result.failures.slice(0, MAX_FAILURES_SHOWN).map(failure => (
+                <li key={failure.contactId} className="px-3 py-2 text-sm">
+                  <span className="font-medium text-gray-900">{failure.name}</span>
+                  <span className="block text-xs text-red-600">{failure.error}</span>
+                </li>
+              ))}
+              {result.failures.length > MAX_FAILURES_SHOWN && (
+                <li className="px-3 py-2 text-xs text-gray-500">
+                  {result.failures.length - MAX_FAILURES_SHOWN} more not shown
+                </li>
+              )}
+            </ul>
+          </div>
+        ) : (
+          <div className="py-4">
+            <p className="text-sm text-gray-600 mb-4">
+              {eligibleCount > 0 ? copy.question(eligibleCount) : 'None of the selected contacts can be changed this way.'}
+            </p>
+            {action === 'move' && (
+              <div className="mb-4 space-y-2">
+                <Select value={moveTarget.listId} onValueChange={moveTarget.onListIdChange}>
+                  <SelectTrigger className="h-10 text-sm" aria-label="Target list">
+                    <SelectValue placeholder="Select a list" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {moveTarget.lists.map((list) => (
+                      <SelectItem key={list.id} value={list.id} className="text-sm">
+                        {list.name}
+                      </SelectItem>
+                    ))}
+                    <SelectItem value={NEW_LIST_OPTION} className="text-sm">
+                      New list...
+                    </SelectItem>
+                  </SelectContent>
+                </Select>
+                {moveTarget.listId === NEW_LIST_OPTION && (
+                  <div>
+                    <input
+                      type="text"
+                      value={moveTarget.newListName}
+                      onChange={(e) => moveTarget.onNewListNameChange(e.target.value)}
+                      placeholder="List name"
+                      aria-label="New list name"
+                      className={`w-full h-10 px-3 text-sm border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 ${moveTarget.newListNameError ? 'border-red-400' : 'border-gray-200'}`}
+                    />
+                    {moveTarget.newListNameError && (
+                      <p className="mt-1 text-xs text-red-600">{moveTarget.newListNameError}</p>
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
+            {summary.skipped.length > 0 && (
+              <ul className="mb-4 space-y-1 text-sm text-gray-600">
+                {summary.skipped.map(({ reason, count }) => (
+                  <li key={reason}>{count} {reason} will be skipped</li>
+                ))}
+              </ul>
+            )}
+            <p className="text-xs text-gray-500">{copy.description}</p>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-3">
+          {isRunning ? (
+            <Button variant="outline" onClick={onCancelRun}>
+              Cancel
+            </Button>
+          ) : result ? (
+            <>
+              <Button variant="outline" onClick={onClose}>
+                Close
+              </Button>
+              <Button
+                variant={copy.destructive ? 'destructive' : 'default'}
+                onClick={onRetryFailed}
+                className={confirmClassName}
+              >
+                <RefreshCw className="h-4 w-4 mr-2" />
+                Retry Failed
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button variant="outline" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button
+                variant={copy.destructive ? 'destructive' : 'default'}
+                onClick={onConfirm}
+                disabled={eligibleCount === 0}
+                className={confirmClassName}
+              >
+                <Icon className="h-4 w-4 mr-2" />
+                {copy.confirmLabel}
+              </Button>
+            </>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
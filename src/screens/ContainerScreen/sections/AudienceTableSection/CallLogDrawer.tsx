@@ -0,0 +1,220 @@
+import React from "react";
+import { ChevronDown, Clock, Download, PhoneCall } from "lucide-react";
+import toast from 'react-hot-toast';
+import { Button } from "../../../../components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "../../../../components/ui/dropdown-menu";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "../../../../components/ui/sheet";
+import { AudienceData, formatCreatedAt } from "../../../../lib/audience";
+import { isAwaitingCall } from "../../../../lib/contactStatus";
+import { CallAttempt, formatCallDuration } from "../../../../lib/dialer/callAttempt";
+import { CALL_OUTCOME_LABELS, CallOutcome } from "../../../../lib/dialer/telephony";
+import {
+  EXPORT_FORMAT_LABELS,
+  ExportFormat,
+  buildExportFilename,
+  exportRecords,
+} from "./exportAudience";
+
+interface CallLogDrawerProps {
+  // The drawer is open while a contact is set
+  contact: AudienceData | null;
+  onOpenChange: (open: boolean) => void;
+  campaignName: string;
+  attempts: CallAttempt[];
+}
+
+const DISPOSITION_CLASSES: Record<CallOutcome, string> = {
+  'answered': 'bg-green-100 text-green-800',
+  'busy': 'bg-yellow-100 text-yellow-800',
+  'no-answer': 'bg-yellow-100 text-yellow-800',
+  'rejected': 'bg-red-100 text-red-800',
+  'unreachable': 'bg-gray-100 text-gray-800',
+  'failed': 'bg-red-100 text-red-800',
+};
+
+const CALL_LOG_HEADERS = [
+  'Attempt',
+  'Started At',
+  'Duration',
+  'Disposition',
+  'Agent',
+  'IVR Path',
+  'Hang-up Cause',
+  'Recording',
+  'Next Attempt At',
+];
+
+const toCallLogRow = (attempt: CallAttempt): Record<string, string | number> => ({
+  'Attempt': attempt.attemptNumber,
+  'Started At': attempt.startedAt,
+  'Duration': formatCallDuration(attempt.durationSeconds),
+  'Disposition': CALL_OUTCOME_LABELS[attempt.disposition],
+  'Agent': attempt.agent ?? '',
+  'IVR Path': attempt.ivrPath?.join(' > ') ?? '',
+  'Hang-up Cause': attempt.hangupCause ?? '',
+  'Recording': attempt.recordingRef ?? '',
+  'Next Attempt At': attempt.nextAttemptAt ?? '',
+});
+
+// "1h 30m" / "45m" / "under a minute"
+const formatWait = (ms: number): string => {
+  const totalMinutes = Math.round(ms / 60000);
+  if (totalMinutes < 1) return 'under a minute';
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  if (hours === 0) return `${minutes}m`;
+  return minutes === 0 ? `${hours}h` : `${hours}h ${minutes}m`;
+};
+
+const formatTimestamp = (iso: string) => formatCreatedAt(new Date(iso));
+
+export const CallLogDrawer: React.FC<CallLogDrawerProps> = ({
+  contact,
+  onOpenChange,
+  campaignName,
+  attempts,
+}) => {
+  const handleExport = (format: ExportFormat) => {
+    if (!contact) return;
+    try {
+      exportRecords(attempts.map(toCallLogRow), CALL_LOG_HEADERS, {
+        format,
+        filename: buildExportFilename(`${campaignName} ${contact.name}`, 'call-log', format),
+        sheetName: 'Call Log',
+      });
+      toast.success(`Exported ${attempts.length} call attempts`);
+    } catch (error) {
+      console.error('Error exporting call log:', error);
+      toast.error('Failed to export call log. Please try again.');
+    }
+  };
+
+  // Scheduled retry still outstanding for this contact
+  const upcomingAttemptAt = contact && isAwaitingCall(contact.status) ? contact.nextAttemptAt : undefined;
+
+  return (
+    <Sheet open={contact !== null} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-xl overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Call Log</SheetTitle>
+          <SheetDescription>
+            {contact ? `${contact.name} · ${contact.phone}` : ''}
+          </SheetDescription>
+        </SheetHeader>
+
+        {contact && (
+          <div className="mt-6 space-y-6">
+            <div className="flex items-center justify-between">
+              <div className="text-sm text-gray-600">
+                {attempts.length} {attempts.length === 1 ? 'attempt' : 'attempts'} · Status{' '}
+                <span className="font-medium text-gray-900">{contact.status}</span>
+              </div>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" className="h-8 text-xs gap-1" disabled={attempts.length === 0}>
+                    <Download className="h-3.5 w-3.5" />
+                    Export
+                    <ChevronDown className="h-3 w-3 text-gray-500" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  {(Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[]).map((format) => (
+                    <DropdownMenuItem key={format} className="text-xs" onSelect={() => handleExport(format)}>
+                      {EXPORT_FORMAT_LABELS[format]}
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuContent>
+              </DropdownMenu>
+            </div>
+
+            {attempts.length === 0 ? (
+              <div className="py-8 text-center text-sm text-gray-500">
+                No calls have been placed to this contact yet.
+              </div>
+            ) : (
+              <>
+                {/* Retry timeline */}
+                <div>
+                  <h3 className="text-sm font-medium text-gray-700 mb-3">Retry Timeline</h3>
+                  <ol className="border-l border-gray-200 ml-2 space-y-2">
+                    {attempts.map((attempt, index) => {
+                      const previous = attempts[index - 1];
+                      return (
+                        <React.Fragment key={attempt.id}>
+                          {previous && (
+                            <li className="ml-4 text-[11px] text-gray-400">
+                              waited {formatWait(Date.parse(attempt.startedAt) - Date.parse(previous.endedAt))}
+                            </li>
+                          )}
+                          <li className="relative ml-4">
+                            <span className="absolute -left-[22px] top-1 h-3 w-3 rounded-full border border-white bg-blue-500" />
+                            <div className="text-xs text-gray-900">
+                              Attempt {attempt.attemptNumber} · {CALL_OUTCOME_LABELS[attempt.disposition]}
+                            </div>
+                            <div className="text-[11px] text-gray-500">{formatTimestamp(attempt.startedAt)}</div>
+                          </li>
+                        </React.Fragment>
+                      );
+                    })}
+                    {upcomingAttemptAt && (
+                      <li className="relative ml-4">
+                        <span className="absolute -left-[22px] top-1 h-3 w-3 rounded-full border border-white bg-gray-300" />
+                        <div className="text-xs text-gray-500 flex items-center gap-1">
+                          <Clock className="h-3 w-3" />
+                          Next attempt at {formatTimestamp(upcomingAttemptAt)}
+                        </div>
+                      </li>
+                    )}
+                  </ol>
+                </div>
+
+                {/* Attempts, newest first */}
+                <div className="space-y-3">
+                  <h3 className="text-sm font-medium text-gray-700">Attempts</h3>
+                  {[...attempts].reverse().map((attempt) => (
+                    <div key={attempt.id} className="border border-gray-200 rounded-lg p-3 text-xs">
+                      <div className="flex items-center justify-between mb-2">
+                        <div className="flex items-center gap-2 font-medium text-gray-900">
+                          <PhoneCall className="h-3.5 w-3.5 text-gray-400" />
+                          Attempt {attempt.attemptNumber}
+                        </div>
+                        <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${DISPOSITION_CLASSES[attempt.disposition]}`}>
+                          {CALL_OUTCOME_LABELS[attempt.disposition]}
+                        </span>
+                      </div>
+                      <dl className="grid grid-cols-[110px_1fr] gap-y-1 text-gray-600">
+                        <dt className="text-gray-500">Started</dt>
+                        <dd>{formatTimestamp(attempt.startedAt)}</dd>
+                        <dt className="text-gray-500">Duration</dt>
+                        <dd>{formatCallDuration(attempt.durationSeconds)}</dd>
+                        <dt className="text-gray-500">Agent / IVR</dt>
+                        <dd>
+                          {[attempt.agent, attempt.ivrPath?.join(' → ')].filter(Boolean).join(' · ') || '—'}
+                        </dd>
+                        <dt className="text-gray-500">Hang-up cause</dt>
+                        <dd className="font-mono">{attempt.hangupCause ?? '—'}</dd>
+                        <dt className="text-gray-500">Recording</dt>
+                        <dd className="font-mono break-all">{attempt.recordingRef ?? '—'}</dd>
+                      </dl>
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
@@ -0,0 +1,75 @@
+import React, { useEffect, useRef, useState } from "react";
+import toast from 'react-hot-toast';
+import { Button } from "../../../../components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "../../../../components/ui/dialog";
+import { CampaignSchedule, validateSchedule } from "../../../../lib/dialer/callingSchedule";
+import { CallingScheduleFields } from "./CallingScheduleFields";
+
+interface CallingScheduleDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  schedule: CampaignSchedule;
+  onSave: (schedule: CampaignSchedule) => void;
+}
+
+export const CallingScheduleDialog: React.FC<CallingScheduleDialogProps> = ({ open, onOpenChange, schedule, onSave }) => {
+  const [draft, setDraft] = useState<CampaignSchedule>(schedule);
+  const [error, setError] = useState('');
+
+  // Start from the saved schedule every time the dialog opens, but not when it changes while open
+  const wasOpenRef = useRef(false);
+  useEffect(() => {
+    if (open && !wasOpenRef.current) {
+      setDraft(schedule);
+      setError('');
+    }
+    wasOpenRef.current = open;
+  }, [open, schedule]);
+
+  const handleSave = () => {
+    const validationError = validateSchedule(draft);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    onSave(draft);
+    onOpenChange(false);
+    toast.success('Calling schedule saved');
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-lg font-semibold">Calling Schedule</DialogTitle>
+          <p className="text-sm text-gray-600 mt-1">
+            Contacts are only called inside these hours in their own local time.
+          </p>
+        </DialogHeader>
+
+        <CallingScheduleFields
+          value={draft}
+          onChange={(value) => {
+            setDraft(value);
+            setError('');
+          }}
+          error={error}
+        />
+
+        <div className="flex justify-end gap-3 pt-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} className="bg-blue-600 hover:bg-blue-700">
+            Save
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,216 @@
+import React, { useState } from "react";
+import { Plus, X } from "lucide-react";
+import { Button } from "../../../../components/ui/button";
+import { Checkbox } from "../../../../components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../../../../components/ui/select";
+import {
+  ANY_TIME_WINDOWS,
+  BUSINESS_HOURS_WINDOWS,
+  CampaignSchedule,
+  CallingWindow,
+  WEEKDAY_LABELS,
+  Weekday,
+  hasUnrestrictedHours,
+} from "../../../../lib/dialer/callingSchedule";
+import { COUNTRY_PHONE_PLANS } from "../../../../lib/phone/countries";
+
+interface CallingScheduleFieldsProps {
+  value: CampaignSchedule;
+  onChange: (value: CampaignSchedule) => void;
+  error?: string;
+}
+
+const WEEKDAYS: Weekday[] = [0, 1, 2, 3, 4, 5, 6];
+
+const NEW_WINDOW = { start: '09:00', end: '17:00' };
+
+const inputClassName = 'h-9 px-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+// Form fields for campaign calling hours; the caller owns the state and validation
+export const CallingScheduleFields: React.FC<CallingScheduleFieldsProps> = ({ value, onChange, error }) => {
+  const [holidayDraft, setHolidayDraft] = useState('');
+  const update = (patch: Partial<CampaignSchedule>) => onChange({ ...value, ...patch });
+  const isAnyTime = hasUnrestrictedHours(value);
+
+  const timeZoneOptions = React.useMemo(() => Array.from(new Set([
+    value.timeZone,
+    'UTC',
+    ...COUNTRY_PHONE_PLANS.map(plan => plan.timeZone),
+  ])).sort(), [value.timeZone]);
+
+  // The form edits one window per day
+  const getWindow = (day: Weekday): CallingWindow | undefined => value.windows.find(window => window.day === day);
+
+  const toggleDay = (day: Weekday, enabled: boolean) => {
+    update({
+      windows: enabled
+        ? [...value.windows, { day, ...NEW_WINDOW }]
+        : value.windows.filter(window => window.day !== day),
+    });
+  };
+
+  const updateWindow = (day: Weekday, patch: Partial<CallingWindow>) => {
+    const current = getWindow(day);
+    update({ windows: value.windows.map(window => (window === current ? { ...window, ...patch } : window)) });
+  };
+
+  const addHoliday = () => {
+    if (!holidayDraft || value.holidays.includes(holidayDraft)) return;
+    update({ holidays: [...value.holidays, holidayDraft].sort() });
+    setHolidayDraft('');
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="schedule-start-date" className="block text-sm font-medium text-gray-700 mb-1">
+            Start date
+          </label>
+          <input
+            id="schedule-start-date"
+            type="date"
+            value={value.startDate ?? ''}
+            onChange={(e) => update({ startDate: e.target.value || undefined })}
+            className={`${inputClassName} w-full`}
+          />
+        </div>
+        <div>
+          <label htmlFor="schedule-end-date" className="block text-sm font-medium text-gray-700 mb-1">
+            End date
+          </label>
+          <input
+            id="schedule-end-date"
+            type="date"
+            value={value.endDate ?? ''}
+            min={value.startDate}
+            onChange={(e) => update({ endDate: e.target.value || undefined })}
+            className={`${inputClassName} w-full`}
+          />
+        </div>
+      </div>
+
+      <div>
+        <span className="block text-sm font-medium text-gray-700 mb-2">Calling hours (recipient's local time)</span>
+        <div className="flex items-center gap-2 mb-2">
+          <Checkbox
+            id="schedule-limit-hours"
+            checked={!isAnyTime}
+            onCheckedChange={(checked) => update({ windows: checked === true ? BUSINESS_HOURS_WINDOWS : ANY_TIME_WINDOWS })}
+          />
+          <label htmlFor="schedule-limit-hours" className="text-sm text-gray-700 cursor-pointer">
+            Only call during set hours
+          </label>
+        </div>
+        {isAnyTime ? (
+          <p className="text-xs text-gray-500">
+            Contacts are called on any day, at any time. The dates and holidays below still apply.
+          </p>
+        ) : (
+          <div className="border border-gray-200 rounded-lg divide-y divide-gray-100">
+            {WEEKDAYS.map((day) => {
+              const window = getWindow(day);
+              return (
+                <div key={day} className="flex items-center gap-3 px-3 py-2">
+                  <Checkbox
+                    id={`schedule-day-${day}`}
+                    checked={!!window}
+                    onCheckedChange={(checked) => toggleDay(day, checked === true)}
+                  />
+                  <label htmlFor={`schedule-day-${day}`} className="w-24 text-sm text-gray-700 cursor-pointer">
+                    {WEEKDAY_LABELS[day]}
+                  </label>
+                  {window ? (
+                    <div className="flex items-center gap-2">
+                      <input
+                        type="time"
+                        value={window.start}
+                        onChange={(e) => updateWindow(day, { start: e.target.value })}
+                        aria-label={`${WEEKDAY_LABELS[day]} start time`}
+                        className={inputClassName}
+                      />
+                      <span className="text-xs text-gray-500">to</span>
+                      <input
+                        type="time"
+                        value={window.end}
+                        onChange={(e) => updateWindow(day, { end: e.target.value })}
+                        aria-label={`${WEEKDAY_LABELS[day]} end time`}
+                        className={inputClassName}
+                      />
+                    </div>
+                  ) : (
+                    <span className="text-xs text-gray-400">No calls</span>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <div>
+        <span className="block text-sm font-medium text-gray-700 mb-2">Holidays</span>
+        <div className="flex items-center gap-2">
+          <input
+            type="date"
+            value={holidayDraft}
+            onChange={(e) => setHolidayDraft(e.target.value)}
+            aria-label="Holiday date"
+            className={inputClassName}
+          />
+          <Button type="button" variant="outline" size="sm" onClick={addHoliday} disabled={!holidayDraft}>
+            <Plus className="h-3.5 w-3.5 mr-1" />
+            Add
+          </Button>
+        </div>
+        {value.holidays.length > 0 && (
+          <div className="flex flex-wrap gap-2 mt-2">
+            {value.holidays.map((holiday) => (
+              <span
+                key={holiday}
+                className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs bg-gray-100 text-gray-700"
+              >
+                {holiday}
+                <button
+                  type="button"
+                  onClick={() => update({ holidays: value.holidays.filter(item => item !== holiday) })}
+                  aria-label={`Remove holiday ${holiday}`}
+                  className="text-gray-400 hover:text-gray-600"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Fallback time zone</label>
+        <Select value={value.timeZone} onValueChange={(timeZone) => update({ timeZone })}>
+          <SelectTrigger className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {timeZoneOptions.map((timeZone) => (
+              <SelectItem key={timeZone} value={timeZone}>
+                {timeZone}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-gray-500 mt-1">
+          Local time is taken from each contact's phone country; this zone is used when the country is unknown
+        </p>
+      </div>
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  );
+};
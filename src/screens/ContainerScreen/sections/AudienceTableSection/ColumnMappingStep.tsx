@@ -0,0 +1,146 @@
+import React from "react";
+import { AlertCircle } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../../../../components/ui/select";
+import {
+  ColumnRole,
+  ParsedSheet,
+  getAttributeKey,
+  validateColumnMapping,
+} from "../../../../lib/import/columnMapping";
+import { PHONE_NUMBER_TYPE_LABELS, normalizePhoneNumber } from "../../../../lib/phone/normalizePhone";
+
+const PREVIEW_ROW_COUNT = 5;
+
+const ROLE_LABELS: Record<ColumnRole, string> = {
+  name: 'Name',
+  phone: 'Phone',
+  attribute: 'Custom attribute',
+  ignore: 'Ignore',
+};
+
+interface ColumnMappingStepProps {
+  fileName: string;
+  sheet: ParsedSheet;
+  roles: ColumnRole[];
+  defaultCountry: string;
+  onRolesChange: (roles: ColumnRole[]) => void;
+}
+
+// Preview how a phone cell will be stored, so a wrong default country is caught before importing
+const PhonePreview: React.FC<{ value: string; defaultCountry: string }> = ({ value, defaultCountry }) => {
+  const result = normalizePhoneNumber(value, defaultCountry);
+  if (!result.isValid) {
+    return <div className="text-[10px] text-red-600">{result.error}</div>;
+  }
+  return (
+    <div className="text-[10px] text-gray-500">
+      {result.e164}
+      {result.country && ` · ${result.country}`}
+      {` · ${PHONE_NUMBER_TYPE_LABELS[result.type]}`}
+    </div>
+  );
+};
+
+export const ColumnMappingStep: React.FC<ColumnMappingStepProps> = ({
+  fileName,
+  sheet,
+  roles,
+  defaultCountry,
+  onRolesChange,
+}) => {
+  const mappingError = validateColumnMapping(roles);
+  const previewRows = sheet.rows.slice(0, PREVIEW_ROW_COUNT);
+
+  // Name and phone are single-column roles: assigning one moves it off its previous column
+  const handleRoleChange = (column: number, role: ColumnRole) => {
+    onRolesChange(roles.map((current, index) => {
+      if (index === column) return role;
+      if ((role === 'name' || role === 'phone') && current === role) return 'attribute';
+      return current;
+    }));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <h4 className="text-sm font-medium text-gray-700">Map Columns</h4>
+        <p className="text-xs text-gray-500 mt-1">
+          We detected {sheet.headers.length} column(s) and {sheet.rows.length} row(s) in{' '}
+          <span className="font-medium text-gray-700">{fileName}</span>. Choose what each column contains.
+          Custom attributes are stored on the contact.
+        </p>
+      </div>
+
+      <div className="overflow-x-auto border border-gray-200 rounded-lg">
+        <table className="min-w-full text-xs">
+          <thead className="bg-gray-50">
+            <tr>
+              {sheet.headers.map((header, column) => (
+                <th key={column} className="px-3 py-2 text-left font-medium text-gray-700 align-top min-w-[150px]">
+                  <div className="truncate mb-1" title={getAttributeKey(header, column)}>
+                    {getAttributeKey(header, column)}
+                  </div>
+                  <Select
+                    value={roles[column]}
+                    onValueChange={(value) => handleRoleChange(column, value as ColumnRole)}
+                  >
+                    <SelectTrigger className={`h-7 text-xs ${
+                      roles[column] === 'name' || roles[column] === 'phone' ? 'border-blue-400 text-blue-700' : ''
+                    }`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(ROLE_LABELS) as ColumnRole[]).map((role) => (
+                        <SelectItem key={role} value={role} className="text-xs">
+                          {ROLE_LABELS[role]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {previewRows.map((row) => (
+              <tr key={row.rowNumber}>
+                {sheet.headers.map((_, column) => (
+                  <td
+                    key={column}
+                    className={`px-3 py-1.5 truncate max-w-[200px] ${
+                      roles[column] === 'ignore' ? 'text-gray-300 line-through' : 'text-gray-700'
+                    }`}
+                  >
+                    {row.cells[column] || <span className="text-gray-300">—</span>}
+                    {roles[column] === 'phone' && (
+                      <PhonePreview value={row.cells[column]} defaultCountry={defaultCountry} />
+                    )}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {sheet.rows.length > PREVIEW_ROW_COUNT && (
+        <p className="text-xs text-gray-500">
+          Showing the first {PREVIEW_ROW_COUNT} of {sheet.rows.length} rows
+        </p>
+      )}
+
+      {mappingError && (
+        <div className="flex items-center gap-2 text-xs text-red-600">
+          <AlertCircle className="h-3.5 w-3.5" />
+          {mappingError}
+        </div>
+      )}
+    </div>
+  );
+};
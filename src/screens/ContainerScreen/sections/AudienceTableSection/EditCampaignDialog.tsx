@@ -0,0 +1,264 @@
+import React, { useEffect, useRef, useState } from "react";
+import { AlertTriangle } from "lucide-react";
+import toast from 'react-hot-toast';
+import { Button } from "../../../../components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "../../../../components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../../../../components/ui/select";
+import {
+  CAMPAIGN_DESCRIPTION_MAX_LENGTH,
+  CAMPAIGN_NAME_MAX_LENGTH,
+  CONCURRENCY_OPTIONS,
+  Campaign,
+  CampaignErrors,
+  IVR_FLOWS,
+  normalizeCampaign,
+  validateCampaign,
+} from "../../../../lib/campaign";
+import { CallingScheduleFields } from "./CallingScheduleFields";
+import { RetryPolicyFields } from "./RetryPolicyFields";
+
+interface EditCampaignDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  campaign: Campaign;
+  onSave: (campaign: Campaign) => void;
+  // Creating a campaign rather than editing a saved one
+  isNew?: boolean;
+}
+
+const inputClassName = (hasError: boolean) =>
+  `w-full h-10 px-3 text-sm border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+    hasError ? 'border-red-400' : 'border-gray-300'
+  }`;
+
+const FieldError: React.FC<{ message?: string }> = ({ message }) =>
+  message ? <p className="text-xs text-red-600 mt-1">{message}</p> : null;
+
+export const EditCampaignDialog: React.FC<EditCampaignDialogProps> = ({
+  open,
+  onOpenChange,
+  campaign,
+  onSave,
+  isNew = false,
+}) => {
+  const [draft, setDraft] = useState<Campaign>(campaign);
+  const [errors, setErrors] = useState<CampaignErrors>({});
+  // Shown instead of closing when there are unsaved changes
+  const [confirmDiscard, setConfirmDiscard] = useState(false);
+
+  // Start from the saved campaign every time the dialog opens. Only on opening: the saved
+  // campaign is replaced whenever another tab saves it, which must not wipe the draft.
+  const wasOpenRef = useRef(false);
+  useEffect(() => {
+    if (open && !wasOpenRef.current) {
+      setDraft(campaign);
+      setErrors({});
+      setConfirmDiscard(false);
+    }
+    wasOpenRef.current = open;
+  }, [open, campaign]);
+
+  const isDirty = React.useMemo(() => JSON.stringify(draft) !== JSON.stringify(campaign), [draft, campaign]);
+
+  // Warn before a reload or tab close throws the draft away
+  useEffect(() => {
+    if (!open || !isDirty) return;
+    const handleBeforeUnload = (event: BeforeUnloadEvent) => {
+      event.preventDefault();
+      event.returnValue = '';
+    };
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [open, isDirty]);
+
+  const update = <K extends keyof Campaign>(field: K, value: Campaign[K]) => {
+    setDraft(prev => ({ ...prev, [field]: value }));
+    setErrors(prev => ({ ...prev, [field]: undefined }));
+    setConfirmDiscard(false);
+  };
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (!isOpen && isDirty) {
+      setConfirmDiscard(true);
+      return;
+    }
+    onOpenChange(isOpen);
+  };
+
+  const handleSave = () => {
+    const validationErrors = validateCampaign(draft);
+    if (Object.keys(validationErrors).length > 0) {
+      setErrors(validationErrors);
+      toast.error('Please fix the highlighted fields');
+      return;
+    }
+    onSave(normalizeCampaign(draft));
+    onOpenChange(false);
+    toast.success(isNew ? 'Campaign created' : 'Campaign saved');
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-lg font-semibold">{isNew ? 'New Campaign' : 'Edit Campaign'}</DialogTitle>
+          <p className="text-sm text-gray-600 mt-1">
+            {isNew ? 'Import an audience once the campaign is created.' : 'Changes apply to calls placed after saving.'}
+          </p>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          {/* Details */}
+          <div className="space-y-4">
+            <div>
+              <label htmlFor="campaign-name" className="block text-sm font-medium text-gray-700 mb-2">
+                Name <span className="text-red-500">*</span>
+              </label>
+              <input
+                id="campaign-name"
+                type="text"
+                value={draft.name}
+                onChange={(e) => update('name', e.target.value)}
+                maxLength={CAMPAIGN_NAME_MAX_LENGTH}
+                className={inputClassName(!!errors.name)}
+              />
+              <FieldError message={errors.name} />
+            </div>
+
+            <div>
+              <label htmlFor="campaign-description" className="block text-sm font-medium text-gray-700 mb-2">
+                Description
+              </label>
+              <textarea
+                id="campaign-description"
+                value={draft.description}
+                onChange={(e) => update('description', e.target.value)}
+                maxLength={CAMPAIGN_DESCRIPTION_MAX_LENGTH}
+                rows={3}
+                className={`w-full px-3 py-2 text-sm border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                  errors.description ? 'border-red-400' : 'border-gray-300'
+                }`}
+              />
+              <FieldError message={errors.description} />
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <label htmlFor="campaign-caller-id" className="block text-sm font-medium text-gray-700 mb-2">
+                  Caller ID
+                </label>
+                <input
+                  id="campaign-caller-id"
+                  type="tel"
+                  value={draft.callerId}
+                  onChange={(e) => update('callerId', e.target.value)}
+                  placeholder="e.g. +962791234567"
+                  className={inputClassName(!!errors.callerId)}
+                />
+                {errors.callerId ? (
+                  <FieldError message={errors.callerId} />
+                ) : (
+                  <p className="text-xs text-gray-500 mt-1">Leave empty to use the provider default</p>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">IVR Flow</label>
+                <Select value={draft.ivrFlowId} onValueChange={(value) => update('ivrFlowId', value)}>
+                  <SelectTrigger className={`h-10 text-sm ${errors.ivrFlowId ? 'border-red-400' : ''}`} aria-label="IVR flow">
+                    <SelectValue placeholder="Select a flow" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {IVR_FLOWS.map((flow) => (
+                      <SelectItem key={flow.id} value={flow.id} className="text-sm">
+                        {flow.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FieldError message={errors.ivrFlowId} />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Concurrent Calls</label>
+                <Select
+                  value={String(draft.maxConcurrency)}
+                  onValueChange={(value) => update('maxConcurrency', Number(value))}
+                >
+                  <SelectTrigger className="h-10 text-sm" aria-label="Max concurrent calls">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CONCURRENCY_OPTIONS.map((option) => (
+                      <SelectItem key={option} value={String(option)} className="text-sm">
+                        {option} {option === 1 ? 'line' : 'lines'}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FieldError message={errors.maxConcurrency} />
+              </div>
+            </div>
+          </div>
+
+          {/* Retry policy */}
+          <div className="border-t border-gray-200 pt-4">
+            <h3 className="text-sm font-semibold text-gray-900 mb-3">Retry Policy</h3>
+            <RetryPolicyFields
+              value={draft.retryPolicy}
+              onChange={(value) => update('retryPolicy', value)}
+              error={errors.retryPolicy}
+            />
+          </div>
+
+          {/* Calling hours */}
+          <div className="border-t border-gray-200 pt-4">
+            <h3 className="text-sm font-semibold text-gray-900 mb-3">Calling Schedule</h3>
+            <CallingScheduleFields
+              value={draft.schedule}
+              onChange={(value) => update('schedule', value)}
+              error={errors.schedule}
+            />
+          </div>
+        </div>
+
+        {confirmDiscard ? (
+          <div className="flex items-center justify-between gap-3 rounded-md border border-amber-200 bg-amber-50 px-3 py-2">
+            <span className="flex items-center gap-2 text-sm text-amber-800">
+              <AlertTriangle className="h-4 w-4" />
+              You have unsaved changes. Discard them?
+            </span>
+            <div className="flex gap-2">
+              <Button variant="outline" className="h-8 text-xs" onClick={() => setConfirmDiscard(false)}>
+                Keep Editing
+              </Button>
+              <Button variant="destructive" className="h-8 text-xs" onClick={() => onOpenChange(false)}>
+                Discard
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="flex justify-end gap-3 pt-2">
+            <Button variant="outline" onClick={() => handleOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} className="bg-blue-600 hover:bg-blue-700" disabled={!isDirty}>
+              {isNew ? 'Create' : 'Save'}
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
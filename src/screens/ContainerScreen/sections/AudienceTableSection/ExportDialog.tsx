@@ -0,0 +1,187 @@
+import React, { useEffect, useState } from "react";
+import { Download } from "lucide-react";
+import toast from 'react-hot-toast';
+import { Button } from "../../../../components/ui/button";
+import { Checkbox } from "../../../../components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "../../../../components/ui/dialog";
+import { AudienceData } from "../../../../lib/audience";
+import {
+  EXPORT_COLUMNS,
+  EXPORT_FORMAT_LABELS,
+  ExportFormat,
+  buildExportFilename,
+  buildSheetName,
+  exportAudience,
+} from "./exportAudience";
+
+type ExportScope = 'all' | 'filtered';
+
+interface ExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  campaignName: string;
+  allContacts: AudienceData[];
+  filteredContacts: AudienceData[];
+  hasActiveFilters: boolean;
+}
+
+const optionClassName = (selected: boolean) =>
+  `flex-1 px-3 py-2 rounded-lg border text-left text-sm transition-colors ${
+    selected
+      ? 'border-blue-500 bg-blue-50 text-blue-700'
+      : 'border-gray-200 hover:border-gray-300 text-gray-700'
+  } disabled:opacity-50 disabled:cursor-not-allowed`;
+
+export const ExportDialog: React.FC<ExportDialogProps> = ({
+  open,
+  onOpenChange,
+  campaignName,
+  allContacts,
+  filteredContacts,
+  hasActiveFilters,
+}) => {
+  const [scope, setScope] = useState<ExportScope>('all');
+  const [format, setFormat] = useState<ExportFormat>('xlsx');
+  const [columnIds, setColumnIds] = useState<string[]>(EXPORT_COLUMNS.map(column => column.id));
+
+  // Default to the filtered view whenever the dialog opens with filters applied
+  useEffect(() => {
+    if (open) {
+      setScope(hasActiveFilters ? 'filtered' : 'all');
+    }
+  }, [open, hasActiveFilters]);
+
+  const contacts = scope === 'filtered' ? filteredContacts : allContacts;
+  const columns = EXPORT_COLUMNS.filter(column => columnIds.includes(column.id));
+  const allColumnsSelected = columnIds.length === EXPORT_COLUMNS.length;
+
+  const toggleColumn = (id: string) => {
+    setColumnIds(prev =>
+      prev.includes(id) ? prev.filter(item => item !== id) : [...prev, id],
+    );
+  };
+
+  const handleExport = () => {
+    if (columns.length === 0) {
+      toast.error('Please select at least one column to export');
+      return;
+    }
+
+    try {
+      exportAudience(contacts, {
+        format,
+        columns,
+        filename: buildExportFilename(campaignName, scope === 'filtered' ? 'filtered' : 'all', format),
+        sheetName: buildSheetName(campaignName),
+      });
+      toast.success(`Exported ${contacts.length} contacts successfully`);
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error exporting contacts:', error);
+      toast.error('Failed to export contacts. Please try again.');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="text-lg font-semibold">Export Audience</DialogTitle>
+          <p className="text-sm text-gray-600 mt-1">
+            Download contacts from the <span className="font-medium text-gray-800">{campaignName}</span> campaign
+          </p>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          {/* Scope */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Rows</label>
+            <div className="flex gap-3">
+              <button type="button" className={optionClassName(scope === 'all')} onClick={() => setScope('all')}>
+                <div className="font-medium">All contacts</div>
+                <div className="text-xs text-gray-500">{allContacts.length} rows</div>
+              </button>
+              <button
+                type="button"
+                className={optionClassName(scope === 'filtered')}
+                onClick={() => setScope('filtered')}
+                disabled={!hasActiveFilters}
+              >
+                <div className="font-medium">Filtered contacts</div>
+                <div className="text-xs text-gray-500">
+                  {hasActiveFilters ? `${filteredContacts.length} rows` : 'No filters applied'}
+                </div>
+              </button>
+            </div>
+          </div>
+
+          {/* Format */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Format</label>
+            <div className="flex gap-3">
+              {(Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[]).map((option) => (
+                <button
+                  key={option}
+                  type="button"
+                  className={optionClassName(format === option)}
+                  onClick={() => setFormat(option)}
+                >
+                  <div className="font-medium">{EXPORT_FORMAT_LABELS[option]}</div>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Columns */}
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label className="block text-sm font-medium text-gray-700">Columns</label>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => setColumnIds(allColumnsSelected ? [] : EXPORT_COLUMNS.map(column => column.id))}
+                className="h-6 px-2 text-xs text-blue-600 hover:text-blue-700 hover:bg-blue-50"
+              >
+                {allColumnsSelected ? 'Deselect All' : 'Select All'}
+              </Button>
+            </div>
+            <div className="grid grid-cols-2 gap-2 p-3 border border-gray-200 rounded-lg">
+              {EXPORT_COLUMNS.map((column) => (
+                <div key={column.id} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`export-column-${column.id}`}
+                    checked={columnIds.includes(column.id)}
+                    onCheckedChange={() => toggleColumn(column.id)}
+                  />
+                  <label htmlFor={`export-column-${column.id}`} className="text-sm text-gray-700 cursor-pointer">
+                    {column.header}
+                  </label>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="flex justify-end items-center gap-3 mt-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleExport}
+            disabled={columns.length === 0}
+            className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed"
+          >
+            <Download className="h-4 w-4 mr-2" />
+            Export {contacts.length} contacts
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
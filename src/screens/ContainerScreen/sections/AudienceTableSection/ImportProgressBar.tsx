@@ -0,0 +1,55 @@
+import React from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "../../../../components/ui/button";
+import { ImportProgress } from "../../../../lib/import/importWorkerClient";
+
+interface ImportProgressBarProps {
+  progress: ImportProgress;
+  onCancel: () => void;
+}
+
+const PHASE_LABELS: Record<ImportProgress['phase'], string> = {
+  parsing: 'Reading file',
+  validating: 'Validating contacts',
+};
+
+export const ImportProgressBar: React.FC<ImportProgressBarProps> = ({ progress, onCancel }) => (
+  <div className="p-3 bg-blue-50 border border-blue-200 rounded-lg" role="status" aria-live="polite">
+    <div className="flex items-center justify-between mb-2">
+      <span className="flex items-center gap-2 text-sm font-medium text-blue-700">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        {PHASE_LABELS[progress.phase]}... {progress.percent}%
+      </span>
+      <Button
+        type="button"
+        variant="ghost"
+        size="sm"
+        onClick={onCancel}
+        className="h-7 text-xs text-red-600 hover:text-red-700 hover:bg-red-50"
+      >
+        Cancel import
+      </Button>
+    </div>
+    <div
+      className="h-2 w-full bg-blue-100 rounded-full overflow-hidden"
+      role="progressbar"
+      aria-valuemin={0}
+      aria-valuemax={100}
+      aria-valuenow={progress.percent}
+    >
+      <div
+        className="h-full bg-blue-600 transition-[width] duration-200"
+        style={{ width: `${progress.percent}%` }}
+      />
+    </div>
+    <div className="flex gap-4 mt-2 text-xs text-gray-600">
+      <span>{progress.rowsParsed.toLocaleString()} rows {progress.phase === 'parsing' ? 'parsed' : 'checked'}</span>
+      {progress.phase === 'validating' && (
+        <>
+          <span className="text-green-700">{progress.valid.toLocaleString()} valid</span>
+          <span className="text-red-600">{progress.invalid.toLocaleString()} invalid</span>
+        </>
+      )}
+    </div>
+  </div>
+);
@@ -0,0 +1,268 @@
+import React from "react";
+import { AlertCircle, AlertTriangle, CheckCircle2, Download, RefreshCw, X } from "lucide-react";
+import toast from 'react-hot-toast';
+import { Button } from "../../../../components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "../../../../components/ui/dialog";
+import { MappedRow } from "../../../../lib/import/columnMapping";
+import { ImportProgress } from "../../../../lib/import/importWorkerClient";
+import {
+  ImportSummary,
+  ValidationError,
+  ValidationField,
+  buildRejectedRowsCsv,
+} from "../../../../lib/import/validateContacts";
+import { downloadBlob } from "./exportAudience";
+import { ImportProgressBar } from "./ImportProgressBar";
+
+// Rendering thousands of editable rows freezes the dialog; the CSV download covers the rest
+const MAX_ERRORS_PER_GROUP = 100;
+
+const FIELD_LABELS: Record<ValidationField, string> = {
+  phone: 'Phone',
+  name: 'Name',
+};
+
+interface ImportReportDialogProps {
+  open: boolean;
+  summary: ImportSummary | null;
+  errors: ValidationError[];
+  rows: MappedRow[];
+  validCount: number;
+  fileName: string;
+  isDirty: boolean;
+  // Set while the rows are re-validated in the import worker
+  progress: ImportProgress | null;
+  onCancelValidation: () => void;
+  onRowChange: (rowNumber: number, field: ValidationField, value: string) => void;
+  onRevalidate: () => void;
+  onConfirm: () => void;
+  onBack: () => void;
+  onClose: () => void;
+}
+
+export const ImportReportDialog: React.FC<ImportReportDialogProps> = ({
+  open,
+  summary,
+  errors,
+  rows,
+  validCount,
+  fileName,
+  isDirty,
+  progress,
+  onCancelValidation,
+  onRowChange,
+  onRevalidate,
+  onConfirm,
+  onBack,
+  onClose,
+}) => {
+  const rowsByNumber = React.useMemo(
+    () => new Map(rows.map(row => [row.rowNumber, row])),
+    [rows],
+  );
+
+  const groupedErrors = React.useMemo(() => {
+    const groups: Record<ValidationField, ValidationError[]> = { phone: [], name: [] };
+    errors.forEach(error => groups[error.field].push(error));
+    return (Object.keys(groups) as ValidationField[])
+      .filter(field => groups[field].length > 0)
+      .map(field => ({ field, errors: groups[field] }));
+  }, [errors]);
+
+  const handleDownloadRejected = () => {
+    try {
+      const csv = buildRejectedRowsCsv(rows, errors);
+      const baseName = fileName.replace(/\.[^.]+$/, '') || 'import';
+      downloadBlob(new Blob([csv], { type: 'text/csv;charset=utf-8;' }), `${baseName}-rejected-rows.csv`);
+    } catch (error) {
+      console.error('Error downloading rejected rows:', error);
+      toast.error('Failed to download rejected rows');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-hidden flex flex-col">
+        <DialogHeader className="flex-shrink-0 pb-4 border-b relative">
+          <DialogTitle className="text-lg font-semibold flex items-center gap-2 pr-12">
+            <AlertTriangle className="h-5 w-5 text-amber-500" />
+            Import Validation Results
+          </DialogTitle>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="absolute top-0 right-0 h-8 w-8 p-0 hover:bg-gray-100 focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 z-10"
+            onClick={onClose}
+          >
+            <X className="h-4 w-4 text-gray-500 hover:text-gray-700" />
+          </Button>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-hidden flex flex-col">
+          {/* Summary Section */}
+          {summary && (
+            <div className="flex-shrink-0 mb-6">
+              <div className="grid grid-cols-5 gap-4 mb-4">
+                <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 text-center">
+                  <div className="text-2xl font-bold text-blue-600">{summary.totalRows}</div>
+                  <div className="text-sm text-blue-700 font-medium">Total Contacts</div>
+                  <div className="text-xs text-blue-600 mt-1">Processed</div>
+                </div>
+                <div className="bg-green-50 border border-green-200 rounded-lg p-4 text-center">
+                  <div className="text-2xl font-bold text-green-600">{summary.validRows}</div>
+                  <div className="text-sm text-green-700 font-medium">Valid Contacts</div>
+                  <div className="text-xs text-green-600 mt-1">Ready to import</div>
+                </div>
+                <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-center">
+                  <div className="text-2xl font-bold text-red-600">{summary.invalidRows}</div>
+                  <div className="text-sm text-red-700 font-medium">Invalid Contacts</div>
+                  <div className="text-xs text-red-600 mt-1">Need correction</div>
+                </div>
+                <div className="bg-orange-50 border border-orange-200 rounded-lg p-4 text-center">
+                  <div className="text-2xl font-bold text-orange-600">{summary.duplicatesRemoved}</div>
+                  <div className="text-sm text-orange-700 font-medium">Duplicates Removed</div>
+                  <div className="text-xs text-orange-600 mt-1">Automatically filtered</div>
+                </div>
+                <div className="bg-purple-50 border border-purple-200 rounded-lg p-4 text-center">
+                  <div className="text-2xl font-bold text-purple-600">{summary.matchedExisting}</div>
+                  <div className="text-sm text-purple-700 font-medium">Matched Existing</div>
+                  <div className="text-xs text-purple-600 mt-1">Already in campaign</div>
+                </div>
+              </div>
+              {summary.suppressedRows > 0 && (
+                <div className="flex items-start gap-2 p-3 bg-gray-50 border border-gray-300 rounded-lg text-sm text-gray-800">
+                  <AlertTriangle className="h-4 w-4 text-gray-700 flex-shrink-0 mt-0.5" />
+                  <span>
+                    {summary.suppressedRows} contact(s) are on the do-not-call list and will not be imported.
+                    They are marked Do Not Call below.
+                  </span>
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Error Details Section */}
+          {errors.length > 0 && (
+            <div className="flex-1 overflow-hidden flex flex-col">
+              <div className="flex-shrink-0 mb-3 flex items-start justify-between gap-4">
+                <div>
+                  <h3 className="text-base font-semibold text-gray-900 flex items-center gap-2">
+                    <AlertCircle className="h-4 w-4 text-red-500" />
+                    Validation Errors ({errors.length})
+                  </h3>
+                  <p className="text-sm text-gray-600 mt-1">
+                    Fix values below and re-validate, or download the rejected rows to correct them in a spreadsheet.
+                  </p>
+                </div>
+                <Button variant="outline" size="sm" onClick={handleDownloadRejected} className="flex-shrink-0">
+                  <Download className="h-4 w-4 mr-1" />
+                  Rejected rows (CSV)
+                </Button>
+              </div>
+
+              <div className="flex-1 overflow-y-auto border border-gray-200 rounded-lg">
+                {groupedErrors.map(({ field, errors: fieldErrors }) => (
+                  <div key={field}>
+                    <div className="sticky top-0 z-10 px-4 py-2 bg-gray-50 border-b border-gray-200 text-sm font-medium text-gray-700">
+                      {FIELD_LABELS[field]} ({fieldErrors.length})
+                    </div>
+                    <div className="divide-y divide-gray-100">
+                      {fieldErrors.slice(0, MAX_ERRORS_PER_GROUP).map((error) => (
+                        <div key={`${error.row}-${error.field}`} className="p-4 hover:bg-gray-50">
+                          <div className="flex items-start gap-3">
+                            <div className="flex-shrink-0 w-8 h-8 bg-red-100 rounded-full flex items-center justify-center">
+                              <span className="text-xs font-medium text-red-600">
+                                {error.row}
+                              </span>
+                            </div>
+                            <div className="flex-1 min-w-0">
+                              <div className="flex items-center gap-2 mb-1">
+                                <span className="text-sm font-medium text-gray-900">
+                                  Row {error.row}
+                                </span>
+                                <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-red-100 text-red-800">
+                                  {error.field}
+                                </span>
+                                {error.suppressed && (
+                                  <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-gray-900 text-white">
+                                    Do Not Call
+                                  </span>
+                                )}
+                              </div>
+                              <div className="text-sm text-red-600 mb-2">
+                                <span className="font-medium">Error:</span> {error.error}
+                              </div>
+                              <input
+                                type="text"
+                                value={rowsByNumber.get(error.row)?.[error.field] ?? ''}
+                                onChange={(e) => onRowChange(error.row, error.field, e.target.value)}
+                                placeholder={error.field === 'phone' ? '+962771234567' : 'Contact name'}
+                                aria-label={`${FIELD_LABELS[error.field]} for row ${error.row}`}
+                                className="w-full max-w-sm px-2 py-1 mb-2 text-sm border border-gray-200 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                              />
+                              {error.suggestion && (
+                                <div className="text-sm text-blue-600 bg-blue-50 rounded px-2 py-1">
+                                  <span className="font-medium">Suggestion:</span> {error.suggestion}
+                                </div>
+                              )}
+                            </div>
+                          </div>
+                        </div>
+                      ))}
+                      {fieldErrors.length > MAX_ERRORS_PER_GROUP && (
+                        <div className="p-4 text-sm text-gray-500">
+                          {fieldErrors.length - MAX_ERRORS_PER_GROUP} more {FIELD_LABELS[field].toLowerCase()} errors not shown.
+                          Download the rejected rows to review them all.
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Action Buttons */}
+        <div className="flex-shrink-0 pt-4 border-t">
+          {progress && (
+            <div className="mb-3">
+              <ImportProgressBar progress={progress} onCancel={onCancelValidation} />
+            </div>
+          )}
+          <div className="flex items-center justify-between">
+            <div className="text-sm text-gray-600">
+              {isDirty ? (
+                <span>You have unsaved fixes. They will be re-validated before importing.</span>
+              ) : validCount > 0 && (
+                <span>Proceeding with {validCount} of {summary?.totalRows} contacts</span>
+              )}
+            </div>
+            <div className="flex gap-3">
+              <Button variant="outline" onClick={onBack}>
+                Cancel Upload
+              </Button>
+              <Button variant="outline" onClick={onRevalidate} disabled={!isDirty || progress !== null}>
+                <RefreshCw className="h-4 w-4 mr-2" />
+                Re-validate
+              </Button>
+              <Button
+                onClick={onConfirm}
+                disabled={(validCount === 0 && !isDirty) || progress !== null}
+                className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed"
+              >
+                <CheckCircle2 className="h-4 w-4 mr-2" />
+                {isDirty ? 'Re-validate & Import' : `Proceed with Valid Contacts (${validCount})`}
+              </Button>
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,323 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Loader2, Search, Users, X } from "lucide-react";
+import toast from 'react-hot-toast';
+import { Button } from "../../../../components/ui/button";
+import { Checkbox } from "../../../../components/ui/checkbox";
+import { PhonebookSummary, api, getApiErrorMessage, isAbortError } from "../../../../lib/api";
+import { PhonebookFetchProgress, PhonebookImportPreview } from "../../../../lib/import/phonebookImport";
+
+const PHONEBOOKS_PER_PAGE = 50;
+const SEARCH_DEBOUNCE_MS = 300;
+
+interface PhonebookPickerProps {
+  selected: PhonebookSummary[];
+  onChange: (selected: PhonebookSummary[]) => void;
+  disabled?: boolean;
+}
+
+// Multi-select over the phonebook service, searched and paged on the server
+const PhonebookPicker: React.FC<PhonebookPickerProps> = ({ selected, onChange, disabled }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [search, setSearch] = useState('');
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<PhonebookSummary[]>([]);
+  const [total, setTotal] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+  const requestRef = useRef<AbortController | null>(null);
+
+  const selectedIds = React.useMemo(() => new Set(selected.map(phonebook => phonebook.id)), [selected]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setQuery(search.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  const loadPage = React.useCallback(async (offset: number) => {
+    requestRef.current?.abort();
+    const controller = new AbortController();
+    requestRef.current = controller;
+    setIsLoading(true);
+    try {
+      const page = await api.phonebooks.listPhonebooks(
+        { search: query, offset, limit: PHONEBOOKS_PER_PAGE },
+        { signal: controller.signal },
+      );
+      setResults(prev => (offset === 0 ? page.phonebooks : [...prev, ...page.phonebooks]));
+      setTotal(page.total);
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.error('Error loading phonebooks:', error);
+      toast.error(getApiErrorMessage(error, 'Failed to load phonebooks'));
+    } finally {
+      if (requestRef.current === controller) {
+        requestRef.current = null;
+        setIsLoading(false);
+      }
+    }
+  }, [query]);
+
+  // First page whenever the picker opens or the search changes
+  useEffect(() => {
+    if (isOpen) void loadPage(0);
+  }, [isOpen, loadPage]);
+
+  useEffect(() => () => requestRef.current?.abort(), []);
+
+  const toggle = (phonebook: PhonebookSummary) => {
+    onChange(selectedIds.has(phonebook.id)
+      ? selected.filter(item => item.id !== phonebook.id)
+      : [...selected, phonebook]);
+  };
+
+  const allShownSelected = results.length > 0 && results.every(phonebook => selectedIds.has(phonebook.id));
+  const toggleAllShown = () => {
+    const shownIds = new Set(results.map(phonebook => phonebook.id));
+    onChange(allShownSelected
+      ? selected.filter(phonebook => !shownIds.has(phonebook.id))
+      : [...selected, ...results.filter(phonebook => !selectedIds.has(phonebook.id))]);
+  };
+
+  const triggerText = selected.length === 0
+    ? 'Select phonebook lists'
+    : selected.length === 1 ? selected[0].name : `${selected.length} lists selected`;
+
+  return (
+    <div
+      className="relative phonebook-dropdown-container"
+      onKeyDown={(e) => {
+        if (e.key === 'Escape' && isOpen) {
+          e.stopPropagation();
+          setIsOpen(false);
+        }
+      }}
+    >
+      {/* Dropdown Trigger */}
+      <button
+        type="button"
+        onClick={() => setIsOpen(open => !open)}
+        disabled={disabled}
+        className="w-full flex items-center justify-between px-3 py-2 border border-gray-200 rounded-lg bg-white hover:border-gray-300 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <div className="flex items-center gap-2 flex-1 min-w-0">
+          <Users className="h-4 w-4 text-gray-400 flex-shrink-0" />
+          <span className="text-sm text-gray-700 truncate">{triggerText}</span>
+          {selected.length > 0 && (
+            <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800 flex-shrink-0">
+              {selected.length}
+            </span>
+          )}
+        </div>
+        <div className={`transform transition-transform duration-200 ${isOpen ? 'rotate-180' : ''}`}>
+          <svg className="h-4 w-4 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+          </svg>
+        </div>
+      </button>
+
+      {/* Selected lists stay visible while searching for others */}
+      {selected.length > 0 && !isOpen && (
+        <div className="flex flex-wrap gap-1 mt-2">
+          {selected.map(phonebook => (
+            <span
+              key={phonebook.id}
+              className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs bg-gray-100 text-gray-700"
+            >
+              {phonebook.name}
+              <button
+                type="button"
+                onClick={() => toggle(phonebook)}
+                disabled={disabled}
+                aria-label={`Remove ${phonebook.name}`}
+                className="text-gray-400 hover:text-gray-600"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+
+      {/* Dropdown Content */}
+      {isOpen && (
+        <>
+          {/* Backdrop */}
+          <div className="fixed inset-0 z-10" onClick={() => setIsOpen(false)} />
+
+          {/* Dropdown Panel */}
+          <div className="absolute z-20 w-full mt-1 bg-white border border-gray-200 rounded-lg shadow-lg overflow-hidden">
+            <div className="p-2 border-b border-gray-100">
+              <div className="relative">
+                <Search className="absolute left-2 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+                <input
+                  type="text"
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  placeholder="Search phonebooks"
+                  aria-label="Search phonebooks"
+                  autoFocus
+                  className="w-full h-8 pl-8 pr-2 text-sm border border-gray-200 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+            </div>
+
+            {/* Header with Select All */}
+            <div className="flex items-center justify-between px-3 py-2 border-b border-gray-100 bg-gray-50">
+              <span className="text-sm font-medium text-gray-700">
+                {selected.length} selected · {total} {query ? 'matching' : 'phonebooks'}
+              </span>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={toggleAllShown}
+                disabled={results.length === 0}
+                className="h-6 px-2 text-xs text-blue-600 hover:text-blue-700 hover:bg-blue-50"
+              >
+                {allShownSelected ? 'Deselect Shown' : 'Select Shown'}
+              </Button>
+            </div>
+
+            {/* Scrollable List */}
+            <div className="max-h-56 overflow-y-auto">
+              {results.map((phonebook) => (
+                <div
+                  key={phonebook.id}
+                  className="flex items-center space-x-3 px-3 py-2 hover:bg-gray-50 cursor-pointer transition-colors"
+                  onClick={() => toggle(phonebook)}
+                >
+                  <Checkbox
+                    id={`phonebook-${phonebook.id}`}
+                    checked={selectedIds.has(phonebook.id)}
+                    onCheckedChange={() => toggle(phonebook)}
+                    onClick={(e) => e.stopPropagation()}
+                    className="flex-shrink-0"
+                  />
+                  <label
+                    htmlFor={`phonebook-${phonebook.id}`}
+                    onClick={(e) => e.stopPropagation()}
+                    className="flex-1 text-sm text-gray-700 cursor-pointer"
+                  >
+                    <div className="font-medium">{phonebook.name}</div>
+                    <div className="text-xs text-gray-500">{phonebook.contactCount.toLocaleString()} contacts</div>
+                  </label>
+                </div>
+              ))}
+              {isLoading && (
+                <div className="flex items-center justify-center gap-2 px-3 py-4 text-sm text-gray-500">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  Loading phonebooks...
+                </div>
+              )}
+              {!isLoading && results.length === 0 && (
+                <div className="px-3 py-4 text-center text-sm text-gray-500">
+                  {query ? `No phonebooks match "${query}"` : 'No phonebooks yet'}
+                </div>
+              )}
+              {!isLoading && results.length < total && (
+                <button
+                  type="button"
+                  onClick={() => void loadPage(results.length)}
+                  className="w-full px-3 py-2 text-sm text-blue-600 hover:bg-blue-50"
+                >
+                  Load more ({total - results.length} more)
+                </button>
+              )}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+interface PhonebookImportStepProps {
+  selected: PhonebookSummary[];
+  onSelectedChange: (selected: PhonebookSummary[]) => void;
+  // Set while the selected phonebooks' contacts are being fetched
+  progress: PhonebookFetchProgress | null;
+  preview: PhonebookImportPreview | null;
+  onCancelFetch: () => void;
+}
+
+export const PhonebookImportStep: React.FC<PhonebookImportStepProps> = ({
+  selected,
+  onSelectedChange,
+  progress,
+  preview,
+  onCancelFetch,
+}) => {
+  const percent = progress && progress.total > 0 ? Math.round((progress.fetched / progress.total) * 100) : 0;
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          Select Phonebook Lists
+        </label>
+        <PhonebookPicker selected={selected} onChange={onSelectedChange} disabled={progress !== null} />
+      </div>
+
+      {progress && (
+        <div className="p-3 bg-blue-50 border border-blue-200 rounded-lg" role="status" aria-live="polite">
+          <div className="flex items-center justify-between mb-2">
+            <span className="flex items-center gap-2 text-sm font-medium text-blue-700">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Fetching contacts... {percent}%
+            </span>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={onCancelFetch}
+              className="h-7 text-xs text-red-600 hover:text-red-700 hover:bg-red-50"
+            >
+              Cancel
+            </Button>
+          </div>
+          <div
+            className="h-2 w-full bg-blue-100 rounded-full overflow-hidden"
+            role="progressbar"
+            aria-valuemin={0}
+            aria-valuemax={100}
+            aria-valuenow={percent}
+          >
+            <div className="h-full bg-blue-600 transition-[width] duration-200" style={{ width: `${percent}%` }} />
+          </div>
+          <div className="mt-2 text-xs text-gray-600">
+            {progress.fetched.toLocaleString()} of about {progress.total.toLocaleString()} contacts
+          </div>
+        </div>
+      )}
+
+      {preview && (
+        <div>
+          <div className="grid grid-cols-5 gap-3">
+            <div className="bg-blue-50 border border-blue-200 rounded-lg p-3 text-center">
+              <div className="text-xl font-bold text-blue-600">{preview.total.toLocaleString()}</div>
+              <div className="text-xs text-blue-700 font-medium">Total</div>
+            </div>
+            <div className="bg-green-50 border border-green-200 rounded-lg p-3 text-center">
+              <div className="text-xl font-bold text-green-600">{preview.contacts.length.toLocaleString()}</div>
+              <div className="text-xs text-green-700 font-medium">New</div>
+            </div>
+            <div className="bg-orange-50 border border-orange-200 rounded-lg p-3 text-center">
+              <div className="text-xl font-bold text-orange-600">{preview.duplicates.toLocaleString()}</div>
+              <div className="text-xs text-orange-700 font-medium">Duplicates</div>
+            </div>
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-center">
+              <div className="text-xl font-bold text-red-600">{preview.invalid.toLocaleString()}</div>
+              <div className="text-xs text-red-700 font-medium">Invalid</div>
+            </div>
+            <div className="bg-gray-50 border border-gray-300 rounded-lg p-3 text-center">
+              <div className="text-xl font-bold text-gray-800">{preview.suppressed.toLocaleString()}</div>
+              <div className="text-xs text-gray-700 font-medium">Do Not Call</div>
+            </div>
+          </div>
+          <p className="mt-2 text-xs text-gray-500">
+            Duplicates are already in this campaign or listed in more than one selected phonebook; they, invalid numbers and numbers on the do-not-call list are skipped.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
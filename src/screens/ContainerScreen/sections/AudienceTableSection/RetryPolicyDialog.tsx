@@ -0,0 +1,75 @@
+import React, { useEffect, useRef, useState } from "react";
+import toast from 'react-hot-toast';
+import { Button } from "../../../../components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "../../../../components/ui/dialog";
+import { RetryPolicy, validateRetryPolicy } from "../../../../lib/dialer/retryPolicy";
+import { RetryPolicyFields } from "./RetryPolicyFields";
+
+interface RetryPolicyDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  policy: RetryPolicy;
+  onSave: (policy: RetryPolicy) => void;
+}
+
+export const RetryPolicyDialog: React.FC<RetryPolicyDialogProps> = ({ open, onOpenChange, policy, onSave }) => {
+  const [draft, setDraft] = useState<RetryPolicy>(policy);
+  const [error, setError] = useState('');
+
+  // Start from the saved policy every time the dialog opens, but not when it changes while open
+  const wasOpenRef = useRef(false);
+  useEffect(() => {
+    if (open && !wasOpenRef.current) {
+      setDraft(policy);
+      setError('');
+    }
+    wasOpenRef.current = open;
+  }, [open, policy]);
+
+  const handleSave = () => {
+    const validationError = validateRetryPolicy(draft);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    onSave(draft);
+    onOpenChange(false);
+    toast.success('Retry policy saved');
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="text-lg font-semibold">Retry Policy</DialogTitle>
+          <p className="text-sm text-gray-600 mt-1">
+            Applies to calls placed from now on. Contacts already waiting keep their next attempt time.
+          </p>
+        </DialogHeader>
+
+        <RetryPolicyFields
+          value={draft}
+          onChange={(value) => {
+            setDraft(value);
+            setError('');
+          }}
+          error={error}
+        />
+
+        <div className="flex justify-end gap-3 pt-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} className="bg-blue-600 hover:bg-blue-700">
+            Save
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,116 @@
+import React from "react";
+import { Checkbox } from "../../../../components/ui/checkbox";
+import {
+  MAX_ATTEMPTS_LIMIT,
+  RETRYABLE_OUTCOME_OPTIONS,
+  RetryPolicy,
+  getRetryDelayMs,
+} from "../../../../lib/dialer/retryPolicy";
+import { CALL_OUTCOME_LABELS, CallOutcome } from "../../../../lib/dialer/telephony";
+
+interface RetryPolicyFieldsProps {
+  value: RetryPolicy;
+  onChange: (value: RetryPolicy) => void;
+  error?: string;
+}
+
+const inputClassName = 'h-9 w-24 px-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const formatDelay = (ms: number): string => {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 60) return `${minutes} min`;
+  if (minutes < 24 * 60) return `${+(minutes / 60).toFixed(1)} h`;
+  return `${+(minutes / (24 * 60)).toFixed(1)} d`;
+};
+
+// Shows the wait before each retry so backoff settings are easy to sanity-check
+const describeSchedule = (policy: RetryPolicy): string => {
+  if (policy.maxAttempts <= 1 || !(policy.intervalMinutes > 0)) return 'No retries';
+  return Array.from({ length: policy.maxAttempts - 1 }, (_, index) => formatDelay(getRetryDelayMs(policy, index + 1)))
+    .join(' → ');
+};
+
+// Form fields for a campaign retry policy; the caller owns the state and validation
+export const RetryPolicyFields: React.FC<RetryPolicyFieldsProps> = ({ value, onChange, error }) => {
+  const update = (patch: Partial<RetryPolicy>) => onChange({ ...value, ...patch });
+
+  const toggleOutcome = (outcome: CallOutcome) => {
+    update({
+      retryableOutcomes: value.retryableOutcomes.includes(outcome)
+        ? value.retryableOutcomes.filter(item => item !== outcome)
+        : [...value.retryableOutcomes, outcome],
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="retry-max-attempts" className="block text-sm font-medium text-gray-700 mb-1">
+            Maximum attempts
+          </label>
+          <input
+            id="retry-max-attempts"
+            type="number"
+            min={1}
+            max={MAX_ATTEMPTS_LIMIT}
+            value={Number.isNaN(value.maxAttempts) ? '' : value.maxAttempts}
+            onChange={(e) => update({ maxAttempts: parseInt(e.target.value, 10) })}
+            className={inputClassName}
+          />
+          <p className="text-xs text-gray-500 mt-1">Including the first call</p>
+        </div>
+        <div>
+          <label htmlFor="retry-interval" className="block text-sm font-medium text-gray-700 mb-1">
+            Retry interval (minutes)
+          </label>
+          <input
+            id="retry-interval"
+            type="number"
+            min={1}
+            value={Number.isNaN(value.intervalMinutes) ? '' : value.intervalMinutes}
+            onChange={(e) => update({ intervalMinutes: parseInt(e.target.value, 10) })}
+            className={inputClassName}
+          />
+          <p className="text-xs text-gray-500 mt-1">Minimum wait between attempts</p>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Checkbox
+          id="retry-backoff"
+          checked={value.exponentialBackoff}
+          onCheckedChange={(checked) => update({ exponentialBackoff: checked === true })}
+        />
+        <label htmlFor="retry-backoff" className="text-sm text-gray-700 cursor-pointer">
+          Exponential backoff (double the wait after each attempt)
+        </label>
+      </div>
+
+      <div>
+        <span className="block text-sm font-medium text-gray-700 mb-2">Retry when the call was</span>
+        <div className="flex flex-wrap gap-4">
+          {RETRYABLE_OUTCOME_OPTIONS.map((outcome) => (
+            <div key={outcome} className="flex items-center gap-2">
+              <Checkbox
+                id={`retry-outcome-${outcome}`}
+                checked={value.retryableOutcomes.includes(outcome)}
+                onCheckedChange={() => toggleOutcome(outcome)}
+              />
+              <label htmlFor={`retry-outcome-${outcome}`} className="text-sm text-gray-700 cursor-pointer">
+                {CALL_OUTCOME_LABELS[outcome]}
+              </label>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <p className="text-xs text-gray-500">
+        Retry schedule: <span className="font-medium text-gray-700">{describeSchedule(value)}</span>.
+        Contacts that run out of attempts are marked Failed with the last result.
+      </p>
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  );
+};
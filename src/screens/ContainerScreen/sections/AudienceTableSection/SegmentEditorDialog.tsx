@@ -0,0 +1,346 @@
+import React, { useEffect, useState } from "react";
+import { ChevronDown, Plus, X } from "lucide-react";
+import { Button } from "../../../../components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "../../../../components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuTrigger,
+} from "../../../../components/ui/dropdown-menu";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../../../../components/ui/select";
+import { AUDIENCE_STATUSES } from "../../../../lib/audience";
+import { CampaignRecord } from "../../../../lib/campaignStore";
+import { generateId } from "../../../../lib/ids";
+import { getCountryPlan } from "../../../../lib/phone/countries";
+import {
+  ATTRIBUTE_OPERATOR_LABELS,
+  AttributeOperator,
+  AttributeRule,
+  EMPTY_SEGMENT_RULES,
+  SEGMENT_NAME_MAX_LENGTH,
+  Segment,
+  SegmentRules,
+  evaluateSegment,
+  getSegmentFieldOptions,
+  hasSegmentRules,
+  validateSegmentName,
+} from "../../../../lib/segments";
+
+interface SegmentEditorDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Segment being edited; null when creating one
+  segment: Segment | null;
+  segments: Segment[];
+  records: CampaignRecord[];
+  onSave: (segment: Segment) => void;
+}
+
+interface FacetOption {
+  value: string;
+  label: string;
+}
+
+const inputClassName = 'h-8 px-2 text-xs border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+// Empty input clears the bound; negative or non-numeric input is ignored
+const parseTriesInput = (value: string): number | null => {
+  if (value.trim() === '') return null;
+  const parsed = Number.parseInt(value, 10);
+  return Number.isNaN(parsed) || parsed < 0 ? null : parsed;
+};
+
+// Multi-select dropdown for one rule; matches any of the checked values
+const FacetMenu: React.FC<{
+  label: string;
+  options: FacetOption[];
+  selected: string[];
+  onChange: (selected: string[]) => void;
+}> = ({ label, options, selected, onChange }) => (
+  <DropdownMenu>
+    <DropdownMenuTrigger asChild>
+      <Button variant="outline" className="h-8 text-xs gap-1" disabled={options.length === 0}>
+        {label}
+        {selected.length > 0 && (
+          <span className="inline-flex items-center px-1.5 rounded-full text-[10px] font-medium bg-blue-100 text-blue-800">
+            {selected.length}
+          </span>
+        )}
+        <ChevronDown className="h-3 w-3 text-gray-500" />
+      </Button>
+    </DropdownMenuTrigger>
+    <DropdownMenuContent align="start" className="min-w-[200px] max-h-64 overflow-y-auto">
+      {options.map((option) => (
+        <DropdownMenuCheckboxItem
+          key={option.value}
+          checked={selected.includes(option.value)}
+          onCheckedChange={() => onChange(selected.includes(option.value)
+            ? selected.filter(value => value !== option.value)
+            : [...selected, option.value])}
+          onSelect={(e) => e.preventDefault()}
+          className="text-xs"
+        >
+          {option.label}
+        </DropdownMenuCheckboxItem>
+      ))}
+    </DropdownMenuContent>
+  </DropdownMenu>
+);
+
+export const SegmentEditorDialog: React.FC<SegmentEditorDialogProps> = ({
+  open,
+  onOpenChange,
+  segment,
+  segments,
+  records,
+  onSave,
+}) => {
+  const [name, setName] = useState('');
+  const [rules, setRules] = useState<SegmentRules>(EMPTY_SEGMENT_RULES);
+  const [nameError, setNameError] = useState('');
+  const [rulesError, setRulesError] = useState('');
+
+  // Start from the saved segment every time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setName(segment?.name ?? '');
+    setRules(segment?.rules ?? EMPTY_SEGMENT_RULES);
+    setNameError('');
+    setRulesError('');
+  }, [open, segment]);
+
+  const options = React.useMemo(() => getSegmentFieldOptions(records), [records]);
+  const matchCount = React.useMemo(
+    () => (hasSegmentRules(rules) ? evaluateSegment(records, rules).length : null),
+    [records, rules],
+  );
+
+  const update = (patch: Partial<SegmentRules>) => {
+    setRules(prev => ({ ...prev, ...patch }));
+    setRulesError('');
+  };
+
+  const updateAttribute = (index: number, patch: Partial<AttributeRule>) => {
+    update({ attributes: rules.attributes.map((rule, i) => (i === index ? { ...rule, ...patch } : rule)) });
+  };
+
+  const handleSave = () => {
+    const error = validateSegmentName(name, segments, segment?.id);
+    setNameError(error);
+    if (!hasSegmentRules(rules)) setRulesError('Add at least one rule');
+    if (error || !hasSegmentRules(rules)) return;
+
+    const now = new Date().toISOString();
+    onSave({
+      id: segment?.id ?? generateId(),
+      name: name.trim(),
+      rules: {
+        ...rules,
+        result: rules.result.trim(),
+        attributes: rules.attributes.filter(rule => rule.key.trim() !== ''),
+      },
+      createdAt: segment?.createdAt ?? now,
+      updatedAt: now,
+    });
+    onOpenChange(false);
+  };
+
+  const campaignOptions = records.map(record => ({ value: record.campaign.id, label: record.campaign.name }));
+  const countryOptions = options.countries.map(iso2 => ({ value: iso2, label: getCountryPlan(iso2)?.name ?? iso2 }));
+  const listOptions = options.listNames.map(listName => ({ value: listName, label: listName }));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="text-lg font-semibold">{segment ? 'Edit Segment' : 'New Segment'}</DialogTitle>
+          <p className="text-sm text-gray-600 mt-1">
+            Contacts from your campaigns that match every rule below. Matches are worked out again each time the segment is used.
+          </p>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <label htmlFor="segment-name" className="block text-sm font-medium text-gray-700 mb-2">
+              Segment Name
+            </label>
+            <input
+              id="segment-name"
+              type="text"
+              value={name}
+              onChange={(e) => {
+                setName(e.target.value);
+                setNameError('');
+              }}
+              maxLength={SEGMENT_NAME_MAX_LENGTH}
+              placeholder="e.g. Failed in previous campaigns"
+              className={`w-full h-10 px-3 text-sm border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                nameError ? 'border-red-400' : 'border-gray-300'
+              }`}
+            />
+            {nameError && <p className="text-xs text-red-600 mt-1">{nameError}</p>}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Rules</label>
+            <div className="flex flex-wrap items-center gap-3">
+              <FacetMenu
+                label="Campaigns"
+                options={campaignOptions}
+                selected={rules.campaignIds}
+                onChange={(campaignIds) => update({ campaignIds })}
+              />
+              <FacetMenu
+                label="Status"
+                options={AUDIENCE_STATUSES.map(status => ({ value: status, label: status }))}
+                selected={rules.statuses}
+                onChange={(statuses) => update({ statuses: statuses as SegmentRules['statuses'] })}
+              />
+              <FacetMenu
+                label="Country"
+                options={countryOptions}
+                selected={rules.countries}
+                onChange={(countries) => update({ countries })}
+              />
+              <FacetMenu
+                label="Imported List"
+                options={listOptions}
+                selected={rules.listNames}
+                onChange={(listNames) => update({ listNames })}
+              />
+              <div className="flex items-center gap-1 text-xs text-gray-600">
+                <span>Tries</span>
+                <input
+                  type="number"
+                  min={0}
+                  value={rules.triesMin ?? ''}
+                  onChange={(e) => update({ triesMin: parseTriesInput(e.target.value) })}
+                  placeholder="Min"
+                  aria-label="Minimum number of tries"
+                  className={`${inputClassName} w-16`}
+                />
+                <span>–</span>
+                <input
+                  type="number"
+                  min={0}
+                  value={rules.triesMax ?? ''}
+                  onChange={(e) => update({ triesMax: parseTriesInput(e.target.value) })}
+                  placeholder="Max"
+                  aria-label="Maximum number of tries"
+                  className={`${inputClassName} w-16`}
+                />
+              </div>
+            </div>
+            <div className="flex items-center gap-2 mt-3 text-xs text-gray-600">
+              <span className="w-24">Result contains</span>
+              <input
+                type="text"
+                value={rules.result}
+                onChange={(e) => update({ result: e.target.value })}
+                placeholder="e.g. No answer"
+                aria-label="Result contains"
+                className={`${inputClassName} flex-1`}
+              />
+            </div>
+          </div>
+
+          {/* Custom attribute conditions */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Custom Attributes</label>
+            <div className="space-y-2">
+              {rules.attributes.map((rule, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    list="segment-attribute-keys"
+                    value={rule.key}
+                    onChange={(e) => updateAttribute(index, { key: e.target.value })}
+                    placeholder="Attribute"
+                    aria-label="Attribute name"
+                    className={`${inputClassName} w-40`}
+                  />
+                  <Select
+                    value={rule.operator}
+                    onValueChange={(operator) => updateAttribute(index, { operator: operator as AttributeOperator })}
+                  >
+                    <SelectTrigger className="h-8 w-28 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(ATTRIBUTE_OPERATOR_LABELS) as AttributeOperator[]).map((operator) => (
+                        <SelectItem key={operator} value={operator} className="text-xs">
+                          {ATTRIBUTE_OPERATOR_LABELS[operator]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {rule.operator !== 'is-set' && (
+                    <input
+                      type="text"
+                      value={rule.value}
+                      onChange={(e) => updateAttribute(index, { value: e.target.value })}
+                      placeholder="Value"
+                      aria-label="Attribute value"
+                      className={`${inputClassName} flex-1`}
+                    />
+                  )}
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 w-8 p-0 ml-auto text-gray-500 hover:text-red-600"
+                    onClick={() => update({ attributes: rules.attributes.filter((_, i) => i !== index) })}
+                    aria-label="Remove attribute rule"
+                  >
+                    <X className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+              ))}
+              <datalist id="segment-attribute-keys">
+                {options.attributeKeys.map(key => <option key={key} value={key} />)}
+              </datalist>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-7 px-2 text-xs gap-1 text-blue-600 hover:text-blue-700 hover:bg-blue-50"
+                onClick={() => update({ attributes: [...rules.attributes, { key: '', operator: 'equals', value: '' }] })}
+              >
+                <Plus className="h-3.5 w-3.5" />
+                Add attribute rule
+              </Button>
+            </div>
+          </div>
+
+          <div className="p-3 bg-gray-50 border border-gray-200 rounded-lg text-xs text-gray-700">
+            {matchCount === null
+              ? 'Add a rule to see how many contacts match.'
+              : `${matchCount.toLocaleString()} contact(s) match right now`}
+          </div>
+          {rulesError && <p className="text-xs text-red-600">{rulesError}</p>}
+        </div>
+
+        <div className="flex justify-end gap-3 mt-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} className="bg-blue-600 hover:bg-blue-700">
+            {segment ? 'Save Segment' : 'Create Segment'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,207 @@
+import React, { useCallback, useState } from "react";
+import { Pencil, Plus, RefreshCw, Trash2 } from "lucide-react";
+import toast from 'react-hot-toast';
+import { Button } from "../../../../components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../../../../components/ui/select";
+import { campaignStore, useCampaigns } from "../../../../lib/campaignStore";
+import { SegmentImportPreview, buildSegmentImport } from "../../../../lib/import/segmentImport";
+import { segmentStore, useSegments } from "../../../../lib/segmentStore";
+import { Segment, describeSegmentRules, evaluateSegment } from "../../../../lib/segments";
+import { SegmentEditorDialog } from "./SegmentEditorDialog";
+
+interface SegmentImportStepProps {
+  // Phones already in the campaign; matches with these are counted as duplicates
+  existingPhones: Set<string>;
+  // Phones on the do-not-call list; matches with these are skipped
+  suppressedPhones: Map<string, string>;
+  segment: Segment | null;
+  preview: SegmentImportPreview | null;
+  onPreviewChange: (segment: Segment | null, preview: SegmentImportPreview | null) => void;
+}
+
+const formatTime = (date: Date) => date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+export const SegmentImportStep: React.FC<SegmentImportStepProps> = ({
+  existingPhones,
+  suppressedPhones,
+  segment,
+  preview,
+  onPreviewChange,
+}) => {
+  const segments = useSegments();
+  const records = useCampaigns();
+  const [evaluatedAt, setEvaluatedAt] = useState<Date | null>(null);
+  // Editor dialog target; null inside the object for a new segment
+  const [editor, setEditor] = useState<{ segment: Segment | null } | null>(null);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  const campaignNames = React.useMemo(
+    () => new Map(records.map(record => [record.campaign.id, record.campaign.name])),
+    [records],
+  );
+
+  // Matches are worked out from the campaigns as they are now, never cached with the segment
+  const evaluate = useCallback((target: Segment) => {
+    const matches = evaluateSegment(campaignStore.getSnapshot(), target.rules);
+    onPreviewChange(target, buildSegmentImport(matches, existingPhones, suppressedPhones));
+    setEvaluatedAt(new Date());
+  }, [existingPhones, suppressedPhones, onPreviewChange]);
+
+  const handleSelect = (segmentId: string) => {
+    const selected = segments.find(item => item.id === segmentId);
+    setConfirmDelete(false);
+    if (selected) evaluate(selected);
+  };
+
+  const handleSave = (saved: Segment) => {
+    segmentStore.save(saved);
+    toast.success(editor?.segment ? `Saved segment "${saved.name}"` : `Created segment "${saved.name}"`);
+    evaluate(saved);
+  };
+
+  const handleDelete = () => {
+    if (!segment) return;
+    segmentStore.remove(segment.id);
+    toast.success(`Deleted segment "${segment.name}"`);
+    setConfirmDelete(false);
+    setEvaluatedAt(null);
+    onPreviewChange(null, null);
+  };
+
+  const ruleDescriptions = segment ? describeSegmentRules(segment.rules, campaignNames) : [];
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          Select Segment
+        </label>
+        <div className="flex gap-2">
+          <Select value={segment?.id ?? ''} onValueChange={handleSelect} disabled={segments.length === 0}>
+            <SelectTrigger className="flex-1">
+              <SelectValue placeholder={segments.length === 0 ? 'No saved segments yet' : 'Select a saved segment'} />
+            </SelectTrigger>
+            <SelectContent>
+              {segments.map((item) => (
+                <SelectItem key={item.id} value={item.id}>{item.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => setEditor({ segment: null })}
+            className="gap-1 border-blue-300 text-blue-600 hover:bg-blue-50 hover:border-blue-400"
+          >
+            <Plus className="h-4 w-4" />
+            New Segment
+          </Button>
+        </div>
+      </div>
+
+      {segment && (
+        <div className="p-3 bg-gray-50 border border-gray-200 rounded-lg">
+          <div className="flex items-start justify-between gap-3">
+            <div className="flex flex-wrap gap-1">
+              {ruleDescriptions.map(description => (
+                <span
+                  key={description}
+                  className="inline-flex items-center px-2 py-0.5 rounded-full text-xs bg-blue-50 border border-blue-200 text-blue-800"
+                >
+                  {description}
+                </span>
+              ))}
+            </div>
+            {confirmDelete ? (
+              <div className="inline-flex items-center gap-2 text-xs flex-shrink-0">
+                <span className="text-red-600">Delete this segment?</span>
+                <Button variant="outline" size="sm" className="h-7" onClick={() => setConfirmDelete(false)}>
+                  Cancel
+                </Button>
+                <Button variant="destructive" size="sm" className="h-7 bg-red-600 hover:bg-red-700" onClick={handleDelete}>
+                  Delete
+                </Button>
+              </div>
+            ) : (
+              <div className="inline-flex items-center gap-1 flex-shrink-0">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 px-2 text-xs gap-1"
+                  onClick={() => setEditor({ segment })}
+                >
+                  <Pencil className="h-3.5 w-3.5" />
+                  Edit
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 px-2 text-xs gap-1 text-red-600 hover:text-red-700 hover:bg-red-50"
+                  onClick={() => setConfirmDelete(true)}
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                  Delete
+                </Button>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {segment && preview && (
+        <div>
+          <div className="grid grid-cols-4 gap-3">
+            <div className="bg-blue-50 border border-blue-200 rounded-lg p-3 text-center">
+              <div className="text-xl font-bold text-blue-600">{preview.total.toLocaleString()}</div>
+              <div className="text-xs text-blue-700 font-medium">Matching</div>
+            </div>
+            <div className="bg-green-50 border border-green-200 rounded-lg p-3 text-center">
+              <div className="text-xl font-bold text-green-600">{preview.contacts.length.toLocaleString()}</div>
+              <div className="text-xs text-green-700 font-medium">New</div>
+            </div>
+            <div className="bg-orange-50 border border-orange-200 rounded-lg p-3 text-center">
+              <div className="text-xl font-bold text-orange-600">{preview.duplicates.toLocaleString()}</div>
+              <div className="text-xs text-orange-700 font-medium">Duplicates</div>
+            </div>
+            <div className="bg-gray-50 border border-gray-300 rounded-lg p-3 text-center">
+              <div className="text-xl font-bold text-gray-800">{preview.suppressed.toLocaleString()}</div>
+              <div className="text-xs text-gray-700 font-medium">Do Not Call</div>
+            </div>
+          </div>
+          <div className="flex items-center justify-between mt-2">
+            <p className="text-xs text-gray-500">
+              Duplicates are already in this campaign or matched in more than one campaign; they and numbers on the do-not-call list are skipped.
+              Contacts are added as Pending with no tries.
+            </p>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => evaluate(segment)}
+              className="h-7 px-2 text-xs gap-1 text-blue-600 hover:text-blue-700 hover:bg-blue-50 flex-shrink-0"
+              title={evaluatedAt ? `Evaluated at ${formatTime(evaluatedAt)}` : undefined}
+            >
+              <RefreshCw className="h-3.5 w-3.5" />
+              Re-evaluate
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <SegmentEditorDialog
+        open={editor !== null}
+        onOpenChange={(open) => !open && setEditor(null)}
+        segment={editor?.segment ?? null}
+        segments={segments}
+        records={records}
+        onSave={handleSave}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,41 @@
+import React from "react";
+import { ArrowDown, ArrowUp, ArrowUpDown } from "lucide-react";
+import { TableHead } from "../../../../components/ui/table";
+import { SortDescriptor, SortKey } from "./sortAudience";
+
+interface SortableTableHeadProps {
+  sortKey: SortKey;
+  sort: SortDescriptor[];
+  onSort: (key: SortKey, additive: boolean) => void;
+  children: React.ReactNode;
+}
+
+export const SortableTableHead: React.FC<SortableTableHeadProps> = ({
+  sortKey,
+  sort,
+  onSort,
+  children,
+}) => {
+  const index = sort.findIndex(item => item.key === sortKey);
+  const direction = index === -1 ? null : sort[index].direction;
+  const ariaSort = direction === 'asc' ? 'ascending' : direction === 'desc' ? 'descending' : 'none';
+
+  return (
+    <TableHead className="font-semibold text-xs text-[#000000e0]" aria-sort={ariaSort}>
+      <button
+        type="button"
+        className="inline-flex items-center gap-1 select-none hover:text-blue-600 focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 rounded"
+        onClick={(e) => onSort(sortKey, e.shiftKey)}
+        title="Click to sort, Shift+click to add to the sort"
+      >
+        {children}
+        {direction === 'asc' && <ArrowUp className="h-3 w-3 text-blue-600" />}
+        {direction === 'desc' && <ArrowDown className="h-3 w-3 text-blue-600" />}
+        {!direction && <ArrowUpDown className="h-3 w-3 text-gray-400" />}
+        {direction && sort.length > 1 && (
+          <span className="text-[10px] font-medium text-blue-600">{index + 1}</span>
+        )}
+      </button>
+    </TableHead>
+  );
+};
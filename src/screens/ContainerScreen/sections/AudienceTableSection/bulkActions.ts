@@ -0,0 +1,92 @@
+import { AudienceData } from "../../../../lib/audience";
+import {
+  CONTACT_TRANSITIONS,
+  ContactEvent,
+  canTransition,
+  isOnCall,
+  transitionContact,
+} from "../../../../lib/contactStatus";
+
+export type BulkActionType = 'stop' | 'resume' | 'reset' | 'move' | 'delete' | 'call-now';
+
+// Actions sent to the API in batches with progress and per-contact results
+export type BatchedBulkAction = 'stop' | 'resume' | 'reset' | 'move';
+
+// What a bulk action would do to the selected contacts
+export interface BulkActionSummary {
+  // Contacts the action applies to
+  eligible: AudienceData[];
+  // The rest, grouped by why they're skipped, e.g. { reason: 'already Stopped', count: 3 }
+  skipped: { reason: string; count: number }[];
+}
+
+interface BulkActionContext {
+  // Target of a move; unset when moving into a new list
+  listId?: string;
+  // E.164 phones on the do-not-call list, which the dialer refuses
+  suppressedPhones?: Map<string, string>;
+}
+
+// State machine event behind each status-changing action
+const ACTION_EVENTS: Record<Exclude<BulkActionType, 'move' | 'delete'>, ContactEvent> = {
+  'stop': 'stop',
+  'resume': 'resume',
+  'reset': 'reset',
+  'call-now': 'dial',
+};
+
+// Why the state machine rejects the action for this contact, or null when it allows it
+const statusSkipReason = (contact: AudienceData, event: ContactEvent): string | null => {
+  if (canTransition(contact.status, event)) return null;
+  if (isOnCall(contact.status)) return 'on a call';
+  return contact.status === CONTACT_TRANSITIONS[event].to ? `already ${contact.status}` : contact.status;
+};
+
+// Why the action leaves a contact alone, or null when it applies
+const SKIP_REASONS: Record<BulkActionType, (contact: AudienceData, context: BulkActionContext) => string | null> = {
+  'stop': (contact) => statusSkipReason(contact, ACTION_EVENTS.stop),
+  // Resuming a Suppressed contact only makes sense once its number is off the list
+  'resume': (contact, { suppressedPhones }) => statusSkipReason(contact, ACTION_EVENTS.resume)
+    ?? (suppressedPhones?.has(contact.phone) ? 'on the do-not-call list' : null),
+  // A reset contact would get the tries of the call in flight added back on hang-up, so the
+  // machine doesn't allow resetting during a call
+  'reset': (contact) => statusSkipReason(contact, ACTION_EVENTS.reset),
+  'move': (contact, { listId }) => (listId && contact.listId === listId ? 'already in this list' : null),
+  'delete': (contact) => (isOnCall(contact.status) ? 'on a call' : null),
+  'call-now': (contact, { suppressedPhones }) => {
+    if (suppressedPhones?.has(contact.phone)) return 'on the do-not-call list';
+    return statusSkipReason(contact, ACTION_EVENTS['call-now']);
+  },
+};
+
+// Local version of a contact once the server confirmed the action for it. The dialer keeps
+// running while the batches go out, so `contact` must be the latest version; throws
+// InvalidTransitionError when it has moved on to a status the action no longer applies to.
+export function applyBulkResult(action: BatchedBulkAction, contact: AudienceData, listId?: string): AudienceData {
+  if (action === 'move') {
+    return { ...contact, listId };
+  }
+  if (action === 'reset') {
+    const { nextAttemptAt: _nextAttemptAt, ...rest } = transitionContact(contact, 'reset', { tries: '0', result: '' });
+    return rest;
+  }
+  return transitionContact(contact, ACTION_EVENTS[action]);
+}
+
+export function summarizeBulkAction(
+  action: BulkActionType,
+  contacts: AudienceData[],
+  context: BulkActionContext,
+): BulkActionSummary {
+  const eligible: AudienceData[] = [];
+  const skipped = new Map<string, number>();
+  contacts.forEach(contact => {
+    const reason = SKIP_REASONS[action](contact, context);
+    if (reason) skipped.set(reason, (skipped.get(reason) ?? 0) + 1);
+    else eligible.push(contact);
+  });
+  return {
+    eligible,
+    skipped: Array.from(skipped, ([reason, count]) => ({ reason, count })),
+  };
+}
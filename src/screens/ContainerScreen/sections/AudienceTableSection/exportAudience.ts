@@ -0,0 +1,122 @@
+import * as XLSX from 'xlsx';
+import { AudienceData } from "../../../../lib/audience";
+import { dncStore } from "../../../../lib/dncStore";
+
+export type ExportFormat = 'csv' | 'xlsx' | 'json';
+
+export interface ExportColumn {
+  id: string;
+  header: string;
+  value: (contact: AudienceData) => string;
+}
+
+// Single source of truth for the exported column layout, shared by every export entry point
+export const EXPORT_COLUMNS: ExportColumn[] = [
+  { id: 'identifier', header: 'ID', value: contact => contact.identifier },
+  { id: 'name', header: 'Name', value: contact => contact.name },
+  { id: 'phone', header: 'Phone', value: contact => contact.phone },
+  { id: 'createdAt', header: 'Created At', value: contact => contact.createdAt },
+  { id: 'status', header: 'Status', value: contact => contact.status },
+  { id: 'tries', header: 'Number of Tries', value: contact => contact.tries },
+  { id: 'result', header: 'Result', value: contact => contact.result },
+  // Empty unless the number is on the do-not-call list at export time
+  { id: 'suppression', header: 'Suppression Reason', value: contact => dncStore.getSuppression(contact.phone)?.reason ?? '' },
+];
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: 'CSV',
+  xlsx: 'Excel (XLSX)',
+  json: 'JSON',
+};
+
+export function toExportRows(
+  contacts: AudienceData[],
+  columns: ExportColumn[] = EXPORT_COLUMNS,
+): Record<string, string>[] {
+  return contacts.map(contact =>
+    Object.fromEntries(columns.map(column => [column.header, column.value(contact)])),
+  );
+}
+
+// "Direct To Noor!" -> "direct-to-noor"; falls back to "campaign" for names with no usable characters
+const slugify = (value: string): string =>
+  value
+    .trim()
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, '-')
+    .replace(/^-+|-+$/g, '') || 'campaign';
+
+export function buildExportFilename(campaignName: string, scope: string, format: ExportFormat): string {
+  const timestamp = new Date().toISOString().slice(0, 19).replace(/:/g, '-');
+  return `${slugify(campaignName)}-${scope}-${timestamp}.${format}`;
+}
+
+// Excel rejects sheet names with [ ] : * ? / \, starting or ending with an apostrophe, or longer
+// than 31 characters; falls back to "Contacts" when nothing usable is left
+export function buildSheetName(campaignName: string): string {
+  return campaignName
+    .replace(/[[\]:*?/\\]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, 31)
+    .replace(/^'+|'+$/g, '')
+    .trim() || 'Contacts';
+}
+
+export function downloadBlob(blob: Blob, filename: string): void {
+  const link = document.createElement('a');
+  const url = URL.createObjectURL(blob);
+
+  link.setAttribute('href', url);
+  link.setAttribute('download', filename);
+  link.style.visibility = 'hidden';
+
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  URL.revokeObjectURL(url);
+}
+
+interface ExportOptions {
+  format: ExportFormat;
+  filename: string;
+  columns?: ExportColumn[];
+  sheetName?: string;
+}
+
+// Write rows keyed by header in the chosen format; `headers` sets the column order
+export function exportRecords(
+  rows: Record<string, string | number>[],
+  headers: string[],
+  { format, filename, sheetName = 'Sheet1' }: Omit<ExportOptions, 'columns'>,
+): void {
+  switch (format) {
+    case 'xlsx': {
+      const wb = XLSX.utils.book_new();
+      const ws = XLSX.utils.json_to_sheet(rows, { header: headers });
+      XLSX.utils.book_append_sheet(wb, ws, sheetName);
+      XLSX.writeFile(wb, filename);
+      break;
+    }
+    case 'csv': {
+      const ws = XLSX.utils.json_to_sheet(rows, { header: headers });
+      // Prepend a BOM so Excel opens non-Latin names with the right encoding
+      const csv = `\uFEFF${XLSX.utils.sheet_to_csv(ws)}`;
+      downloadBlob(new Blob([csv], { type: 'text/csv;charset=utf-8;' }), filename);
+      break;
+    }
+    case 'json': {
+      const json = JSON.stringify(rows, null, 2);
+      downloadBlob(new Blob([json], { type: 'application/json' }), filename);
+      break;
+    }
+  }
+}
+
+export function exportAudience(contacts: AudienceData[], options: ExportOptions): void {
+  const { format, filename, columns = EXPORT_COLUMNS, sheetName = 'Contacts' } = options;
+  // Keep the header row even when there are no rows to export
+  const headers = columns.map(column => column.header);
+  exportRecords(toExportRows(contacts, columns), headers, { format, filename, sheetName });
+}
@@ -0,0 +1,135 @@
+import { AUDIENCE_STATUSES, AudienceData, AudienceStatus, parseCreatedAt } from "../../../../lib/audience";
+
+export interface AudienceFilters {
+  search: string;
+  statuses: AudienceStatus[];
+  triesMin: number | null;
+  triesMax: number | null;
+  // Calendar dates in yyyy-mm-dd form, as produced by <input type="date">
+  createdFrom: string;
+  createdTo: string;
+}
+
+export const EMPTY_AUDIENCE_FILTERS: AudienceFilters = {
+  search: '',
+  statuses: [],
+  triesMin: null,
+  triesMax: null,
+  createdFrom: '',
+  createdTo: '',
+};
+
+export type FilterChipKey = 'search' | 'statuses' | 'tries' | 'createdAt';
+
+export interface FilterChip {
+  key: FilterChipKey;
+  label: string;
+}
+
+// Local midnight for a yyyy-mm-dd string; NaN when empty or malformed
+const parseDateInput = (value: string): number => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) return NaN;
+  return new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])).getTime();
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Digits with the separators people type in phone numbers, e.g. "+962 (77) 123-45"
+const PHONE_QUERY_PATTERN = /^\+?[\d\s()-]*\d[\d\s()-]*$/;
+
+// All active filters are combined with AND
+export function filterAudience(rows: AudienceData[], filters: AudienceFilters): AudienceData[] {
+  const search = filters.search.trim().toLowerCase();
+  // Only phone-like queries match by digits, so "room 7" doesn't match every number with a 7.
+  // Leading zeros are a trunk or international prefix, never part of the stored E.164 digits.
+  const searchDigits = PHONE_QUERY_PATTERN.test(search) ? search.replace(/\D/g, '').replace(/^0+/, '') : '';
+  const statuses = new Set(filters.statuses);
+  const from = parseDateInput(filters.createdFrom);
+  // The "to" date is inclusive, so compare against the start of the following day
+  const toExclusive = parseDateInput(filters.createdTo) + DAY_MS;
+
+  return rows.filter(row => {
+    if (search) {
+      const matchesText =
+        row.name.toLowerCase().includes(search) ||
+        row.identifier.toLowerCase().includes(search) ||
+        row.phone.toLowerCase().includes(search) ||
+        // Let "077 123" match a stored "96277123..." style number
+        (searchDigits.length > 0 && row.phone.replace(/\D/g, '').includes(searchDigits));
+      if (!matchesText) return false;
+    }
+
+    if (statuses.size > 0 && !statuses.has(row.status)) {
+      return false;
+    }
+
+    if (filters.triesMin !== null || filters.triesMax !== null) {
+      const tries = Number.parseInt(row.tries, 10);
+      if (Number.isNaN(tries)) return false;
+      if (filters.triesMin !== null && tries < filters.triesMin) return false;
+      if (filters.triesMax !== null && tries > filters.triesMax) return false;
+    }
+
+    if (!Number.isNaN(from) || !Number.isNaN(toExclusive)) {
+      const createdAt = parseCreatedAt(row.createdAt);
+      if (Number.isNaN(createdAt)) return false;
+      if (!Number.isNaN(from) && createdAt < from) return false;
+      if (!Number.isNaN(toExclusive) && createdAt >= toExclusive) return false;
+    }
+
+    return true;
+  });
+}
+
+export function countByStatus(rows: AudienceData[]): Record<AudienceStatus, number> {
+  const counts = Object.fromEntries(
+    AUDIENCE_STATUSES.map(status => [status, 0]),
+  ) as Record<AudienceStatus, number>;
+  rows.forEach(row => {
+    counts[row.status] += 1;
+  });
+  return counts;
+}
+
+export function getFilterChips(filters: AudienceFilters): FilterChip[] {
+  const chips: FilterChip[] = [];
+
+  if (filters.search.trim()) {
+    chips.push({ key: 'search', label: `Search: "${filters.search.trim()}"` });
+  }
+  if (filters.statuses.length > 0) {
+    chips.push({ key: 'statuses', label: `Status: ${filters.statuses.join(', ')}` });
+  }
+  if (filters.triesMin !== null || filters.triesMax !== null) {
+    const label = filters.triesMin !== null && filters.triesMax !== null
+      ? `${filters.triesMin}-${filters.triesMax}`
+      : filters.triesMin !== null
+        ? `≥ ${filters.triesMin}`
+        : `≤ ${filters.triesMax}`;
+    chips.push({ key: 'tries', label: `Tries: ${label}` });
+  }
+  if (filters.createdFrom || filters.createdTo) {
+    const label = filters.createdFrom && filters.createdTo
+      ? `${filters.createdFrom} → ${filters.createdTo}`
+      : filters.createdFrom
+        ? `from ${filters.createdFrom}`
+        : `until ${filters.createdTo}`;
+    chips.push({ key: 'createdAt', label: `Created: ${label}` });
+  }
+
+  return chips;
+}
+
+export function clearFilter(filters: AudienceFilters, key: FilterChipKey): AudienceFilters {
+  switch (key) {
+    case 'search':
+      return { ...filters, search: '' };
+    case 'statuses':
+      return { ...filters, statuses: [] };
+    case 'tries':
+      return { ...filters, triesMin: null, triesMax: null };
+    case 'createdAt':
+      return { ...filters, createdFrom: '', createdTo: '' };
+  }
+}
@@ -0,0 +1,78 @@
+import { AudienceData, parseCreatedAt } from "../../../../lib/audience";
+
+export type SortKey = 'identifier' | 'name' | 'phone' | 'createdAt' | 'status' | 'tries' | 'result';
+export type SortDirection = 'asc' | 'desc';
+
+export interface SortDescriptor {
+  key: SortKey;
+  direction: SortDirection;
+}
+
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+// Compare two non-NaN numbers; NaN values always sort last regardless of direction
+const compareNumbers = (a: number, b: number): number | null => {
+  const aInvalid = Number.isNaN(a);
+  const bInvalid = Number.isNaN(b);
+  if (aInvalid || bInvalid) {
+    return aInvalid === bInvalid ? 0 : null;
+  }
+  return a - b;
+};
+
+const comparators: Record<SortKey, (a: AudienceData, b: AudienceData) => number | null> = {
+  identifier: (a, b) => collator.compare(a.identifier, b.identifier),
+  name: (a, b) => collator.compare(a.name, b.name),
+  phone: (a, b) => collator.compare(a.phone, b.phone),
+  createdAt: (a, b) => compareNumbers(parseCreatedAt(a.createdAt), parseCreatedAt(b.createdAt)),
+  status: (a, b) => collator.compare(a.status, b.status),
+  // tries is stored as a string but must be ordered numerically
+  tries: (a, b) => compareNumbers(Number.parseInt(a.tries, 10), Number.parseInt(b.tries, 10)),
+  result: (a, b) => collator.compare(a.result, b.result),
+};
+
+const isMissing = (row: AudienceData, key: SortKey): boolean => {
+  if (key === 'createdAt') return Number.isNaN(parseCreatedAt(row.createdAt));
+  if (key === 'tries') return Number.isNaN(Number.parseInt(row.tries, 10));
+  return false;
+};
+
+// Multi-column stable sort. Earlier descriptors take precedence over later ones.
+export function sortAudience(rows: AudienceData[], sort: SortDescriptor[]): AudienceData[] {
+  if (sort.length === 0) return rows;
+
+  return [...rows].sort((a, b) => {
+    for (const { key, direction } of sort) {
+      const result = comparators[key](a, b);
+      if (result === null) {
+        // Unparseable values go to the bottom in both directions
+        return isMissing(a, key) ? 1 : -1;
+      }
+      if (result !== 0) {
+        return direction === 'asc' ? result : -result;
+      }
+    }
+    return 0;
+  });
+}
+
+// Cycle a column through asc -> desc -> none. Shift-click (additive) keeps the other columns.
+export function toggleSort(sort: SortDescriptor[], key: SortKey, additive: boolean): SortDescriptor[] {
+  const existing = sort.find(item => item.key === key);
+  const next: SortDescriptor | null = !existing
+    ? { key, direction: 'asc' }
+    : existing.direction === 'asc'
+      ? { key, direction: 'desc' }
+      : null;
+
+  if (!additive) {
+    return next ? [next] : [];
+  }
+
+  if (!existing) {
+    return [...sort, next as SortDescriptor];
+  }
+  return next
+    ? sort.map(item => (item.key === key ? next : item))
+    : sort.filter(item => item.key !== key);
+}
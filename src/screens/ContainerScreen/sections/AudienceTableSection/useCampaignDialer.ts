@@ -0,0 +1,41 @@
+import { useEffect, useMemo, useSyncExternalStore } from "react";
+import { Campaign } from "../../../../lib/campaign";
+import { campaignDialers } from "../../../../lib/campaignDialers";
+import { DialerState } from "../../../../lib/dialer/dialerEngine";
+import { TelephonyAdapter } from "../../../../lib/dialer/telephony";
+
+interface CampaignDialerOptions {
+  // Replaces the simulated adapter once a PBX integration is configured
+  adapter?: TelephonyAdapter;
+}
+
+export interface CampaignDialer {
+  state: DialerState;
+  activeCallIds: string[];
+  start: () => void;
+  pause: () => void;
+  prioritize: (contactIds: string[]) => void;
+  resetContacts: (contactIds: string[]) => void;
+}
+
+// The campaign's DialerEngine for the campaign screen. The engine belongs to the campaign, not
+// the screen, so leaving the page doesn't stop a running campaign.
+export function useCampaignDialer(campaign: Campaign, { adapter }: CampaignDialerOptions = {}): CampaignDialer {
+  const engine = campaignDialers.get(campaign);
+
+  useEffect(() => {
+    if (adapter) engine.setAdapter(adapter);
+  }, [engine, adapter]);
+
+  const snapshot = useSyncExternalStore(engine.subscribe, engine.getSnapshot);
+
+  // Stable between engine updates, so callbacks depending on the dialer aren't rebuilt every render
+  return useMemo(() => ({
+    state: snapshot.state,
+    activeCallIds: snapshot.activeCallIds,
+    start: () => engine.start(),
+    pause: () => engine.pause(),
+    prioritize: (contactIds: string[]) => engine.prioritize(contactIds),
+    resetContacts: (contactIds: string[]) => engine.resetContacts(contactIds),
+  }), [engine, snapshot]);
+}
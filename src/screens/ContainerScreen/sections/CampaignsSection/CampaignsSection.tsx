@@ -0,0 +1,201 @@
+import React, { useCallback, useState } from "react";
+import { Archive, ArchiveRestore, Copy, Plus } from "lucide-react";
+import toast from 'react-hot-toast';
+import { Button } from "../../../../components/ui/button";
+import { Card } from "../../../../components/ui/card";
+import { Checkbox } from "../../../../components/ui/checkbox";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "../../../../components/ui/table";
+import { formatCreatedAt } from "../../../../lib/audience";
+import { Campaign, DEFAULT_CAMPAIGN } from "../../../../lib/campaign";
+import {
+  CAMPAIGN_STATUS_LABELS,
+  CampaignRecord,
+  CampaignStatus,
+  campaignStore,
+  getCampaignSummary,
+  useCampaigns,
+} from "../../../../lib/campaignStore";
+import { generateId } from "../../../../lib/ids";
+import { navigate, toHref } from "../../../../lib/router";
+import { campaignPath } from "../../routes";
+import { EditCampaignDialog } from "../AudienceTableSection/EditCampaignDialog";
+
+const STATUS_CLASSES: Record<CampaignStatus, string> = {
+  'draft': 'bg-gray-100 text-gray-800',
+  'in-progress': 'bg-blue-100 text-blue-800',
+  'completed': 'bg-green-100 text-green-800',
+  'archived': 'bg-yellow-100 text-yellow-800',
+};
+
+// Settings a new campaign starts from; the name is filled in by the user
+const newCampaignDraft = (): Campaign => ({
+  ...DEFAULT_CAMPAIGN,
+  id: generateId(),
+  name: '',
+  description: '',
+});
+
+export const CampaignsSection = (): JSX.Element => {
+  const records = useCampaigns();
+  const [showArchived, setShowArchived] = useState(false);
+  const [newCampaign, setNewCampaign] = useState<Campaign | null>(null);
+
+  const visibleRecords = React.useMemo(
+    () => records.filter(record => showArchived || !record.archivedAt),
+    [records, showArchived],
+  );
+  const archivedCount = records.filter(record => record.archivedAt).length;
+
+  const handleCreate = useCallback((campaign: Campaign) => {
+    campaignStore.create(campaign);
+    navigate(campaignPath(campaign.id));
+  }, []);
+
+  const handleDuplicate = useCallback((record: CampaignRecord) => {
+    const copy = campaignStore.duplicate(record.campaign.id);
+    if (copy) toast.success(`Created "${copy.campaign.name}"`);
+  }, []);
+
+  const handleArchive = useCallback((record: CampaignRecord) => {
+    if (record.archivedAt) {
+      campaignStore.restore(record.campaign.id);
+      toast.success(`Restored "${record.campaign.name}"`);
+    } else {
+      campaignStore.archive(record.campaign.id);
+      toast.success(`Archived "${record.campaign.name}"`);
+    }
+  }, []);
+
+  return (
+    <section className="w-full bg-neutral-100 p-6">
+      <div className="w-full">
+        {/* Header */}
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-medium">Campaigns</h2>
+          <div className="flex items-center gap-4">
+            <label className="flex items-center gap-2 text-xs text-gray-600 cursor-pointer">
+              <Checkbox
+                checked={showArchived}
+                onCheckedChange={(checked) => setShowArchived(checked === true)}
+              />
+              Show archived ({archivedCount})
+            </label>
+            <Button
+              className="h-8 text-xs gap-2 bg-blue-600 hover:bg-blue-700"
+              onClick={() => setNewCampaign(newCampaignDraft())}
+            >
+              <Plus className="h-3.5 w-3.5" />
+              New Campaign
+            </Button>
+          </div>
+        </div>
+
+        <Card className="border">
+          <Table>
+            <TableHeader className="bg-neutral-50">
+              <TableRow>
+                <TableHead className="font-semibold text-xs text-[#000000e0]">Campaign</TableHead>
+                <TableHead className="font-semibold text-xs text-[#000000e0]">Status</TableHead>
+                <TableHead className="font-semibold text-xs text-[#000000e0]">Audience</TableHead>
+                <TableHead className="font-semibold text-xs text-[#000000e0] w-48">Progress</TableHead>
+                <TableHead className="font-semibold text-xs text-[#000000e0]">Response Rate</TableHead>
+                <TableHead className="font-semibold text-xs text-[#000000e0]">Created At</TableHead>
+                <TableHead className="font-semibold text-xs text-[#000000e0] text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visibleRecords.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="py-8 text-center text-sm text-gray-500">
+                    No campaigns yet. Create one to start calling.
+                  </TableCell>
+                </TableRow>
+              ) : visibleRecords.map((record) => {
+                const { campaign } = record;
+                const summary = getCampaignSummary(record);
+                return (
+                  <TableRow key={campaign.id} className="hover:bg-gray-50">
+                    <TableCell className="text-xs">
+                      <a
+                        href={toHref(campaignPath(campaign.id))}
+                        className="font-medium text-blue-600 hover:text-blue-800 hover:underline"
+                      >
+                        {campaign.name}
+                      </a>
+                      {campaign.description && (
+                        <p className="text-gray-500 mt-0.5 line-clamp-1">{campaign.description}</p>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-xs">
+                      <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_CLASSES[summary.status]}`}>
+                        {CAMPAIGN_STATUS_LABELS[summary.status]}
+                      </span>
+                    </TableCell>
+                    <TableCell className="text-xs text-[#000000e0]">{summary.audienceSize}</TableCell>
+                    <TableCell className="text-xs text-[#000000e0]">
+                      <div className="flex items-center gap-2">
+                        <div className="flex-1 h-1.5 bg-gray-200 rounded-full overflow-hidden">
+                          <div className="h-full bg-blue-600 rounded-full" style={{ width: `${summary.progress}%` }} />
+                        </div>
+                        <span className="w-9 text-right">{summary.progress}%</span>
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-xs text-[#000000e0]">
+                      {summary.responseRate === null ? '—' : `${summary.responseRate}%`}
+                    </TableCell>
+                    <TableCell className="text-xs text-[#000000e0]">
+                      {formatCreatedAt(new Date(record.createdAt))}
+                    </TableCell>
+                    <TableCell className="text-xs text-right">
+                      <div className="flex justify-end gap-1">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-7 px-2 text-xs gap-1"
+                          onClick={() => handleDuplicate(record)}
+                        >
+                          <Copy className="h-3.5 w-3.5" />
+                          Duplicate
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-7 px-2 text-xs gap-1"
+                          onClick={() => handleArchive(record)}
+                        >
+                          {record.archivedAt ? (
+                            <ArchiveRestore className="h-3.5 w-3.5" />
+                          ) : (
+                            <Archive className="h-3.5 w-3.5" />
+                          )}
+                          {record.archivedAt ? 'Restore' : 'Archive'}
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </Card>
+
+        {newCampaign && (
+          <EditCampaignDialog
+            open
+            onOpenChange={(open) => !open && setNewCampaign(null)}
+            campaign={newCampaign}
+            onSave={handleCreate}
+            isNew
+          />
+        )}
+      </div>
+    </section>
+  );
+};
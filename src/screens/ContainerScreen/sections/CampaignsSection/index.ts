@@ -0,0 +1 @@
+export { CampaignsSection } from "./CampaignsSection";
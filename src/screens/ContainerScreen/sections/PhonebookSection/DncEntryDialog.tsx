@@ -0,0 +1,171 @@
+import React, { useEffect, useState } from "react";
+import { Button } from "../../../../components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "../../../../components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../../../../components/ui/select";
+import { DEFAULT_DNC_REASON, DNC_REASON_MAX_LENGTH, DncEntry } from "../../../../lib/dnc";
+import { validatePhoneNumber } from "../../../../lib/import/validateContacts";
+import { COUNTRY_PHONE_PLANS } from "../../../../lib/phone/countries";
+
+interface DncEntryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  defaultCountry: string;
+  onDefaultCountryChange: (country: string) => void;
+  // Looks up an existing entry so re-adding a number can say it will be replaced
+  findEntry: (phone: string) => DncEntry | undefined;
+  onSave: (entry: DncEntry) => void;
+}
+
+const inputClassName = (hasError: boolean) =>
+  `w-full h-10 px-3 text-sm border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+    hasError ? 'border-red-400' : 'border-gray-300'
+  }`;
+
+const todayInput = (): string => {
+  const today = new Date();
+  return `${today.getFullYear()}-${String(today.getMonth() + 1).padStart(2, '0')}-${String(today.getDate()).padStart(2, '0')}`;
+};
+
+export const DncEntryDialog: React.FC<DncEntryDialogProps> = ({
+  open,
+  onOpenChange,
+  defaultCountry,
+  onDefaultCountryChange,
+  findEntry,
+  onSave,
+}) => {
+  const [phone, setPhone] = useState('');
+  const [reason, setReason] = useState('');
+  const [expiresAt, setExpiresAt] = useState('');
+  const [phoneError, setPhoneError] = useState('');
+
+  useEffect(() => {
+    if (!open) return;
+    setPhone('');
+    setReason('');
+    setExpiresAt('');
+    setPhoneError('');
+  }, [open]);
+
+  const phoneResult = validatePhoneNumber(phone, defaultCountry);
+  const existing = phoneResult.isValid ? findEntry(phoneResult.e164) : undefined;
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!phoneResult.isValid) {
+      setPhoneError(phoneResult.error ?? 'Invalid phone number');
+      return;
+    }
+    onSave({
+      phone: phoneResult.e164,
+      reason: reason.trim() || DEFAULT_DNC_REASON,
+      addedAt: new Date().toISOString(),
+      ...(expiresAt && { expiresAt }),
+    });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="text-lg font-semibold">Add to Do Not Call List</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="dnc-phone" className="block text-sm font-medium text-gray-700 mb-2">
+                Phone
+              </label>
+              <input
+                id="dnc-phone"
+                type="tel"
+                value={phone}
+                onChange={(e) => {
+                  setPhone(e.target.value);
+                  setPhoneError('');
+                }}
+                placeholder="+962771234567"
+                autoFocus
+                className={inputClassName(!!phoneError)}
+              />
+              {phoneError && <p className="text-xs text-red-600 mt-1">{phoneError}</p>}
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Default Country</label>
+              <Select value={defaultCountry} onValueChange={onDefaultCountryChange}>
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {COUNTRY_PHONE_PLANS.map((plan) => (
+                    <SelectItem key={plan.iso2} value={plan.iso2}>
+                      {plan.name} (+{plan.callingCode})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="dnc-reason" className="block text-sm font-medium text-gray-700 mb-2">
+              Reason
+            </label>
+            <input
+              id="dnc-reason"
+              type="text"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              maxLength={DNC_REASON_MAX_LENGTH}
+              placeholder="e.g. Customer asked not to be called"
+              className={inputClassName(false)}
+            />
+          </div>
+
+          <div>
+            <label htmlFor="dnc-expires" className="block text-sm font-medium text-gray-700 mb-2">
+              Expires
+            </label>
+            <input
+              id="dnc-expires"
+              type="date"
+              value={expiresAt}
+              min={todayInput()}
+              onChange={(e) => setExpiresAt(e.target.value)}
+              className={inputClassName(false)}
+            />
+            <p className="text-xs text-gray-500 mt-1">Leave empty to suppress the number permanently</p>
+          </div>
+
+          {existing && (
+            <p className="p-2 text-xs text-amber-800 bg-amber-50 border border-amber-200 rounded-md">
+              This number is already on the list ({existing.reason}). Saving replaces its reason and expiry date.
+            </p>
+          )}
+
+          <div className="flex justify-end gap-3">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" className="bg-blue-600 hover:bg-blue-700">
+              {existing ? 'Replace' : 'Add Number'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,270 @@
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { Ban, Loader2, Plus, Search, Trash2, Upload } from "lucide-react";
+import toast from 'react-hot-toast';
+import { Button } from "../../../../components/ui/button";
+import { Card } from "../../../../components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "../../../../components/ui/table";
+import { DncEntry, buildDncEntries, isDncEntryActive } from "../../../../lib/dnc";
+import { dncStore, useDncEntries } from "../../../../lib/dncStore";
+import { ParsedSheet } from "../../../../lib/import/columnMapping";
+import {
+  ImportCancelledError,
+  ImportJob,
+  ImportProgress,
+  parseSpreadsheetInWorker,
+} from "../../../../lib/import/importWorkerClient";
+import { getSpreadsheetFileError } from "../../../../lib/import/parseFile";
+import { ImportProgressBar } from "../AudienceTableSection/ImportProgressBar";
+import { DncEntryDialog } from "./DncEntryDialog";
+
+interface DncListPanelProps {
+  defaultCountry: string;
+  onDefaultCountryChange: (country: string) => void;
+}
+
+// Uploads can hold tens of thousands of numbers; render them a page at a time
+const ENTRIES_PER_PAGE = 100;
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString();
+
+const matchesSearch = (entry: DncEntry, search: string, searchDigits: string) =>
+  entry.reason.toLowerCase().includes(search)
+  || (searchDigits.length > 0 && entry.phone.replace(/\D/g, '').includes(searchDigits));
+
+/**
+ * The do-not-call list. Numbers on it are rejected when importing into a campaign and are never
+ * dialed, until their expiry date passes.
+ */
+export const DncListPanel: React.FC<DncListPanelProps> = ({ defaultCountry, onDefaultCountryChange }) => {
+  const entries = useDncEntries();
+  const [search, setSearch] = useState('');
+  const [visibleCount, setVisibleCount] = useState(ENTRIES_PER_PAGE);
+  const [showAddDialog, setShowAddDialog] = useState(false);
+  const [pendingRemovePhone, setPendingRemovePhone] = useState<string | null>(null);
+  const [uploadProgress, setUploadProgress] = useState<ImportProgress | null>(null);
+  const uploadJobRef = useRef<ImportJob<ParsedSheet> | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => () => uploadJobRef.current?.cancel(), []);
+
+  useEffect(() => {
+    setVisibleCount(ENTRIES_PER_PAGE);
+  }, [search]);
+
+  const query = search.trim().toLowerCase();
+  const filtered = React.useMemo(() => {
+    if (!query) return entries;
+    const digits = query.replace(/\D/g, '');
+    return entries.filter(entry => matchesSearch(entry, query, digits));
+  }, [entries, query]);
+  const activeCount = React.useMemo(() => entries.filter(entry => isDncEntryActive(entry)).length, [entries]);
+
+  const handleAdd = useCallback((entry: DncEntry) => {
+    const replaced = dncStore.get(entry.phone) !== undefined;
+    dncStore.add([entry]);
+    toast.success(replaced ? `Updated ${entry.phone} on the do-not-call list` : `Added ${entry.phone} to the do-not-call list`);
+  }, []);
+
+  const handleRemove = useCallback((phone: string) => {
+    dncStore.remove([phone]);
+    setPendingRemovePhone(null);
+    toast.success(`Removed ${phone} from the do-not-call list`);
+  }, []);
+
+  const handleUpload = useCallback(async (file: File) => {
+    const fileError = getSpreadsheetFileError(file);
+    if (fileError) {
+      toast.error(fileError);
+      return;
+    }
+
+    const job = parseSpreadsheetInWorker(file, setUploadProgress);
+    uploadJobRef.current = job;
+    try {
+      const sheet = await job.result;
+      const { entries: uploaded, invalid, duplicates } = buildDncEntries(sheet, defaultCountry);
+      if (uploaded.length === 0) {
+        toast.error('No valid phone numbers found in the file');
+        return;
+      }
+
+      dncStore.add(uploaded);
+      const skipped = [
+        invalid > 0 && `${invalid} invalid`,
+        duplicates > 0 && `${duplicates} duplicates`,
+      ].filter(Boolean).join(', ');
+      toast.success(`Added ${uploaded.length} number(s) to the do-not-call list${skipped ? ` (${skipped} skipped)` : ''}`);
+    } catch (error) {
+      if (error instanceof ImportCancelledError) return;
+      console.error('Error processing do-not-call file:', error);
+      toast.error('Error processing file. Please check the file format.');
+    } finally {
+      if (uploadJobRef.current === job) {
+        uploadJobRef.current = null;
+        setUploadProgress(null);
+      }
+    }
+  }, [defaultCountry]);
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (file) void handleUpload(file);
+  };
+
+  const now = Date.now();
+
+  return (
+    <Card className="border">
+      <div className="flex justify-between items-center gap-4 p-3 border-b">
+        <div className="min-w-0">
+          <h3 className="text-sm font-medium text-[#000000e0]">Do Not Call List</h3>
+          <p className="text-xs text-gray-500">
+            {activeCount.toLocaleString()} active of {entries.length.toLocaleString()} number(s).
+            Listed numbers are never imported into a campaign or dialed.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <div className="relative w-56">
+            <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 h-3.5 w-3.5 text-gray-400" />
+            <input
+              type="search"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search phone or reason..."
+              className="w-full h-8 pl-8 pr-3 text-xs border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,.xlsx,.xls"
+            onChange={handleFileChange}
+            className="hidden"
+          />
+          <Button
+            variant="outline"
+            className="h-8 text-xs gap-2"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={uploadProgress !== null}
+            title="CSV or Excel with a phone column and optional reason and expiry date columns"
+          >
+            {uploadProgress ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Upload className="h-3.5 w-3.5" />}
+            Upload File
+          </Button>
+          <Button className="h-8 text-xs gap-2 bg-blue-600 hover:bg-blue-700" onClick={() => setShowAddDialog(true)}>
+            <Plus className="h-3.5 w-3.5" />
+            Add Number
+          </Button>
+        </div>
+      </div>
+
+      {uploadProgress && (
+        <div className="p-3 border-b">
+          <ImportProgressBar progress={uploadProgress} onCancel={() => uploadJobRef.current?.cancel()} />
+        </div>
+      )}
+
+      <Table>
+        <TableHeader className="bg-neutral-50">
+          <TableRow>
+            <TableHead className="font-semibold text-xs text-[#000000e0]">Phone</TableHead>
+            <TableHead className="font-semibold text-xs text-[#000000e0]">Reason</TableHead>
+            <TableHead className="font-semibold text-xs text-[#000000e0]">Added</TableHead>
+            <TableHead className="font-semibold text-xs text-[#000000e0]">Expires</TableHead>
+            <TableHead className="font-semibold text-xs text-[#000000e0] text-right">Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {filtered.length === 0 && (
+            <TableRow>
+              <TableCell colSpan={5} className="py-8 text-center text-sm text-gray-500">
+                {query ? 'No numbers match your search' : (
+                  <span className="inline-flex items-center gap-2">
+                    <Ban className="h-4 w-4 text-gray-300" />
+                    No numbers on the do-not-call list
+                  </span>
+                )}
+              </TableCell>
+            </TableRow>
+          )}
+          {filtered.slice(0, visibleCount).map((entry) => {
+            const active = isDncEntryActive(entry, now);
+            return (
+              <TableRow key={entry.phone} className={active ? 'hover:bg-gray-50' : 'text-gray-400 hover:bg-gray-50'}>
+                <TableCell className={`text-xs ${active ? 'text-[#000000e0]' : ''}`}>{entry.phone}</TableCell>
+                <TableCell className={`text-xs ${active ? 'text-[#000000e0]' : ''}`}>{entry.reason}</TableCell>
+                <TableCell className="text-xs">{formatDate(entry.addedAt)}</TableCell>
+                <TableCell className="text-xs">
+                  {entry.expiresAt ?? 'Never'}
+                  {!active && (
+                    <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-[10px] font-medium bg-gray-100 text-gray-600">
+                      Expired
+                    </span>
+                  )}
+                </TableCell>
+                <TableCell className="text-xs text-right">
+                  {pendingRemovePhone === entry.phone ? (
+                    <div className="inline-flex items-center gap-2">
+                      <span className="text-red-600">Remove this number?</span>
+                      <Button variant="outline" size="sm" className="h-7" onClick={() => setPendingRemovePhone(null)}>
+                        Cancel
+                      </Button>
+                      <Button
+                        variant="destructive"
+                        size="sm"
+                        className="h-7 bg-red-600 hover:bg-red-700"
+                        onClick={() => handleRemove(entry.phone)}
+                      >
+                        Remove
+                      </Button>
+                    </div>
+                  ) : (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 px-2 text-xs gap-1 text-red-600 hover:text-red-700 hover:bg-red-50"
+                      onClick={() => setPendingRemovePhone(entry.phone)}
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                      Remove
+                    </Button>
+                  )}
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+
+      {filtered.length > visibleCount && (
+        <div className="flex justify-center py-2 border-t">
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 text-xs text-blue-600 hover:text-blue-700 hover:bg-blue-50"
+            onClick={() => setVisibleCount(count => count + ENTRIES_PER_PAGE)}
+          >
+            Load more ({(filtered.length - visibleCount).toLocaleString()} more)
+          </Button>
+        </div>
+      )}
+
+      <DncEntryDialog
+        open={showAddDialog}
+        onOpenChange={setShowAddDialog}
+        defaultCountry={defaultCountry}
+        onDefaultCountryChange={onDefaultCountryChange}
+        findEntry={(phone) => dncStore.get(phone)}
+        onSave={handleAdd}
+      />
+    </Card>
+  );
+};
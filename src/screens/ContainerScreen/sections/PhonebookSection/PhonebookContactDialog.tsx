@@ -0,0 +1,159 @@
+import React, { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "../../../../components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "../../../../components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../../../../components/ui/select";
+import { PhonebookContact, PhonebookContactInput } from "../../../../lib/api";
+import { validateName, validatePhoneNumber } from "../../../../lib/import/validateContacts";
+import { COUNTRY_PHONE_PLANS } from "../../../../lib/phone/countries";
+
+interface PhonebookContactDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Contact being edited; unset when adding one
+  contact?: PhonebookContact;
+  defaultCountry: string;
+  onDefaultCountryChange: (country: string) => void;
+  // Resolves with an error message to show, or '' once saved
+  onSave: (input: PhonebookContactInput) => Promise<string>;
+}
+
+type ContactErrors = Partial<Record<keyof PhonebookContactInput, string>>;
+
+const inputClassName = (hasError: boolean) =>
+  `w-full h-10 px-3 text-sm border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+    hasError ? 'border-red-400' : 'border-gray-300'
+  }`;
+
+export const PhonebookContactDialog: React.FC<PhonebookContactDialogProps> = ({
+  open,
+  onOpenChange,
+  contact,
+  defaultCountry,
+  onDefaultCountryChange,
+  onSave,
+}) => {
+  const [name, setName] = useState('');
+  const [phone, setPhone] = useState('');
+  const [errors, setErrors] = useState<ContactErrors>({});
+  const [saveError, setSaveError] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setName(contact?.name ?? '');
+    setPhone(contact?.phone ?? '');
+    setErrors({});
+    setSaveError('');
+  }, [open, contact]);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    // Same rules as a file import, so phonebook contacts always import cleanly
+    const phoneResult = validatePhoneNumber(phone, defaultCountry);
+    const nextErrors: ContactErrors = {};
+    if (!validateName(name)) {
+      nextErrors.name = name.trim() === '' ? 'Name is required' : 'Name must be 100 characters or less';
+    }
+    if (!phoneResult.isValid) nextErrors.phone = phoneResult.error ?? 'Invalid phone number';
+    setErrors(nextErrors);
+    if (Object.keys(nextErrors).length > 0) return;
+
+    setIsSaving(true);
+    const error = await onSave({ name: name.trim(), phone: phoneResult.e164 });
+    setIsSaving(false);
+    if (error) setSaveError(error);
+    else onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isSaving && onOpenChange(isOpen)}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="text-lg font-semibold">{contact ? 'Edit Contact' : 'Add Contact'}</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label htmlFor="phonebook-contact-name" className="block text-sm font-medium text-gray-700 mb-2">
+              Name
+            </label>
+            <input
+              id="phonebook-contact-name"
+              type="text"
+              value={name}
+              onChange={(e) => {
+                setName(e.target.value);
+                setErrors(prev => ({ ...prev, name: undefined }));
+              }}
+              autoFocus
+              className={inputClassName(!!errors.name)}
+            />
+            {errors.name && <p className="text-xs text-red-600 mt-1">{errors.name}</p>}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="phonebook-contact-phone" className="block text-sm font-medium text-gray-700 mb-2">
+                Phone
+              </label>
+              <input
+                id="phonebook-contact-phone"
+                type="tel"
+                value={phone}
+                onChange={(e) => {
+                  setPhone(e.target.value);
+                  setErrors(prev => ({ ...prev, phone: undefined }));
+                }}
+                placeholder="+962771234567"
+                className={inputClassName(!!errors.phone)}
+              />
+              {errors.phone && <p className="text-xs text-red-600 mt-1">{errors.phone}</p>}
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Default Country</label>
+              <Select value={defaultCountry} onValueChange={onDefaultCountryChange}>
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {COUNTRY_PHONE_PLANS.map((plan) => (
+                    <SelectItem key={plan.iso2} value={plan.iso2}>
+                      {plan.name} (+{plan.callingCode})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <p className="text-xs text-gray-500">Numbers without a country code use the default country and are saved in E.164</p>
+
+          {saveError && (
+            <p className="p-2 text-xs text-red-700 bg-red-50 border border-red-200 rounded-md">{saveError}</p>
+          )}
+
+          <div className="flex justify-end gap-3">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving} className="bg-blue-600 hover:bg-blue-700">
+              {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {contact ? 'Save' : 'Add Contact'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,436 @@
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { Loader2, Upload } from "lucide-react";
+import toast from 'react-hot-toast';
+import { Button } from "../../../../components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "../../../../components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../../../../components/ui/select";
+import { PhonebookSummary, api, getApiErrorMessage, isAbortError } from "../../../../lib/api";
+import { AudienceData } from "../../../../lib/audience";
+import {
+  ColumnRole,
+  MappedRow,
+  ParsedSheet,
+  applyColumnMapping,
+  detectColumnMapping,
+  validateColumnMapping,
+} from "../../../../lib/import/columnMapping";
+import {
+  ImportCancelledError,
+  ImportJob,
+  ImportProgress,
+  parseSpreadsheetInWorker,
+  validateContactsInWorker,
+} from "../../../../lib/import/importWorkerClient";
+import { getSpreadsheetFileError } from "../../../../lib/import/parseFile";
+import { addPhonebookContacts } from "../../../../lib/import/phonebookImport";
+import {
+  ContactValidationResult,
+  ImportSummary,
+  ValidationError,
+  ValidationField,
+} from "../../../../lib/import/validateContacts";
+import { COUNTRY_PHONE_PLANS } from "../../../../lib/phone/countries";
+import { ColumnMappingStep } from "../AudienceTableSection/ColumnMappingStep";
+import { ImportProgressBar } from "../AudienceTableSection/ImportProgressBar";
+import { ImportReportDialog } from "../AudienceTableSection/ImportReportDialog";
+
+interface PhonebookFileImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  phonebook: PhonebookSummary;
+  defaultCountry: string;
+  onDefaultCountryChange: (country: string) => void;
+  onImported: (addedCount: number) => void;
+}
+
+// Phonebooks only keep a name and a phone; no existing phones to match against
+const NO_EXISTING_PHONES = new Set<string>();
+// Suppressed numbers may stay in a phonebook; they are held back when imported into a campaign
+const NO_SUPPRESSED_PHONES = new Map<string, string>();
+
+// The campaign file import pipeline (worker parsing, column mapping, validation and the error
+// report) saving into a phonebook instead of a campaign
+export const PhonebookFileImportDialog: React.FC<PhonebookFileImportDialogProps> = ({
+  open,
+  onOpenChange,
+  phonebook,
+  defaultCountry,
+  onDefaultCountryChange,
+  onImported,
+}) => {
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [parsedSheet, setParsedSheet] = useState<ParsedSheet | null>(null);
+  const [columnRoles, setColumnRoles] = useState<ColumnRole[]>([]);
+  const [importProgress, setImportProgress] = useState<ImportProgress | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [showReport, setShowReport] = useState(false);
+  const [reviewRows, setReviewRows] = useState<MappedRow[]>([]);
+  const [reviewDirty, setReviewDirty] = useState(false);
+  const [validationErrors, setValidationErrors] = useState<ValidationError[]>([]);
+  const [validRows, setValidRows] = useState<AudienceData[]>([]);
+  const [importSummary, setImportSummary] = useState<ImportSummary | null>(null);
+  const importJobRef = useRef<ImportJob<unknown> | null>(null);
+  const saveRef = useRef<AbortController | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const resetImportState = useCallback(() => {
+    importJobRef.current?.cancel();
+    importJobRef.current = null;
+    saveRef.current?.abort();
+    saveRef.current = null;
+    setSelectedFile(null);
+    setParsedSheet(null);
+    setColumnRoles([]);
+    setImportProgress(null);
+    setIsLoading(false);
+    setShowReport(false);
+    setReviewRows([]);
+    setReviewDirty(false);
+    setValidationErrors([]);
+    setValidRows([]);
+    setImportSummary(null);
+  }, []);
+
+  // Start from an empty form every time the dialog opens
+  useEffect(() => {
+    if (open) resetImportState();
+  }, [open, resetImportState]);
+
+  useEffect(() => () => {
+    importJobRef.current?.cancel();
+    saveRef.current?.abort();
+  }, []);
+
+  const saveContacts = useCallback(async (contacts: AudienceData[], summary: ImportSummary) => {
+    // Already saving; the report's confirm button stays enabled meanwhile
+    if (saveRef.current) return;
+    const controller = new AbortController();
+    saveRef.current = controller;
+    setIsLoading(true);
+    try {
+      const added = await addPhonebookContacts(
+        api.phonebooks,
+        phonebook.id,
+        contacts.map(({ name, phone }) => ({ name, phone })),
+        { signal: controller.signal },
+      );
+      setShowReport(false);
+      onOpenChange(false);
+      onImported(added.length);
+
+      const duplicateMessage = summary.duplicatesRemoved > 0 ? ` (${summary.duplicatesRemoved} duplicates removed)` : '';
+      const errorMessage = summary.invalidRows > 0 ? ` (${summary.invalidRows} invalid rows skipped)` : '';
+      toast.success(`Successfully imported ${added.length} contacts into "${phonebook.name}"${duplicateMessage}${errorMessage}`);
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.error('Error saving phonebook contacts:', error);
+      toast.error(getApiErrorMessage(error, `Failed to import contacts into "${phonebook.name}"`));
+    } finally {
+      if (saveRef.current === controller) {
+        saveRef.current = null;
+        setIsLoading(false);
+      }
+    }
+  }, [phonebook, onOpenChange, onImported]);
+
+  const showValidationReport = useCallback((rows: MappedRow[], result: ContactValidationResult) => {
+    setReviewRows(rows);
+    setReviewDirty(false);
+    setValidationErrors(result.errors);
+    setValidRows(result.valid);
+    setImportSummary(result.summary);
+  }, []);
+
+  // Read the file and move on to the column mapping step
+  const parseFile = useCallback(async (file: File) => {
+    const fileError = getSpreadsheetFileError(file);
+    if (fileError) {
+      toast.error(fileError);
+      return;
+    }
+
+    setIsLoading(true);
+    const job = parseSpreadsheetInWorker(file, setImportProgress);
+    importJobRef.current = job;
+    try {
+      const sheet = await job.result;
+
+      if (sheet.rows.length === 0) {
+        toast.error('File is empty or contains no data rows');
+        return;
+      }
+
+      setParsedSheet(sheet);
+      setColumnRoles(detectColumnMapping(sheet));
+    } catch (error) {
+      if (error instanceof ImportCancelledError) return;
+      console.error('Error processing file:', error);
+      toast.error('Error processing file. Please check the file format.');
+    } finally {
+      if (importJobRef.current === job) {
+        importJobRef.current = null;
+        setImportProgress(null);
+        setIsLoading(false);
+      }
+    }
+  }, []);
+
+  // Validate the mapped rows in the import worker so large files don't block the page
+  const processFile = useCallback(async (sheet: ParsedSheet, roles: ColumnRole[]) => {
+    const mappingError = validateColumnMapping(roles);
+    if (mappingError) {
+      toast.error(mappingError);
+      return;
+    }
+
+    setIsLoading(true);
+    const mappedRows = applyColumnMapping(sheet, roles);
+    const job = validateContactsInWorker(mappedRows, defaultCountry, NO_EXISTING_PHONES, NO_SUPPRESSED_PHONES, setImportProgress);
+    importJobRef.current = job;
+    let result: ContactValidationResult;
+    try {
+      result = await job.result;
+    } catch (error) {
+      if (error instanceof ImportCancelledError) return;
+      console.error('Error processing file:', error);
+      toast.error('Error processing file. Please check the file format.');
+      return;
+    } finally {
+      if (importJobRef.current === job) {
+        importJobRef.current = null;
+        setImportProgress(null);
+        setIsLoading(false);
+      }
+    }
+
+    if (result.errors.length === 0) {
+      void saveContacts(result.valid, result.summary);
+      return;
+    }
+
+    // Hold the import until the user has reviewed the errors
+    showValidationReport(mappedRows, result);
+    setShowReport(true);
+  }, [defaultCountry, saveContacts, showValidationReport]);
+
+  const handleFileChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setSelectedFile(file);
+    setParsedSheet(null);
+    setColumnRoles([]);
+  }, []);
+
+  const handleContinue = useCallback(() => {
+    if (!selectedFile) {
+      toast.error('Please select a file');
+      return;
+    }
+    if (!parsedSheet) {
+      void parseFile(selectedFile);
+      return;
+    }
+    void processFile(parsedSheet, columnRoles);
+  }, [selectedFile, parsedSheet, columnRoles, parseFile, processFile]);
+
+  const handleCancelImportJob = useCallback(() => {
+    importJobRef.current?.cancel();
+    importJobRef.current = null;
+    setImportProgress(null);
+    setIsLoading(false);
+    toast('Import cancelled');
+  }, []);
+
+  const handleReviewRowChange = useCallback((rowNumber: number, field: ValidationField, value: string) => {
+    setReviewRows(prev => prev.map(row => (row.rowNumber === rowNumber ? { ...row, [field]: value } : row)));
+    setReviewDirty(true);
+  }, []);
+
+  // Validate the reviewed rows again in the import worker; null when cancelled or failed
+  const revalidateReviewRows = useCallback(async (): Promise<ContactValidationResult | null> => {
+    const job = validateContactsInWorker(reviewRows, defaultCountry, NO_EXISTING_PHONES, NO_SUPPRESSED_PHONES, setImportProgress);
+    importJobRef.current = job;
+    try {
+      return await job.result;
+    } catch (error) {
+      if (!(error instanceof ImportCancelledError)) {
+        console.error('Error validating contacts:', error);
+        toast.error('Error validating contacts. Please try again.');
+      }
+      return null;
+    } finally {
+      if (importJobRef.current === job) {
+        importJobRef.current = null;
+        setImportProgress(null);
+      }
+    }
+  }, [reviewRows, defaultCountry]);
+
+  const handleRevalidate = useCallback(async () => {
+    const result = await revalidateReviewRows();
+    if (!result) return;
+    showValidationReport(reviewRows, result);
+
+    if (result.errors.length === 0) {
+      toast.success('All rows are valid now');
+    } else {
+      toast.error(`${result.summary.invalidRows} row(s) still have errors`);
+    }
+  }, [reviewRows, revalidateReviewRows, showValidationReport]);
+
+  const handleImportConfirm = useCallback(async () => {
+    // Apply pending inline fixes before importing
+    const result = reviewDirty ? await revalidateReviewRows() : null;
+    if (reviewDirty && !result) return;
+    const contacts = result ? result.valid : validRows;
+    const summary = result ? result.summary : importSummary;
+
+    if (contacts.length === 0 || !summary) {
+      if (result) showValidationReport(reviewRows, result);
+      toast.error('No valid contacts found to import. Please check your file format.');
+      return;
+    }
+
+    void saveContacts(contacts, summary);
+  }, [reviewDirty, reviewRows, revalidateReviewRows, validRows, importSummary, showValidationReport, saveContacts]);
+
+  const canContinue = selectedFile !== null && (parsedSheet === null || validateColumnMapping(columnRoles) === '');
+
+  return (
+    <>
+      <Dialog open={open && !showReport} onOpenChange={(isOpen) => !isOpen && !isLoading && onOpenChange(false)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle className="text-lg font-semibold">Import Contacts</DialogTitle>
+            <p className="text-sm text-gray-600 mt-1">
+              Add contacts from a file to <span className="font-medium text-gray-800">{phonebook.name}</span>
+            </p>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            {selectedFile && parsedSheet ? (
+              <ColumnMappingStep
+                fileName={selectedFile.name}
+                sheet={parsedSheet}
+                roles={columnRoles}
+                defaultCountry={defaultCountry}
+                onRolesChange={setColumnRoles}
+              />
+            ) : (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">File</label>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={isLoading}
+                  className="w-full h-10 border-2 border-dashed border-gray-300 hover:border-gray-400 bg-gray-50 hover:bg-gray-100"
+                >
+                  <Upload className="h-4 w-4 mr-2 text-gray-500" />
+                  <span className="text-sm text-gray-600 truncate">{selectedFile ? selectedFile.name : 'Choose File'}</span>
+                </Button>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept=".csv,.xlsx,.xls"
+                  onChange={handleFileChange}
+                  className="hidden"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  CSV up to 100 MB or Excel up to 25 MB, with a header row. Only the name and phone columns are kept.
+                </p>
+              </div>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Default Country</label>
+              <Select value={defaultCountry} onValueChange={onDefaultCountryChange}>
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {COUNTRY_PHONE_PLANS.map((plan) => (
+                    <SelectItem key={plan.iso2} value={plan.iso2}>
+                      {plan.name} (+{plan.callingCode})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-gray-500 mt-1">
+                Used for numbers without a country code, such as 0791234567
+              </p>
+            </div>
+
+            {importProgress && (
+              <ImportProgressBar progress={importProgress} onCancel={handleCancelImportJob} />
+            )}
+          </div>
+
+          <div className="flex justify-end items-center gap-3 mt-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isLoading}>
+              Cancel
+            </Button>
+            {parsedSheet && (
+              <Button
+                variant="outline"
+                onClick={() => {
+                  setParsedSheet(null);
+                  setColumnRoles([]);
+                }}
+                disabled={isLoading}
+              >
+                Back
+              </Button>
+            )}
+            <Button
+              onClick={handleContinue}
+              disabled={!canContinue || isLoading}
+              className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed"
+            >
+              {isLoading ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Processing...
+                </>
+              ) : parsedSheet ? (
+                `Import ${parsedSheet.rows.length} Rows`
+              ) : (
+                'Continue'
+              )}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <ImportReportDialog
+        open={open && showReport}
+        summary={importSummary}
+        errors={validationErrors}
+        rows={reviewRows}
+        validCount={validRows.length}
+        fileName={selectedFile?.name ?? ''}
+        isDirty={reviewDirty}
+        progress={importProgress}
+        onCancelValidation={handleCancelImportJob}
+        onRowChange={handleReviewRowChange}
+        onRevalidate={handleRevalidate}
+        onConfirm={handleImportConfirm}
+        onBack={() => setShowReport(false)}
+        onClose={() => onOpenChange(false)}
+      />
+    </>
+  );
+};
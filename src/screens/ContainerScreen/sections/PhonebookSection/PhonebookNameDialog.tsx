@@ -0,0 +1,106 @@
+import React, { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "../../../../components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "../../../../components/ui/dialog";
+import { PHONEBOOK_NAME_MAX_LENGTH } from "../../../../lib/api";
+
+interface PhonebookNameDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Name being renamed; empty when creating a list
+  initialName?: string;
+  // Resolves with an error message to show, or '' once saved
+  onSave: (name: string) => Promise<string>;
+}
+
+export const PhonebookNameDialog: React.FC<PhonebookNameDialogProps> = ({
+  open,
+  onOpenChange,
+  initialName = '',
+  onSave,
+}) => {
+  const [name, setName] = useState(initialName);
+  const [error, setError] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const isRename = initialName !== '';
+
+  useEffect(() => {
+    if (!open) return;
+    setName(initialName);
+    setError('');
+  }, [open, initialName]);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const trimmed = name.trim();
+    if (!trimmed) {
+      setError('List name is required');
+      return;
+    }
+    if (trimmed.length > PHONEBOOK_NAME_MAX_LENGTH) {
+      setError(`List name must be ${PHONEBOOK_NAME_MAX_LENGTH} characters or less`);
+      return;
+    }
+    if (trimmed === initialName) {
+      onOpenChange(false);
+      return;
+    }
+
+    setIsSaving(true);
+    const saveError = await onSave(trimmed);
+    setIsSaving(false);
+    if (saveError) setError(saveError);
+    else onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isSaving && onOpenChange(isOpen)}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="text-lg font-semibold">
+            {isRename ? 'Rename List' : 'New Phonebook List'}
+          </DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label htmlFor="phonebook-name" className="block text-sm font-medium text-gray-700 mb-2">
+              List Name
+            </label>
+            <input
+              id="phonebook-name"
+              type="text"
+              value={name}
+              onChange={(e) => {
+                setName(e.target.value);
+                setError('');
+              }}
+              maxLength={PHONEBOOK_NAME_MAX_LENGTH}
+              placeholder="e.g. Amman Customers"
+              autoFocus
+              className={`w-full h-10 px-3 text-sm border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                error ? 'border-red-400' : 'border-gray-300'
+              }`}
+            />
+            {error && <p className="text-xs text-red-600 mt-1">{error}</p>}
+          </div>
+
+          <div className="flex justify-end gap-3">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving} className="bg-blue-600 hover:bg-blue-700">
+              {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {isRename ? 'Rename' : 'Create List'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
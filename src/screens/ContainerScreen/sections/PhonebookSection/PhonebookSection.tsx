@@ -0,0 +1,581 @@
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { Ban, BookUser, Loader2, Pencil, Plus, Search, Trash2, Upload, UserPlus } from "lucide-react";
+import toast from 'react-hot-toast';
+import { Button } from "../../../../components/ui/button";
+import { Card } from "../../../../components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "../../../../components/ui/table";
+import {
+  PhonebookContact,
+  PhonebookContactInput,
+  PhonebookSummary,
+  api,
+  getApiErrorMessage,
+  isAbortError,
+} from "../../../../lib/api";
+import { getSuppressedPhones } from "../../../../lib/dnc";
+import { useDncEntries } from "../../../../lib/dncStore";
+import { DEFAULT_COUNTRY } from "../../../../lib/phone/countries";
+import { DncListPanel } from "./DncListPanel";
+import { PhonebookContactDialog } from "./PhonebookContactDialog";
+import { PhonebookFileImportDialog } from "./PhonebookFileImportDialog";
+import { PhonebookNameDialog } from "./PhonebookNameDialog";
+
+const PHONEBOOKS_PER_PAGE = 50;
+const CONTACTS_PER_PAGE = 50;
+const SEARCH_DEBOUNCE_MS = 300;
+
+type PhonebookView = 'lists' | 'dnc';
+
+const VIEW_LABELS: Record<PhonebookView, string> = {
+  lists: 'Lists',
+  dnc: 'Do Not Call',
+};
+
+// Which list the name dialog is for; null when creating one
+type NameDialogState = { phonebook: PhonebookSummary | null } | null;
+// Which contact the contact dialog is for; null when adding one
+type ContactDialogState = { contact: PhonebookContact | null } | null;
+
+// Search text, applied once the user stops typing
+function useDebouncedSearch(): [string, React.Dispatch<React.SetStateAction<string>>, string] {
+  const [search, setSearch] = useState('');
+  const [query, setQuery] = useState('');
+
+  useEffect(() => {
+    const timer = setTimeout(() => setQuery(search.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  return [search, setSearch, query];
+}
+
+const SearchInput: React.FC<{ value: string; onChange: (value: string) => void; placeholder: string }> = ({
+  value,
+  onChange,
+  placeholder,
+}) => (
+  <div className="relative">
+    <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 h-3.5 w-3.5 text-gray-400" />
+    <input
+      type="search"
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      placeholder={placeholder}
+      className="w-full h-8 pl-8 pr-3 text-xs border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+    />
+  </div>
+);
+
+/**
+ * The organisation's phonebook: saved contact lists kept outside any campaign. Lists created
+ * here are what the campaign import dialog offers under "Import List from Phonebook".
+ */
+export const PhonebookSection = (): JSX.Element => {
+  const [view, setView] = useState<PhonebookView>('lists');
+  const [listSearch, setListSearch, listQuery] = useDebouncedSearch();
+  const [phonebooks, setPhonebooks] = useState<PhonebookSummary[]>([]);
+  const [phonebookTotal, setPhonebookTotal] = useState(0);
+  const [isLoadingPhonebooks, setIsLoadingPhonebooks] = useState(false);
+  const [selectedPhonebook, setSelectedPhonebook] = useState<PhonebookSummary | null>(null);
+
+  const [contactSearch, setContactSearch, contactQuery] = useDebouncedSearch();
+  const [contacts, setContacts] = useState<PhonebookContact[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | undefined>();
+  const [isLoadingContacts, setIsLoadingContacts] = useState(false);
+
+  const [nameDialog, setNameDialog] = useState<NameDialogState>(null);
+  const [contactDialog, setContactDialog] = useState<ContactDialogState>(null);
+  const [showFileImport, setShowFileImport] = useState(false);
+  // Deleting asks for confirmation inline, on the row itself
+  const [pendingDeletePhonebookId, setPendingDeletePhonebookId] = useState<string | null>(null);
+  const [pendingDeleteContactId, setPendingDeleteContactId] = useState<string | null>(null);
+  const [defaultCountry, setDefaultCountry] = useState<string>(DEFAULT_COUNTRY);
+
+  const dncEntries = useDncEntries();
+  const suppressedPhones = React.useMemo(() => getSuppressedPhones(dncEntries), [dncEntries]);
+
+  const phonebooksRequestRef = useRef<AbortController | null>(null);
+  const contactsRequestRef = useRef<AbortController | null>(null);
+  // Aborted on unmount so saves that finish late don't update the page
+  const requestScopeRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    const scope = new AbortController();
+    requestScopeRef.current = scope;
+    return () => {
+      scope.abort();
+      phonebooksRequestRef.current?.abort();
+      contactsRequestRef.current?.abort();
+    };
+  }, []);
+
+  const loadPhonebooks = useCallback(async (offset: number) => {
+    phonebooksRequestRef.current?.abort();
+    const controller = new AbortController();
+    phonebooksRequestRef.current = controller;
+    setIsLoadingPhonebooks(true);
+    try {
+      const page = await api.phonebooks.listPhonebooks(
+        { search: listQuery, offset, limit: PHONEBOOKS_PER_PAGE },
+        { signal: controller.signal },
+      );
+      setPhonebooks(prev => (offset === 0 ? page.phonebooks : [...prev, ...page.phonebooks]));
+      setPhonebookTotal(page.total);
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.error('Error loading phonebooks:', error);
+      toast.error(getApiErrorMessage(error, 'Failed to load phonebooks'));
+    } finally {
+      if (phonebooksRequestRef.current === controller) {
+        phonebooksRequestRef.current = null;
+        setIsLoadingPhonebooks(false);
+      }
+    }
+  }, [listQuery]);
+
+  useEffect(() => {
+    void loadPhonebooks(0);
+  }, [loadPhonebooks]);
+
+  const selectedId = selectedPhonebook?.id;
+
+  const loadContacts = useCallback(async (cursor?: string) => {
+    contactsRequestRef.current?.abort();
+    if (!selectedId) return;
+    const controller = new AbortController();
+    contactsRequestRef.current = controller;
+    setIsLoadingContacts(true);
+    try {
+      const page = await api.phonebooks.getContacts(
+        { phonebookId: selectedId, search: contactQuery, cursor, pageSize: CONTACTS_PER_PAGE },
+        { signal: controller.signal },
+      );
+      setContacts(prev => (cursor ? [...prev, ...page.contacts] : page.contacts));
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.error('Error loading phonebook contacts:', error);
+      toast.error(getApiErrorMessage(error, 'Failed to load contacts'));
+    } finally {
+      if (contactsRequestRef.current === controller) {
+        contactsRequestRef.current = null;
+        setIsLoadingContacts(false);
+      }
+    }
+  }, [selectedId, contactQuery]);
+
+  // First page whenever the list or the search changes
+  useEffect(() => {
+    setContacts([]);
+    setNextCursor(undefined);
+    setPendingDeleteContactId(null);
+    void loadContacts();
+  }, [loadContacts]);
+
+  const handleSelectPhonebook = useCallback((phonebook: PhonebookSummary) => {
+    setSelectedPhonebook(phonebook);
+    setContactSearch('');
+  }, [setContactSearch]);
+
+  // Keep the list entry and the open list in step after a change to one phonebook
+  const replacePhonebook = useCallback((phonebook: PhonebookSummary) => {
+    setPhonebooks(prev => prev.map(item => (item.id === phonebook.id ? phonebook : item)));
+    setSelectedPhonebook(prev => (prev?.id === phonebook.id ? phonebook : prev));
+  }, []);
+
+  const adjustContactCount = useCallback((phonebook: PhonebookSummary, delta: number) => {
+    replacePhonebook({ ...phonebook, contactCount: Math.max(0, phonebook.contactCount + delta) });
+  }, [replacePhonebook]);
+
+  const handleSavePhonebookName = useCallback(async (name: string): Promise<string> => {
+    const renaming = nameDialog?.phonebook;
+    try {
+      if (renaming) {
+        const phonebook = await api.phonebooks.renamePhonebook(
+          { phonebookId: renaming.id, name },
+          { signal: requestScopeRef.current?.signal },
+        );
+        replacePhonebook(phonebook);
+        toast.success(`Renamed "${renaming.name}" to "${phonebook.name}"`);
+      } else {
+        const phonebook = await api.phonebooks.createPhonebook({ name }, { signal: requestScopeRef.current?.signal });
+        setPhonebooks(prev => [phonebook, ...prev]);
+        setPhonebookTotal(prev => prev + 1);
+        handleSelectPhonebook(phonebook);
+        toast.success(`Created "${phonebook.name}"`);
+      }
+      return '';
+    } catch (error) {
+      if (isAbortError(error)) return '';
+      console.error('Error saving phonebook:', error);
+      return getApiErrorMessage(error, renaming ? 'Failed to rename the list' : 'Failed to create the list');
+    }
+  }, [nameDialog, replacePhonebook, handleSelectPhonebook]);
+
+  const handleDeletePhonebook = useCallback(async (phonebook: PhonebookSummary) => {
+    setPendingDeletePhonebookId(null);
+    try {
+      await api.phonebooks.deletePhonebook(phonebook.id, { signal: requestScopeRef.current?.signal });
+      setPhonebooks(prev => prev.filter(item => item.id !== phonebook.id));
+      setPhonebookTotal(prev => Math.max(0, prev - 1));
+      setSelectedPhonebook(prev => (prev?.id === phonebook.id ? null : prev));
+      toast.success(`Deleted "${phonebook.name}"`);
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.error('Error deleting phonebook:', error);
+      toast.error(getApiErrorMessage(error, `Failed to delete "${phonebook.name}"`));
+    }
+  }, []);
+
+  const handleSaveContact = useCallback(async (input: PhonebookContactInput): Promise<string> => {
+    if (!selectedPhonebook) return '';
+    const editing = contactDialog?.contact;
+    const signal = requestScopeRef.current?.signal;
+    try {
+      if (editing) {
+        const contact = await api.phonebooks.updateContact(
+          { phonebookId: selectedPhonebook.id, contactId: editing.id, ...input },
+          { signal },
+        );
+        setContacts(prev => prev.map(item => (item.id === contact.id ? contact : item)));
+        toast.success(`Saved ${contact.name}`);
+      } else {
+        const { contacts: [contact] } = await api.phonebooks.addContacts(
+          { phonebookId: selectedPhonebook.id, contacts: [input] },
+          { signal },
+        );
+        // Shown at the top until the next reload puts it in order
+        setContacts(prev => [contact, ...prev]);
+        adjustContactCount(selectedPhonebook, 1);
+        toast.success(`Added ${contact.name} to "${selectedPhonebook.name}"`);
+      }
+      return '';
+    } catch (error) {
+      if (isAbortError(error)) return '';
+      console.error('Error saving phonebook contact:', error);
+      return getApiErrorMessage(error, editing ? 'Failed to save the contact' : 'Failed to add the contact');
+    }
+  }, [selectedPhonebook, contactDialog, adjustContactCount]);
+
+  const handleDeleteContact = useCallback(async (contact: PhonebookContact) => {
+    if (!selectedPhonebook) return;
+    setPendingDeleteContactId(null);
+    try {
+      await api.phonebooks.deleteContact(
+        { phonebookId: selectedPhonebook.id, contactId: contact.id },
+        { signal: requestScopeRef.current?.signal },
+      );
+      setContacts(prev => prev.filter(item => item.id !== contact.id));
+      adjustContactCount(selectedPhonebook, -1);
+      toast.success(`Deleted ${contact.name}`);
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.error('Error deleting phonebook contact:', error);
+      toast.error(getApiErrorMessage(error, `Failed to delete ${contact.name}`));
+    }
+  }, [selectedPhonebook, adjustContactCount]);
+
+  const handleFileImported = useCallback((addedCount: number) => {
+    if (!selectedPhonebook) return;
+    adjustContactCount(selectedPhonebook, addedCount);
+    void loadContacts();
+  }, [selectedPhonebook, adjustContactCount, loadContacts]);
+
+  return (
+    <section className="w-full bg-neutral-100 p-6">
+      <div className="w-full">
+        {/* Header */}
+        <div className="flex justify-between items-center mb-4">
+          <div className="flex items-center gap-4">
+            <h2 className="text-xl font-medium">Phonebook</h2>
+            <div className="inline-flex p-0.5 bg-white border border-gray-200 rounded-md">
+              {(Object.keys(VIEW_LABELS) as PhonebookView[]).map((option) => (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => setView(option)}
+                  className={`px-3 py-1 text-xs rounded ${
+                    view === option ? 'bg-blue-50 font-medium text-blue-700' : 'text-gray-600 hover:text-gray-900'
+                  }`}
+                >
+                  {VIEW_LABELS[option]}
+                </button>
+              ))}
+            </div>
+          </div>
+          {view === 'lists' && (
+            <Button
+              className="h-8 text-xs gap-2 bg-blue-600 hover:bg-blue-700"
+              onClick={() => setNameDialog({ phonebook: null })}
+            >
+              <Plus className="h-3.5 w-3.5" />
+              New List
+            </Button>
+          )}
+        </div>
+
+        {view === 'dnc' ? (
+          <DncListPanel defaultCountry={defaultCountry} onDefaultCountryChange={setDefaultCountry} />
+        ) : (
+          <div className="grid grid-cols-[300px_1fr] gap-4 items-start">
+            {/* Lists */}
+            <Card className="border p-3">
+              <SearchInput value={listSearch} onChange={setListSearch} placeholder="Search lists..." />
+              <p className="text-xs text-gray-500 mt-2 mb-1">
+                {phonebookTotal.toLocaleString()} list(s)
+              </p>
+              <ul className="max-h-[560px] overflow-y-auto -mx-1">
+                {phonebooks.map((phonebook) => {
+                  const isSelected = phonebook.id === selectedId;
+                  if (pendingDeletePhonebookId === phonebook.id) {
+                    return (
+                      <li key={phonebook.id} className="mx-1 my-0.5 p-2 rounded-md bg-red-50 text-xs">
+                        <p className="text-red-700 mb-2">
+                          Delete "{phonebook.name}" and its {phonebook.contactCount.toLocaleString()} contacts?
+                        </p>
+                        <div className="flex justify-end gap-2">
+                          <Button variant="outline" size="sm" className="h-7" onClick={() => setPendingDeletePhonebookId(null)}>
+                            Cancel
+                          </Button>
+                          <Button
+                            variant="destructive"
+                            size="sm"
+                            className="h-7 bg-red-600 hover:bg-red-700"
+                            onClick={() => void handleDeletePhonebook(phonebook)}
+                          >
+                            Delete
+                          </Button>
+                        </div>
+                      </li>
+                    );
+                  }
+                  return (
+                    <li
+                      key={phonebook.id}
+                      className={`group mx-1 my-0.5 flex items-center gap-1 rounded-md ${
+                        isSelected ? 'bg-blue-50' : 'hover:bg-gray-50'
+                      }`}
+                    >
+                      <button
+                        type="button"
+                        onClick={() => handleSelectPhonebook(phonebook)}
+                        className="flex-1 min-w-0 flex items-center justify-between gap-2 px-2 py-1.5 text-left"
+                      >
+                        <span className={`text-xs truncate ${isSelected ? 'font-medium text-blue-700' : 'text-[#000000e0]'}`}>
+                          {phonebook.name}
+                        </span>
+                        <span className="text-xs text-gray-500 flex-shrink-0">{phonebook.contactCount.toLocaleString()}</span>
+                      </button>
+                      <div className="flex opacity-0 group-hover:opacity-100 focus-within:opacity-100">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-7 w-7 p-0"
+                          onClick={() => setNameDialog({ phonebook })}
+                          title="Rename"
+                        >
+                          <Pencil className="h-3.5 w-3.5" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-7 w-7 p-0 text-red-600 hover:text-red-700 hover:bg-red-50"
+                          onClick={() => setPendingDeletePhonebookId(phonebook.id)}
+                          title="Delete"
+                        >
+                          <Trash2 className="h-3.5 w-3.5" />
+                        </Button>
+                      </div>
+                    </li>
+                  );
+                })}
+                {!isLoadingPhonebooks && phonebooks.length === 0 && (
+                  <li className="py-6 text-center text-xs text-gray-500">
+                    {listQuery ? 'No lists match your search' : 'No lists yet. Create one to get started.'}
+                  </li>
+                )}
+              </ul>
+              {isLoadingPhonebooks ? (
+                <div className="flex items-center justify-center gap-2 py-2 text-xs text-gray-500">
+                  <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                  Loading...
+                </div>
+              ) : phonebooks.length < phonebookTotal && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="w-full h-7 mt-1 text-xs text-blue-600 hover:text-blue-700 hover:bg-blue-50"
+                  onClick={() => void loadPhonebooks(phonebooks.length)}
+                >
+                  Load more ({(phonebookTotal - phonebooks.length).toLocaleString()} more)
+                </Button>
+              )}
+            </Card>
+
+            {/* Contacts of the selected list */}
+            <Card className="border">
+              {!selectedPhonebook ? (
+                <div className="py-16 flex flex-col items-center gap-2 text-sm text-gray-500">
+                  <BookUser className="h-8 w-8 text-gray-300" />
+                  Select a list to see its contacts
+                </div>
+              ) : (
+                <>
+                  <div className="flex justify-between items-center gap-4 p-3 border-b">
+                    <div className="min-w-0">
+                      <h3 className="text-sm font-medium text-[#000000e0] truncate">{selectedPhonebook.name}</h3>
+                      <p className="text-xs text-gray-500">{selectedPhonebook.contactCount.toLocaleString()} contacts</p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <div className="w-56">
+                        <SearchInput value={contactSearch} onChange={setContactSearch} placeholder="Search name or phone..." />
+                      </div>
+                      <Button variant="outline" className="h-8 text-xs gap-2" onClick={() => setShowFileImport(true)}>
+                        <Upload className="h-3.5 w-3.5" />
+                        Import File
+                      </Button>
+                      <Button
+                        className="h-8 text-xs gap-2 bg-blue-600 hover:bg-blue-700"
+                        onClick={() => setContactDialog({ contact: null })}
+                      >
+                        <UserPlus className="h-3.5 w-3.5" />
+                        Add Contact
+                      </Button>
+                    </div>
+                  </div>
+
+                  <Table>
+                    <TableHeader className="bg-neutral-50">
+                      <TableRow>
+                        <TableHead className="font-semibold text-xs text-[#000000e0]">Name</TableHead>
+                        <TableHead className="font-semibold text-xs text-[#000000e0]">Phone</TableHead>
+                        <TableHead className="font-semibold text-xs text-[#000000e0] text-right">Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {!isLoadingContacts && contacts.length === 0 && (
+                        <TableRow>
+                          <TableCell colSpan={3} className="py-8 text-center text-sm text-gray-500">
+                            {contactQuery ? 'No contacts match your search' : 'This list has no contacts yet'}
+                          </TableCell>
+                        </TableRow>
+                      )}
+                      {contacts.map((contact) => (
+                        <TableRow key={contact.id} className="hover:bg-gray-50">
+                          <TableCell className="text-xs text-[#000000e0]">{contact.name}</TableCell>
+                          <TableCell className="text-xs text-[#000000e0]">
+                            {contact.phone}
+                            {suppressedPhones.has(contact.phone) && (
+                              <span
+                                className="inline-flex items-center gap-1 ml-2 px-2 py-0.5 rounded-full text-[10px] font-medium bg-gray-900 text-white"
+                                title={`On the do-not-call list: ${suppressedPhones.get(contact.phone)}`}
+                              >
+                                <Ban className="h-3 w-3" />
+                                DNC
+                              </span>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-xs text-right">
+                            {pendingDeleteContactId === contact.id ? (
+                              <div className="inline-flex items-center gap-2">
+                                <span className="text-red-600">Delete this contact?</span>
+                                <Button variant="outline" size="sm" className="h-7" onClick={() => setPendingDeleteContactId(null)}>
+                                  Cancel
+                                </Button>
+                                <Button
+                                  variant="destructive"
+                                  size="sm"
+                                  className="h-7 bg-red-600 hover:bg-red-700"
+                                  onClick={() => void handleDeleteContact(contact)}
+                                >
+                                  Delete
+                                </Button>
+                              </div>
+                            ) : (
+                              <div className="inline-flex items-center gap-1">
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  className="h-7 px-2 text-xs gap-1"
+                                  onClick={() => setContactDialog({ contact })}
+                                >
+                                  <Pencil className="h-3.5 w-3.5" />
+                                  Edit
+                                </Button>
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  className="h-7 px-2 text-xs gap-1 text-red-600 hover:text-red-700 hover:bg-red-50"
+                                  onClick={() => setPendingDeleteContactId(contact.id)}
+                                >
+                                  <Trash2 className="h-3.5 w-3.5" />
+                                  Delete
+                                </Button>
+                              </div>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+
+                  {isLoadingContacts ? (
+                    <div className="flex items-center justify-center gap-2 py-3 text-xs text-gray-500">
+                      <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                      Loading contacts...
+                    </div>
+                  ) : nextCursor && (
+                    <div className="flex justify-center py-2 border-t">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 text-xs text-blue-600 hover:text-blue-700 hover:bg-blue-50"
+                        onClick={() => void loadContacts(nextCursor)}
+                      >
+                        Load more
+                      </Button>
+                    </div>
+                  )}
+                </>
+              )}
+            </Card>
+          </div>
+        )}
+
+        <PhonebookNameDialog
+          open={nameDialog !== null}
+          onOpenChange={(open) => !open && setNameDialog(null)}
+          initialName={nameDialog?.phonebook?.name}
+          onSave={handleSavePhonebookName}
+        />
+
+        <PhonebookContactDialog
+          open={contactDialog !== null}
+          onOpenChange={(open) => !open && setContactDialog(null)}
+          contact={contactDialog?.contact ?? undefined}
+          defaultCountry={defaultCountry}
+          onDefaultCountryChange={setDefaultCountry}
+          onSave={handleSaveContact}
+        />
+
+        {selectedPhonebook && (
+          <PhonebookFileImportDialog
+            open={showFileImport}
+            onOpenChange={setShowFileImport}
+            phonebook={selectedPhonebook}
+            defaultCountry={defaultCountry}
+            onDefaultCountryChange={setDefaultCountry}
+            onImported={handleFileImported}
+          />
+        )}
+      </div>
+    </section>
+  );
+};
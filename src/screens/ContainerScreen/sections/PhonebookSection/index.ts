@@ -0,0 +1 @@
+export { PhonebookSection } from "./PhonebookSection";
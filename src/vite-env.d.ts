@@ -0,0 +1,13 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Campaign backend root, e.g. https://api.example.com/v1; the in-browser mock server is used when unset
+  readonly VITE_API_BASE_URL?: string;
+  // Mock server tuning, see lib/api/mockServer.ts
+  readonly VITE_MOCK_LATENCY_MS?: string;
+  readonly VITE_MOCK_ERROR_RATE?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}